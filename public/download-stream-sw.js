@@ -0,0 +1,52 @@
+// Serves downloads the page streams to it, for browsers that can't write a file to disk directly (see
+// src/lib/stream-download.ts). The page sends one chunk for every "pull", so at most one chunk is held here at a time.
+const downloads = new Map();
+
+self.addEventListener("install", () => self.skipWaiting());
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("message", (event) => {
+  const { path, filename } = event.data;
+  const port = event.ports[0];
+  downloads.set(path, { filename, port });
+  port.postMessage({ type: "ready" });
+});
+
+self.addEventListener("fetch", (event) => {
+  const path = new URL(event.request.url).pathname;
+  const download = downloads.get(path);
+  if (!download) return;
+  downloads.delete(path);
+
+  const { filename, port } = download;
+  let delivered = null;
+  const stream = new ReadableStream(
+    {
+      start(controller) {
+        port.onmessage = ({ data }) => {
+          if (data.type === "chunk") controller.enqueue(new Uint8Array(data.chunk));
+          else if (data.type === "end") controller.close();
+          else if (data.type === "abort") controller.error(new Error("The download was aborted"));
+          delivered?.();
+        };
+      },
+      pull() {
+        port.postMessage({ type: "pull" });
+        return new Promise((resolve) => (delivered = resolve));
+      },
+      cancel() {
+        port.postMessage({ type: "cancel" });
+      },
+    },
+    { highWaterMark: 0 }
+  );
+
+  event.respondWith(
+    new Response(stream, {
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    })
+  );
+});
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { FileCode2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { buildNewReleaseMessage, serializeXml } from "@/lib/ddex";
+import { loadDdexRelease } from "@/lib/ddex-export";
+import { validateAgainstErnSchema } from "@/lib/ern-schema";
+import { triggerDownload } from "@/lib/storage-utils";
+
+interface DdexExportButtonProps {
+  releaseId: string;
+}
+
+export function DdexExportButton({ releaseId }: DdexExportButtonProps) {
+  const [exporting, setExporting] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const exportMessage = async () => {
+    setExporting(true);
+    try {
+      const { release, options } = await loadDdexRelease(releaseId);
+      const xml = serializeXml(buildNewReleaseMessage(release, options));
+
+      // Nothing is offered for download until the message validates against the ERN 4.3 schema
+      const errors = await validateAgainstErnSchema(xml);
+      if (errors.length > 0) {
+        setProblems(errors);
+        return;
+      }
+
+      const blob = new Blob([xml], { type: "application/xml" });
+      triggerDownload(URL.createObjectURL(blob), `${release.upc}_ERN43.xml`);
+    } catch (error) {
+      console.error("DDEX export error:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to build the DDEX message",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={exportMessage}
+        disabled={exporting}
+        className="touch-target"
+        title="Export DDEX ERN"
+      >
+        {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileCode2 className="h-4 w-4" />}
+      </Button>
+      <Dialog open={problems.length > 0} onOpenChange={(open) => !open && setProblems([])}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>DDEX message does not validate against the ERN 4.3 schema</DialogTitle>
+            <DialogDescription>Fix these problems in the release metadata, then export again.</DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-80 overflow-y-auto space-y-1 text-sm font-mono list-disc pl-5">
+            {problems.map((problem, index) => (
+              <li key={index}>{problem}</li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
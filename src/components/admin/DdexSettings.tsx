@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { FileCode2, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+const DPID_PATTERN = /^PADPIDA[0-9A-Z]{11}$/;
+
+export function DdexSettings() {
+  const { user } = useAuth();
+  const [senderDpid, setSenderDpid] = useState("");
+  const [senderName, setSenderName] = useState("");
+  const [recipientDpid, setRecipientDpid] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const valid =
+    DPID_PATTERN.test(senderDpid) &&
+    DPID_PATTERN.test(recipientDpid) &&
+    senderName.trim().length > 0 &&
+    recipientName.trim().length > 0;
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const { data, error } = await supabase.from("ddex_settings").select("*").maybeSingle();
+        if (error) throw error;
+
+        setSenderDpid(data?.sender_dpid ?? "");
+        setSenderName(data?.sender_name ?? "");
+        setRecipientDpid(data?.recipient_dpid ?? "");
+        setRecipientName(data?.recipient_name ?? "");
+      } catch (error) {
+        console.error("Error fetching DDEX settings:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load DDEX settings",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("ddex_settings").upsert({
+        id: true,
+        sender_dpid: senderDpid,
+        sender_name: senderName.trim(),
+        recipient_dpid: recipientDpid,
+        recipient_name: recipientName.trim(),
+        updated_at: new Date().toISOString(),
+        updated_by: user?.id,
+      });
+      if (error) throw error;
+
+      toast({ title: "Saved", description: "DDEX messages will use these parties" });
+    } catch (error) {
+      console.error("Error saving DDEX settings:", error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save DDEX settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode2 className="h-5 w-5" />
+          DDEX Parties
+        </CardTitle>
+        <CardDescription>
+          The DDEX party ids (DPIDs) written as sender and recipient of exported ERN messages.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ddex-sender-dpid">Sender DPID</Label>
+                <Input
+                  id="ddex-sender-dpid"
+                  placeholder="PADPIDA2014120301K"
+                  value={senderDpid}
+                  onChange={(e) => setSenderDpid(e.target.value.toUpperCase().trim())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ddex-sender-name">Sender Name</Label>
+                <Input id="ddex-sender-name" placeholder="Spillrix" value={senderName} onChange={(e) => setSenderName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ddex-recipient-dpid">Recipient DPID</Label>
+                <Input
+                  id="ddex-recipient-dpid"
+                  placeholder="PADPIDA2011021101O"
+                  value={recipientDpid}
+                  onChange={(e) => setRecipientDpid(e.target.value.toUpperCase().trim())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ddex-recipient-name">Recipient Name</Label>
+                <Input
+                  id="ddex-recipient-name"
+                  placeholder="Aggregator"
+                  value={recipientName}
+                  onChange={(e) => setRecipientName(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button onClick={saveSettings} disabled={!valid || saving} className="w-full sm:w-auto touch-target">
+              <Save className="h-4 w-4 mr-2" />
+              Save Parties
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { Loader2, Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import { saveDeliveryPackage } from "@/lib/delivery-package";
+
+interface DeliveryPackageButtonProps {
+  releaseIds: string[];
+  // Shown next to the icon; the per-release button is icon-only
+  label?: string;
+  className?: string;
+}
+
+export function DeliveryPackageButton({ releaseIds, label, className }: DeliveryPackageButtonProps) {
+  const [packaging, setPackaging] = useState(false);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const buildPackage = async () => {
+    if (releaseIds.length === 0) {
+      toast({
+        title: "Nothing to Package",
+        description: "Only approved releases can be delivered",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setPackaging(true);
+    try {
+      const errors = await saveDeliveryPackage(releaseIds);
+      setProblems(errors);
+    } catch (error) {
+      console.error("Delivery package error:", error);
+      toast({
+        title: "Package Failed",
+        description: error instanceof Error ? error.message : "Failed to build the delivery package",
+        variant: "destructive",
+      });
+    } finally {
+      setPackaging(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={buildPackage}
+        disabled={packaging}
+        className={className ?? "touch-target"}
+        title="Download Delivery Package"
+      >
+        {packaging ? <Loader2 className="h-4 w-4 animate-spin" /> : <Package className="h-4 w-4" />}
+        {label && <span className="ml-1">{label}</span>}
+      </Button>
+      <Dialog open={problems.length > 0} onOpenChange={(open) => !open && setProblems([])}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Delivery package was not built</DialogTitle>
+            <DialogDescription>Fix these problems in the release metadata, then try again.</DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-80 overflow-y-auto space-y-1 text-sm font-mono list-disc pl-5">
+            {problems.map((problem, index) => (
+              <li key={index}>{problem}</li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
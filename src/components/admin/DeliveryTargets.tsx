@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Loader2, Pencil, Save, Server, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { useStores } from "@/hooks/use-stores";
+import { supabase } from "@/integrations/supabase/client";
+import { DELIVERY_PROTOCOLS, DELIVERY_PROTOCOL_LABELS, DeliveryProtocol, DeliveryTarget, describeDeliveryTarget } from "@/lib/delivery";
+
+const SECRET_ENV_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+interface TargetDraft {
+  store_id: string;
+  protocol: DeliveryProtocol;
+  host: string;
+  port: string;
+  username: string;
+  bucket: string;
+  region: string;
+  path_prefix: string;
+  secret_env: string;
+  active: boolean;
+}
+
+const emptyDraft: TargetDraft = {
+  store_id: "",
+  protocol: "sftp",
+  host: "",
+  port: "",
+  username: "",
+  bucket: "",
+  region: "",
+  path_prefix: "",
+  secret_env: "",
+  active: true,
+};
+
+async function loadTargets(): Promise<DeliveryTarget[]> {
+  const { data, error } = await supabase.from("delivery_targets").select("*").order("created_at");
+  if (error) throw error;
+  return data;
+}
+
+export function DeliveryTargets() {
+  const { stores } = useStores();
+  const [targets, setTargets] = useState<DeliveryTarget[]>([]);
+  const [draft, setDraft] = useState<TargetDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTargets = async () => setTargets(await loadTargets());
+
+  useEffect(() => {
+    loadTargets()
+      .then(setTargets)
+      .catch((error) => {
+        console.error("Error fetching delivery targets:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load delivery targets",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const update = (changes: Partial<TargetDraft>) => setDraft((current) => ({ ...current, ...changes }));
+  const storeName = (storeId: string) => stores.find((store) => store.id === storeId)?.name ?? "Unknown store";
+  const availableStores = stores.filter(
+    (store) => store.id === draft.store_id || !targets.some((target) => target.store_id === store.id)
+  );
+
+  const valid =
+    Boolean(draft.store_id) &&
+    SECRET_ENV_PATTERN.test(draft.secret_env) &&
+    (!draft.port || (Number(draft.port) >= 1 && Number(draft.port) <= 65535)) &&
+    (draft.protocol === "sftp" ? Boolean(draft.host.trim() && draft.username.trim()) : Boolean(draft.bucket.trim()));
+
+  const startEditing = (target: DeliveryTarget) => {
+    setEditingId(target.id);
+    setDraft({
+      store_id: target.store_id,
+      protocol: target.protocol as DeliveryProtocol,
+      host: target.host ?? "",
+      port: target.port?.toString() ?? "",
+      username: target.username ?? "",
+      bucket: target.bucket ?? "",
+      region: target.region ?? "",
+      path_prefix: target.path_prefix,
+      secret_env: target.secret_env,
+      active: target.active,
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const saveTarget = async () => {
+    setSaving(true);
+    try {
+      const row = {
+        store_id: draft.store_id,
+        protocol: draft.protocol,
+        host: draft.host.trim() || null,
+        port: draft.port ? Number(draft.port) : null,
+        username: draft.username.trim() || null,
+        bucket: draft.protocol === "s3" ? draft.bucket.trim() : null,
+        region: draft.protocol === "s3" ? draft.region.trim() || null : null,
+        path_prefix: draft.path_prefix.trim().replace(/^\/+|\/+$/g, ""),
+        secret_env: draft.secret_env,
+        active: draft.active,
+        updated_at: new Date().toISOString(),
+      };
+      const { error } = editingId
+        ? await supabase.from("delivery_targets").update(row).eq("id", editingId)
+        : await supabase.from("delivery_targets").insert(row);
+      if (error) throw error;
+
+      cancelEditing();
+      await fetchTargets();
+      toast({ title: "Target Saved", description: `Releases queued for ${storeName(row.store_id)} will be delivered automatically` });
+    } catch (error) {
+      console.error("Error saving delivery target:", error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save delivery target",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteTarget = async (target: DeliveryTarget) => {
+    if (!confirm(`Stop delivering to ${storeName(target.store_id)} automatically?`)) return;
+
+    try {
+      const { error } = await supabase.from("delivery_targets").delete().eq("id", target.id);
+      if (error) throw error;
+      await fetchTargets();
+    } catch (error) {
+      console.error("Error deleting delivery target:", error);
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Failed to delete delivery target",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5" />
+          Delivery Targets
+        </CardTitle>
+        <CardDescription>
+          Where the delivery worker uploads bundles for each store. Passwords and keys stay on the worker: enter the name of
+          the environment variable that holds them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Store</Label>
+            <Select value={draft.store_id} onValueChange={(store_id) => update({ store_id })} disabled={Boolean(editingId)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a store" />
+              </SelectTrigger>
+              <SelectContent>
+                {availableStores.map((store) => (
+                  <SelectItem key={store.id} value={store.id}>{store.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Protocol</Label>
+            <Select value={draft.protocol} onValueChange={(protocol) => update({ protocol: protocol as DeliveryProtocol })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIVERY_PROTOCOLS.map((protocol) => (
+                  <SelectItem key={protocol} value={protocol}>{DELIVERY_PROTOCOL_LABELS[protocol]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target-host">{draft.protocol === "sftp" ? "Host" : "Endpoint (blank for AWS)"}</Label>
+            <Input
+              id="target-host"
+              placeholder={draft.protocol === "sftp" ? "sftp.example.com" : "https://s3.example.com"}
+              value={draft.host}
+              onChange={(e) => update({ host: e.target.value })}
+            />
+          </div>
+          {draft.protocol === "sftp" ? (
+            <div className="space-y-2">
+              <Label htmlFor="target-port">Port</Label>
+              <Input id="target-port" type="number" placeholder="22" value={draft.port} onChange={(e) => update({ port: e.target.value })} />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="target-bucket">Bucket</Label>
+                <Input id="target-bucket" value={draft.bucket} onChange={(e) => update({ bucket: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="target-region">Region</Label>
+                <Input id="target-region" placeholder="us-east-1" value={draft.region} onChange={(e) => update({ region: e.target.value })} />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="target-username">{draft.protocol === "sftp" ? "User Name" : "Access Key Id"}</Label>
+            <Input id="target-username" value={draft.username} onChange={(e) => update({ username: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target-prefix">{draft.protocol === "sftp" ? "Directory" : "Key Prefix"}</Label>
+            <Input id="target-prefix" placeholder="incoming" value={draft.path_prefix} onChange={(e) => update({ path_prefix: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="target-secret">Secret Environment Variable</Label>
+            <Input
+              id="target-secret"
+              className="font-mono"
+              placeholder="SPOTIFY_SFTP_PASSWORD"
+              value={draft.secret_env}
+              onChange={(e) => update({ secret_env: e.target.value.toUpperCase().trim() })}
+            />
+          </div>
+          <div className="flex items-center gap-2 sm:pt-8">
+            <Switch id="target-active" checked={draft.active} onCheckedChange={(active) => update({ active })} />
+            <Label htmlFor="target-active">Deliver automatically</Label>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={saveTarget} disabled={!valid || saving} className="w-full sm:w-auto touch-target">
+            <Save className="h-4 w-4 mr-2" />
+            {editingId ? "Save Target" : "Add Target"}
+          </Button>
+          {editingId && (
+            <Button variant="outline" onClick={cancelEditing} className="touch-target">
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {targets.map((target) => (
+              <div key={target.id} className="flex items-center gap-2 py-2">
+                <span className="font-medium">{storeName(target.store_id)}</span>
+                <Badge variant="outline">{DELIVERY_PROTOCOL_LABELS[target.protocol as DeliveryProtocol] ?? target.protocol}</Badge>
+                <span className="text-xs font-mono text-muted-foreground flex-1 truncate">{describeDeliveryTarget(target)}</span>
+                {!target.active && <Badge variant="secondary">Paused</Badge>}
+                <Button size="sm" variant="ghost" onClick={() => startEditing(target)} title="Edit target">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => deleteTarget(target)} className="text-destructive" title="Delete target">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {targets.length === 0 && (
+              <p className="text-sm text-muted-foreground py-2">No targets yet; releases are delivered by hand.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
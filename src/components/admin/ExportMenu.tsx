@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import { ExportColumn, ExportFormat, exportTable } from "@/lib/table-export";
+
+interface ExportMenuProps<T> {
+  rows: T[];
+  columns: ExportColumn<T>[];
+  // File and sheet name, e.g. "tracks"
+  name: string;
+  className?: string;
+}
+
+export function ExportMenu<T>({ rows, columns, name, className }: ExportMenuProps<T>) {
+  const [exporting, setExporting] = useState(false);
+
+  const runExport = async (exportFormat: ExportFormat) => {
+    setExporting(true);
+    try {
+      await exportTable(rows, columns, name, exportFormat);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={exporting || rows.length === 0} className={className}>
+          {exporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Download className="h-4 w-4 mr-1" />}
+          Export {rows.length}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => runExport("csv")}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => runExport("xlsx")}>Excel (XLSX)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Check, Loader2, Pencil, Plus, Tags, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { GENRES_QUERY_KEY, useGenres } from "@/hooks/use-genres";
+import { supabase } from "@/integrations/supabase/client";
+import { Genre, buildGenreTree, genreSlug } from "@/lib/genres";
+
+const TOP_LEVEL = "none";
+
+function parseAliases(value: string): string[] {
+  return Array.from(new Set(value.split(",").map(genreSlug).filter(Boolean)));
+}
+
+export function GenreManager() {
+  const queryClient = useQueryClient();
+  const { genres, isLoading } = useGenres();
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState(TOP_LEVEL);
+  const [aliases, setAliases] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editAliases, setEditAliases] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const tree = buildGenreTree(genres);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: GENRES_QUERY_KEY });
+
+  const describeError = (error: { code?: string; message?: string }, fallback: string) => {
+    if (error?.code === "23505") return "A genre with this name already exists at that level.";
+    if (error?.code === "23503") return "This genre is still the primary genre of some tracks.";
+    return error?.message || fallback;
+  };
+
+  const addGenre = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("genres").insert({
+        name: name.trim(),
+        parent_id: parentId === TOP_LEVEL ? null : parentId,
+        aliases: parseAliases(aliases),
+      });
+      if (error) throw error;
+
+      setName("");
+      setAliases("");
+      await refresh();
+      toast({ title: "Genre Added", description: `${name.trim()} is now available to artists` });
+    } catch (error) {
+      console.error("Error adding genre:", error);
+      toast({
+        title: "Add Failed",
+        description: describeError(error, "Failed to add genre"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (genre: Genre) => {
+    setEditingId(genre.id);
+    setEditName(genre.name);
+    setEditAliases(genre.aliases.join(", "));
+  };
+
+  const saveGenre = async (id: string) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from("genres")
+        .update({ name: editName.trim(), aliases: parseAliases(editAliases) })
+        .eq("id", id);
+      if (error) throw error;
+
+      setEditingId(null);
+      await refresh();
+    } catch (error) {
+      console.error("Error updating genre:", error);
+      toast({
+        title: "Update Failed",
+        description: describeError(error, "Failed to update genre"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteGenre = async (genre: Genre) => {
+    const message = genre.parent_id
+      ? `Delete the subgenre "${genre.name}"?`
+      : `Delete "${genre.name}" and all of its subgenres?`;
+    if (!confirm(message)) return;
+
+    try {
+      const { error } = await supabase.from("genres").delete().eq("id", genre.id);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error("Error deleting genre:", error);
+      toast({
+        title: "Delete Failed",
+        description: describeError(error, "Failed to delete genre"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const renderRow = (genre: Genre, nested = false) => (
+    <div key={genre.id} className={`flex items-center gap-2 py-1.5 ${nested ? "pl-6" : ""}`}>
+      {editingId === genre.id ? (
+        <>
+          <Input value={editName} onChange={(e) => setEditName(e.target.value)} className="h-8 max-w-[200px]" />
+          <Input
+            value={editAliases}
+            onChange={(e) => setEditAliases(e.target.value)}
+            placeholder="Aliases, comma separated"
+            className="h-8"
+          />
+          <Button size="sm" variant="ghost" onClick={() => saveGenre(genre.id)} disabled={saving || editName.trim().length < 2} title="Save">
+            <Check className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} title="Cancel">
+            <X className="h-4 w-4" />
+          </Button>
+        </>
+      ) : (
+        <>
+          <span className={nested ? "text-sm" : "font-medium"}>{genre.name}</span>
+          <div className="flex flex-wrap gap-1 flex-1">
+            {genre.aliases.map((alias) => (
+              <Badge key={alias} variant="outline" className="text-xs font-normal">
+                {alias}
+              </Badge>
+            ))}
+          </div>
+          <Button size="sm" variant="ghost" onClick={() => startEditing(genre)} title="Edit genre">
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => deleteGenre(genre)} className="text-destructive" title="Delete genre">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Genre Catalog
+        </CardTitle>
+        <CardDescription>
+          Artists pick a primary and optional secondary genre from this list. Aliases help them find a genre by other spellings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_12rem_1fr_auto] gap-2 items-end">
+          <Input placeholder="Genre name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Select value={parentId} onValueChange={setParentId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Parent genre" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TOP_LEVEL}>Top-level genre</SelectItem>
+              {tree.map(({ genre }) => (
+                <SelectItem key={genre.id} value={genre.id}>
+                  Subgenre of {genre.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input placeholder="Aliases, comma separated" value={aliases} onChange={(e) => setAliases(e.target.value)} />
+          <Button onClick={addGenre} disabled={saving || name.trim().length < 2} className="w-full sm:w-auto touch-target">
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {tree.map(({ genre, subgenres }) => (
+              <div key={genre.id} className="py-2">
+                {renderRow(genre)}
+                {subgenres.map((sub) => renderRow(sub, true))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
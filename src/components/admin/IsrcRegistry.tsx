@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { Hash, Loader2, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { formatIsrc } from "@/lib/identifiers";
+
+interface IssuedIsrc {
+  isrc: string;
+  issued_at: string;
+  track: { title: string } | null;
+  issuer: { name: string } | null;
+}
+
+export function IsrcRegistry() {
+  const { user } = useAuth();
+  const [countryCode, setCountryCode] = useState("");
+  const [registrantCode, setRegistrantCode] = useState("");
+  const [issued, setIssued] = useState<IssuedIsrc[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const validCountry = /^[A-Z]{2}$/.test(countryCode);
+  const validRegistrant = /^[A-Z0-9]{3}$/.test(registrantCode);
+  const yearCode = new Date().getFullYear().toString().slice(-2);
+
+  useEffect(() => {
+    const fetchRegistry = async () => {
+      try {
+        const [{ data: settings, error: settingsError }, { data: codes, error: codesError }] = await Promise.all([
+          supabase.from("isrc_settings").select("*").maybeSingle(),
+          supabase
+            .from("issued_isrcs")
+            .select("isrc, issued_at, track:tracks(title), issuer:profiles(name)")
+            .order("issued_at", { ascending: false })
+            .limit(100),
+        ]);
+        if (settingsError) throw settingsError;
+        if (codesError) throw codesError;
+
+        setCountryCode(settings?.country_code ?? "");
+        setRegistrantCode(settings?.registrant_code ?? "");
+        setIssued((codes as IssuedIsrc[]) || []);
+      } catch (error) {
+        console.error("Error fetching ISRC registry:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load ISRC settings",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRegistry();
+  }, []);
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("isrc_settings").upsert({
+        id: true,
+        country_code: countryCode,
+        registrant_code: registrantCode,
+        updated_at: new Date().toISOString(),
+        updated_by: user?.id,
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Saved",
+        description: `New ISRCs will be issued as ${countryCode}-${registrantCode}-${yearCode}-NNNNN`,
+      });
+    } catch (error) {
+      console.error("Error saving ISRC settings:", error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save ISRC settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          ISRC Registry
+        </CardTitle>
+        <CardDescription>
+          Tracks approved without an ISRC get the next code for the current year from this prefix.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-[8rem_8rem_auto] gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="isrc-country">Country Code</Label>
+                <Input
+                  id="isrc-country"
+                  maxLength={2}
+                  placeholder="IN"
+                  value={countryCode}
+                  onChange={(e) => setCountryCode(e.target.value.toUpperCase())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="isrc-registrant">Registrant Code</Label>
+                <Input
+                  id="isrc-registrant"
+                  maxLength={3}
+                  placeholder="A1B"
+                  value={registrantCode}
+                  onChange={(e) => setRegistrantCode(e.target.value.toUpperCase())}
+                />
+              </div>
+              <Button onClick={saveSettings} disabled={!validCountry || !validRegistrant || saving} className="w-full sm:w-auto touch-target">
+                <Save className="h-4 w-4 mr-2" />
+                Save Prefix
+              </Button>
+            </div>
+            {validCountry && validRegistrant && (
+              <p className="text-sm text-muted-foreground">
+                Next codes look like <span className="font-mono">{countryCode}-{registrantCode}-{yearCode}-00001</span>
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Issued Codes ({issued.length})</h3>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ISRC</TableHead>
+                      <TableHead>Track</TableHead>
+                      <TableHead>Issued By</TableHead>
+                      <TableHead>Issued At</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {issued.map((code) => (
+                      <TableRow key={code.isrc}>
+                        <TableCell className="font-mono">{formatIsrc(code.isrc)}</TableCell>
+                        <TableCell>{code.track?.title ?? "Deleted track"}</TableCell>
+                        <TableCell>{code.issuer?.name ?? "—"}</TableCell>
+                        <TableCell>{new Date(code.issued_at).toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AudioPlayerWithUrl } from "@/components/audio/AudioPlayerWithUrl";
+import { SyncedLyricsView } from "@/components/audio/SyncedLyricsView";
+import { parseLrc } from "@/lib/lrc";
+
+interface LyricsReviewDialogProps {
+  title: string;
+  filePath: string;
+  lyrics: string | null;
+  syncedLyrics: string | null;
+}
+
+export function LyricsReviewDialog({ title, filePath, lyrics, syncedLyrics }: LyricsReviewDialogProps) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const synced = syncedLyrics ? parseLrc(syncedLyrics) : null;
+
+  return (
+    <Dialog onOpenChange={() => setCurrentTime(0)}>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+          <FileText className="h-3 w-3 mr-1" />
+          {synced ? "Synced lyrics" : "Lyrics"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {synced ? "Play the track to check the lyrics follow the vocals." : "Plain lyrics; no synced version was provided."}
+          </DialogDescription>
+        </DialogHeader>
+        {synced ? (
+          <div className="space-y-3">
+            <AudioPlayerWithUrl filePath={filePath} title="" onTimeUpdate={setCurrentTime} />
+            {synced.errors.length > 0 && (
+              <p className="text-sm text-destructive">{synced.errors[0]}</p>
+            )}
+            <SyncedLyricsView lines={synced.lines} currentTime={currentTime} />
+          </div>
+        ) : (
+          <pre className="max-h-80 overflow-y-auto whitespace-pre-wrap rounded-md border p-4 text-sm font-sans">{lyrics}</pre>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
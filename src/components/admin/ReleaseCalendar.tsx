@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { format, isSameDay, startOfDay } from "date-fns";
+import { CalendarDays, Disc3, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { RELEASE_TYPE_LABELS, ReleaseType } from "@/lib/releases";
+import { formatReleaseSchedule, fromDateColumn, toDateColumn } from "@/lib/release-schedule";
+
+interface ScheduledRelease {
+  id: string;
+  title: string;
+  release_type: string;
+  status: string;
+  release_date: string;
+  preorder_date: string | null;
+  release_timing: string;
+  release_timezone: string;
+  artist: { name: string } | null;
+}
+
+export function ReleaseCalendar() {
+  const [releases, setReleases] = useState<ScheduledRelease[]>([]);
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const { data, error } = await supabase
+          .from("releases")
+          .select("id, title, release_type, status, release_date, preorder_date, release_timing, release_timezone, artist:profiles(name)")
+          .in("status", ["pending", "approved"])
+          .gte("release_date", toDateColumn(startOfDay(new Date())))
+          .order("release_date");
+        if (error) throw error;
+        setReleases((data as ScheduledRelease[]) || []);
+      } catch (error) {
+        console.error("Error fetching release schedule:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load the release calendar",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSchedule();
+  }, []);
+
+  const releaseDays = releases.map((release) => fromDateColumn(release.release_date));
+  const preorderDays = releases.map((release) => fromDateColumn(release.preorder_date)).filter(Boolean);
+  const visible = selectedDay
+    ? releases.filter(
+        (release) =>
+          isSameDay(fromDateColumn(release.release_date), selectedDay) ||
+          (release.preorder_date && isSameDay(fromDateColumn(release.preorder_date), selectedDay))
+      )
+    : releases;
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5" />
+          Release Calendar
+        </CardTitle>
+        <CardDescription>
+          Upcoming pending and approved releases. Pick a day to see what goes live or opens for pre-order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="flex flex-col lg:flex-row gap-6">
+            <div className="space-y-2">
+              <Calendar
+                mode="single"
+                selected={selectedDay}
+                onSelect={setSelectedDay}
+                modifiers={{ release: releaseDays, preorder: preorderDays }}
+                modifiersClassNames={{
+                  release: "font-bold text-primary underline underline-offset-4",
+                  preorder: "italic",
+                }}
+                className="rounded-md border"
+              />
+              <p className="text-xs text-muted-foreground">
+                <span className="font-bold text-primary underline">Underlined</span> days have releases; <em>italic</em> days open pre-orders.
+              </p>
+            </div>
+            <div className="flex-1 space-y-3">
+              <h3 className="text-sm font-medium">
+                {selectedDay ? format(selectedDay, "PPP") : "All upcoming releases"} ({visible.length})
+              </h3>
+              {visible.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing scheduled.</p>
+              ) : (
+                visible.map((release) => (
+                  <div key={release.id} className="flex items-start gap-3 rounded-lg border p-3">
+                    <Disc3 className="h-5 w-5 mt-0.5 text-muted-foreground" />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{release.title}</span>
+                        <Badge variant="outline">{RELEASE_TYPE_LABELS[release.release_type as ReleaseType] ?? release.release_type}</Badge>
+                        <Badge variant={release.status === "approved" ? "default" : "secondary"} className="capitalize">
+                          {release.status}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{release.artist?.name}</p>
+                      <p className="text-xs text-muted-foreground">{formatReleaseSchedule(release)}</p>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react";
+import { AudioLines, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { computeSpectrogram } from "@/lib/audio-analysis";
+import { SPECTRUM_BINS, Spectrogram, cutoffWarning, formatFrequency } from "@/lib/spectrum";
+import { generateMusicUrl } from "@/lib/storage-utils";
+
+interface SpectrogramDialogProps {
+  title: string;
+  filePath: string;
+}
+
+// Levels mapped onto the colour scale; anything quieter is drawn black
+const MIN_DB = -120;
+const MAX_DB = -20;
+const COLOR_STOPS = [
+  [0, 0, 0],
+  [40, 0, 90],
+  [190, 30, 80],
+  [250, 140, 20],
+  [255, 255, 200],
+];
+const FREQUENCY_TICK_HZ = 5000;
+
+function heatColor(level: number): number[] {
+  const position = Math.min(1, Math.max(0, (level - MIN_DB) / (MAX_DB - MIN_DB))) * (COLOR_STOPS.length - 1);
+  const index = Math.min(COLOR_STOPS.length - 2, Math.floor(position));
+  const fraction = position - index;
+  return COLOR_STOPS[index].map((value, channel) => value + (COLOR_STOPS[index + 1][channel] - value) * fraction);
+}
+
+function describeCutoff(cutoff: number | null, sampleRate: number): string {
+  if (cutoff === null) return "The track is silent.";
+  if (cutoff >= sampleRate / 2) return "Content reaches the top of the spectrum, with no lowpass edge.";
+  return cutoffWarning(cutoff) ?? `Content stops at ${formatFrequency(cutoff)}.`;
+}
+
+export function SpectrogramDialog({ title, filePath }: SpectrogramDialogProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [spectrogram, setSpectrogram] = useState<Spectrogram | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Lossy artefacts only show in the original, so this downloads the full WAV rather than the preview
+  const loadSpectrogram = async () => {
+    if (spectrogram || loading) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const url = await generateMusicUrl(filePath);
+      if (!url) throw new Error("The audio file could not be found.");
+      const response = await fetch(url);
+      if (!response.ok) throw new Error("The audio file could not be downloaded.");
+      setSpectrogram(await computeSpectrogram(await response.blob()));
+    } catch (err) {
+      console.error("Error computing spectrogram:", err);
+      setError(err instanceof Error ? err.message : "The spectrogram could not be computed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || !spectrogram) return;
+
+    canvas.width = spectrogram.columns;
+    canvas.height = SPECTRUM_BINS;
+    const image = context.createImageData(spectrogram.columns, SPECTRUM_BINS);
+    for (let column = 0; column < spectrogram.columns; column++) {
+      for (let bin = 0; bin < SPECTRUM_BINS; bin++) {
+        // Low frequencies at the bottom
+        const pixel = ((SPECTRUM_BINS - 1 - bin) * spectrogram.columns + column) * 4;
+        const [red, green, blue] = heatColor(spectrogram.levels[column * SPECTRUM_BINS + bin]);
+        image.data[pixel] = red;
+        image.data[pixel + 1] = green;
+        image.data[pixel + 2] = blue;
+        image.data[pixel + 3] = 255;
+      }
+    }
+    context.putImageData(image, 0, 0);
+  }, [spectrogram]);
+
+  const nyquist = spectrogram ? spectrogram.sampleRate / 2 : 0;
+  const ticks = Array.from({ length: Math.floor(nyquist / FREQUENCY_TICK_HZ) }, (_, index) => (index + 1) * FREQUENCY_TICK_HZ);
+  const showCutoff = spectrogram?.cutoff != null && spectrogram.cutoff < nyquist;
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadSpectrogram()}>
+      <DialogTrigger asChild>
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs">
+          <AudioLines className="h-3 w-3 mr-1" />
+          Spectrogram
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {spectrogram
+              ? describeCutoff(spectrogram.cutoff, spectrogram.sampleRate)
+              : "Frequency content over time. MP3s converted to WAV stop sharply around 16 kHz."}
+          </DialogDescription>
+        </DialogHeader>
+        {loading && (
+          <div className="flex items-center justify-center gap-2 h-64 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Downloading and analysing the original WAV…
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {spectrogram && (
+          <div className="relative pl-12">
+            <canvas ref={canvasRef} className="block h-64 w-full rounded-sm bg-black" />
+            {ticks.map((tick) => (
+              <span
+                key={tick}
+                className="absolute left-0 translate-y-1/2 text-[10px] text-muted-foreground"
+                style={{ bottom: `${(tick / nyquist) * 100}%` }}
+              >
+                {tick / 1000} kHz
+              </span>
+            ))}
+            {showCutoff && (
+              <div
+                className="absolute left-12 right-0 border-t border-dashed border-warning"
+                style={{ bottom: `${(spectrogram.cutoff / nyquist) * 100}%` }}
+                title={`Cutoff ${formatFrequency(spectrogram.cutoff)}`}
+              />
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Check, Loader2, Pencil, Plus, Store as StoreIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { STORES_QUERY_KEY, useStores } from "@/hooks/use-stores";
+import { supabase } from "@/integrations/supabase/client";
+import { Store } from "@/lib/delivery";
+
+const DPID_PATTERN = /^PADPIDA[0-9A-Z]{11}$/;
+
+export function StoreManager() {
+  const queryClient = useQueryClient();
+  const { stores, isLoading } = useStores();
+  const [name, setName] = useState("");
+  const [dpid, setDpid] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editDpid, setEditDpid] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: STORES_QUERY_KEY });
+
+  const describeError = (error: { code?: string; message?: string }, fallback: string) => {
+    if (error?.code === "23505") return "A store with this name already exists.";
+    return error?.message || fallback;
+  };
+
+  const isValidDpid = (value: string) => !value.trim() || DPID_PATTERN.test(value.trim().toUpperCase());
+
+  const addStore = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("stores").insert({
+        name: name.trim(),
+        dpid: dpid.trim().toUpperCase() || null,
+      });
+      if (error) throw error;
+
+      setName("");
+      setDpid("");
+      await refresh();
+      toast({ title: "Store Added", description: `Artists can now deliver to ${name.trim()}` });
+    } catch (error) {
+      console.error("Error adding store:", error);
+      toast({
+        title: "Add Failed",
+        description: describeError(error, "Failed to add store"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEditing = (store: Store) => {
+    setEditingId(store.id);
+    setEditName(store.name);
+    setEditDpid(store.dpid ?? "");
+  };
+
+  const updateStore = async (id: string, changes: Partial<Pick<Store, "name" | "dpid" | "active">>) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("stores").update(changes).eq("id", id);
+      if (error) throw error;
+
+      setEditingId(null);
+      await refresh();
+    } catch (error) {
+      console.error("Error updating store:", error);
+      toast({
+        title: "Update Failed",
+        description: describeError(error, "Failed to update store"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <StoreIcon className="h-5 w-5" />
+          Stores
+        </CardTitle>
+        <CardDescription>
+          Stores artists can deliver their releases to. Switching a store off hides it from new releases but keeps existing deliveries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+          <Input placeholder="Store name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input placeholder="DDEX party id (optional)" value={dpid} onChange={(e) => setDpid(e.target.value)} />
+          <Button
+            onClick={addStore}
+            disabled={saving || name.trim().length < 2 || !isValidDpid(dpid)}
+            className="w-full sm:w-auto touch-target"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="divide-y">
+            {stores.map((store) => (
+              <div key={store.id} className="flex items-center gap-2 py-2">
+                {editingId === store.id ? (
+                  <>
+                    <Input value={editName} onChange={(e) => setEditName(e.target.value)} className="h-8 max-w-[200px]" />
+                    <Input
+                      value={editDpid}
+                      onChange={(e) => setEditDpid(e.target.value)}
+                      placeholder="DDEX party id"
+                      className="h-8 font-mono"
+                    />
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => updateStore(store.id, { name: editName.trim(), dpid: editDpid.trim().toUpperCase() || null })}
+                      disabled={saving || editName.trim().length < 2 || !isValidDpid(editDpid)}
+                      title="Save"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} title="Cancel">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className={`font-medium ${store.active ? "" : "text-muted-foreground line-through"}`}>{store.name}</span>
+                    <span className="text-xs font-mono text-muted-foreground flex-1">{store.dpid}</span>
+                    <Switch
+                      checked={store.active}
+                      onCheckedChange={(active) => updateStore(store.id, { active })}
+                      disabled={saving}
+                      title={store.active ? "Stop offering this store" : "Offer this store again"}
+                    />
+                    <Button size="sm" variant="ghost" onClick={() => startEditing(store)} title="Edit store">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AudioPlayerWithUrl } from "@/components/audio/AudioPlayerWithUrl";
+import { toast } from "@/hooks/use-toast";
+import { useGenres } from "@/hooks/use-genres";
+import { supabase } from "@/integrations/supabase/client";
+import { REVISION_REASON_LABELS, RevisionField, TrackRevision, diffRevisions, revisionFileLabel } from "@/lib/revisions";
+import { cn } from "@/lib/utils";
+
+interface TrackRevisionsDialogProps {
+  trackId: string;
+  trackTitle: string;
+  canRestore?: boolean;
+}
+
+async function loadRevisions(trackId: string): Promise<TrackRevision[]> {
+  const { data, error } = await supabase
+    .from("track_revisions")
+    .select("*")
+    .eq("track_id", trackId)
+    .order("revision_number", { ascending: false });
+  if (error) throw error;
+  return data;
+}
+
+function revisionLabel(revision: TrackRevision): string {
+  const reason =
+    revision.reason === "restored"
+      ? `Restored from #${revision.restored_from}`
+      : REVISION_REASON_LABELS[revision.reason] ?? revision.reason;
+  return `#${revision.revision_number} · ${reason} · ${format(new Date(revision.created_at), "MMM d, yyyy HH:mm")}`;
+}
+
+export function TrackRevisionsDialog({ trackId, trackTitle, canRestore = false }: TrackRevisionsDialogProps) {
+  const { genres } = useGenres();
+  const [revisions, setRevisions] = useState<TrackRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  // Defaults to what changed in the latest submission
+  const showRevisions = (loaded: TrackRevision[]) => {
+    setRevisions(loaded);
+    setToId(loaded[0]?.id ?? "");
+    setFromId(loaded[1]?.id ?? "");
+  };
+
+  const onOpenChange = async (open: boolean) => {
+    if (!open) return;
+    setLoading(true);
+    try {
+      showRevisions(await loadRevisions(trackId));
+    } catch (error) {
+      console.error("Error fetching revisions:", error);
+      toast({ title: "Error", description: "Failed to load revision history", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const from = revisions.find((revision) => revision.id === fromId) ?? null;
+  const to = revisions.find((revision) => revision.id === toId);
+  const fields = to ? diffRevisions(from, to, genres) : [];
+  const changedCount = fields.filter((field) => field.changed).length;
+
+  const restore = async (revision: TrackRevision) => {
+    if (!confirm(`Restore "${trackTitle}" to revision #${revision.revision_number}? The current version stays in the history.`)) return;
+    setRestoring(true);
+    try {
+      const { error } = await supabase.rpc("restore_track_revision", { p_revision_id: revision.id });
+      if (error) throw error;
+      showRevisions(await loadRevisions(trackId));
+      toast({ title: "Revision Restored", description: `"${trackTitle}" is back to revision #${revision.revision_number}.` });
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore revision",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderValue = (field: RevisionField, value: string) => {
+    if (!value) return <span className="text-muted-foreground">—</span>;
+    if (field.kind === "audio") {
+      return (
+        <div className="space-y-1 min-w-[220px]">
+          <div className="text-xs font-mono break-all">{revisionFileLabel(value)}</div>
+          <AudioPlayerWithUrl filePath={value} title="" />
+        </div>
+      );
+    }
+    if (field.kind === "artwork") {
+      return (
+        <img
+          src={supabase.storage.from("cover-art").getPublicUrl(value).data.publicUrl}
+          alt={revisionFileLabel(value)}
+          className="h-20 w-20 rounded-md object-cover"
+        />
+      );
+    }
+    return <span className="whitespace-pre-wrap break-words">{value}</span>;
+  };
+
+  return (
+    <Dialog onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="touch-target" title="Revision History">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{trackTitle}</DialogTitle>
+          <DialogDescription>Every submission of this track, compared field by field.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">This track has not been submitted yet.</p>
+        ) : (
+          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Compare</Label>
+                <Select value={fromId || "none"} onValueChange={(value) => setFromId(value === "none" ? "" : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Nothing (show revision only)</SelectItem>
+                    {revisions
+                      .filter((revision) => revision.id !== toId)
+                      .map((revision) => (
+                        <SelectItem key={revision.id} value={revision.id}>
+                          {revisionLabel(revision)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>With</Label>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {revisionLabel(revision)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {to && (
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm text-muted-foreground">
+                  {from
+                    ? `${changedCount} field${changedCount === 1 ? "" : "s"} changed`
+                    : `Revision #${to.revision_number}`}
+                </span>
+                {canRestore && to.id !== revisions[0].id && (
+                  <Button size="sm" variant="outline" onClick={() => restore(to)} disabled={restoring}>
+                    {restoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Restore #{to.revision_number}
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-36">Field</TableHead>
+                  {from && <TableHead>#{from.revision_number}</TableHead>}
+                  <TableHead>#{to?.revision_number}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((field) => (
+                  <TableRow key={field.label} className={cn("align-top", field.changed && "bg-warning/10")}>
+                    <TableCell className="font-medium">
+                      {field.label}
+                      {field.changed && (
+                        <Badge variant="outline" className="ml-2 text-[10px]">
+                          Changed
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {from && <TableCell className="text-sm">{renderValue(field, field.before)}</TableCell>}
+                    <TableCell className="text-sm">{renderValue(field, field.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect } from "react";
 import { EnhancedAudioPlayer } from "./EnhancedAudioPlayer";
-import { generateMusicUrl } from "@/lib/storage-utils";
+import { Button } from "@/components/ui/button";
+import { usePerformance } from "@/hooks/use-performance";
+import { generateMusicUrl, loadWaveformPeaks } from "@/lib/storage-utils";
+import { WaveformPeaks } from "@/lib/waveform";
 import { Loader2 } from "lucide-react";
 
 interface AudioPlayerWithUrlProps {
@@ -8,23 +11,38 @@ interface AudioPlayerWithUrlProps {
   title: string;
   className?: string;
   onDurationChange?: (duration: number) => void;
+  onTimeUpdate?: (currentTime: number) => void;
+  peaksPath?: string | null;
+  // Compressed rendition streamed by default; the original WAV is played on fast connections or on request
+  previewPath?: string | null;
 }
 
-export function AudioPlayerWithUrl({ filePath, title, className, onDurationChange }: AudioPlayerWithUrlProps) {
+export function AudioPlayerWithUrl({ filePath, title, className, onDurationChange, onTimeUpdate, peaksPath, previewPath }: AudioPlayerWithUrlProps) {
+  const { isFastConnection } = usePerformance();
+  // Null until the listener picks a rendition themselves
+  const [losslessChoice, setLosslessChoice] = useState<boolean | null>(null);
+  const lossless = !previewPath || (losslessChoice ?? isFastConnection);
+  const playbackPath = lossless ? filePath : previewPath;
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [peaks, setPeaks] = useState<WaveformPeaks | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
 
   useEffect(() => {
     async function loadAudioUrl() {
-      if (!filePath) {
+      if (!playbackPath) {
         setError(true);
         setLoading(false);
         return;
       }
 
       try {
-        const url = await generateMusicUrl(filePath);
+        // Tracks without peaks, or whose peaks fail to load, fall back to the plain seek slider
+        const [url, loadedPeaks] = await Promise.all([
+          generateMusicUrl(playbackPath),
+          peaksPath ? loadWaveformPeaks(peaksPath).catch(() => null) : null,
+        ]);
+        setPeaks(loadedPeaks);
         if (url) {
           setAudioUrl(url);
           setError(false);
@@ -40,7 +58,7 @@ export function AudioPlayerWithUrl({ filePath, title, className, onDurationChang
     }
 
     loadAudioUrl();
-  }, [filePath]);
+  }, [playbackPath, peaksPath]);
 
   if (loading) {
     return (
@@ -59,5 +77,27 @@ export function AudioPlayerWithUrl({ filePath, title, className, onDurationChang
     );
   }
 
-  return <EnhancedAudioPlayer src={audioUrl} title={title} className={className} onDurationChange={onDurationChange} />;
+  return (
+    <EnhancedAudioPlayer
+      src={audioUrl}
+      title={title}
+      className={className}
+      onDurationChange={onDurationChange}
+      onTimeUpdate={onTimeUpdate}
+      peaks={peaks}
+      actions={
+        previewPath && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs text-muted-foreground"
+            title={lossless ? "Stream the compressed preview" : "Stream the original WAV"}
+            onClick={() => setLosslessChoice(!lossless)}
+          >
+            {lossless ? "Lossless" : "Preview"}
+          </Button>
+        )
+      }
+    />
+  );
 }
\ No newline at end of file
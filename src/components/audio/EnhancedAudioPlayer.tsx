@@ -2,18 +2,24 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Play, Pause, Volume2, VolumeX } from 'lucide-react';
+import { WaveformSeekBar } from './WaveformSeekBar';
 import { cn } from '@/lib/utils';
+import { WaveformPeaks } from '@/lib/waveform';
 
 interface EnhancedAudioPlayerProps {
   src: string;
   title?: string;
   className?: string;
   onDurationChange?: (duration: number) => void;
+  onTimeUpdate?: (currentTime: number) => void;
+  // Drawn as the seek bar; the audio itself is then only fetched once playback starts
+  peaks?: WaveformPeaks | null;
+  actions?: React.ReactNode;
 }
 
-export function EnhancedAudioPlayer({ src, title, className, onDurationChange }: EnhancedAudioPlayerProps) {
+export function EnhancedAudioPlayer({ src, title, className, onDurationChange, onTimeUpdate, peaks, actions }: EnhancedAudioPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [duration, setDuration] = useState(0);
+  const [duration, setDuration] = useState(peaks?.duration ?? 0);
   const [currentTime, setCurrentTime] = useState(0);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
@@ -22,6 +28,28 @@ export function EnhancedAudioPlayer({ src, title, className, onDurationChange }:
   
   const audioRef = useRef<HTMLAudioElement>(null);
 
+  // Switching to another rendition of the same track carries on from the same position
+  const [loadedSrc, setLoadedSrc] = useState(src);
+  const [resumeAt, setResumeAt] = useState<number | null>(null);
+  if (src !== loadedSrc) {
+    setLoadedSrc(src);
+    setResumeAt(currentTime);
+  }
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || resumeAt === null) return;
+
+    const restorePosition = () => {
+      audio.currentTime = resumeAt;
+      setResumeAt(null);
+    };
+
+    audio.addEventListener('loadedmetadata', restorePosition);
+    if (isPlaying) audio.play().catch(() => setIsPlaying(false));
+    return () => audio.removeEventListener('loadedmetadata', restorePosition);
+  }, [resumeAt, isPlaying]);
+
   useEffect(() => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -75,6 +103,20 @@ export function EnhancedAudioPlayer({ src, title, className, onDurationChange }:
     };
   }, [src, onDurationChange]);
 
+  // Reports playback position every frame while playing; timeupdate events are too coarse for lyric sync
+  useEffect(() => {
+    if (!isPlaying || !onTimeUpdate) return;
+
+    let frame: number;
+    const tick = () => {
+      onTimeUpdate(audioRef.current?.currentTime || 0);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, onTimeUpdate]);
+
   const togglePlayPause = async () => {
     const audio = audioRef.current;
     if (!audio) return;
@@ -94,13 +136,13 @@ export function EnhancedAudioPlayer({ src, title, className, onDurationChange }:
     }
   };
 
-  const handleSeek = (value: number[]) => {
+  const handleSeek = (time: number) => {
     const audio = audioRef.current;
     if (!audio) return;
     
-    const time = value[0];
     audio.currentTime = time;
     setCurrentTime(time);
+    onTimeUpdate?.(time);
   };
 
   const handleVolumeChange = (value: number[]) => {
@@ -144,11 +186,16 @@ export function EnhancedAudioPlayer({ src, title, className, onDurationChange }:
 
   return (
     <div className={cn("bg-card rounded-lg border p-4 space-y-3", className)}>
-      <audio ref={audioRef} src={src} preload="metadata" />
+      <audio ref={audioRef} src={src} preload={peaks ? 'none' : 'metadata'} />
       
-      {title && (
-        <div className="text-sm font-medium text-foreground truncate" title={title}>
-          {title}
+      {(title || actions) && (
+        <div className="flex items-center gap-2">
+          {title && (
+            <div className="text-sm font-medium text-foreground truncate" title={title}>
+              {title}
+            </div>
+          )}
+          {actions && <div className="ml-auto shrink-0">{actions}</div>}
         </div>
       )}
       
@@ -170,14 +217,24 @@ export function EnhancedAudioPlayer({ src, title, className, onDurationChange }:
         </Button>
         
         <div className="flex-1 space-y-1">
-          <Slider
-            value={[currentTime]}
-            max={duration || 100}
-            step={1}
-            onValueChange={handleSeek}
-            className="w-full"
-            disabled={!duration}
-          />
+          {peaks ? (
+            <WaveformSeekBar
+              peaks={peaks.peaks}
+              duration={duration}
+              currentTime={currentTime}
+              onSeek={handleSeek}
+              disabled={!duration}
+            />
+          ) : (
+            <Slider
+              value={[currentTime]}
+              max={duration || 100}
+              step={1}
+              onValueChange={(value) => handleSeek(value[0])}
+              className="w-full"
+              disabled={!duration}
+            />
+          )}
           <div className="flex justify-between text-xs text-muted-foreground">
             <span>{formatTime(currentTime)}</span>
             <span>{formatTime(duration)}</span>
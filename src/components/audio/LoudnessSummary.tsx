@@ -0,0 +1,27 @@
+import { AlertTriangle } from "lucide-react";
+import { LoudnessReport, formatLevel, loudnessWarnings } from "@/lib/loudness";
+import { cn } from "@/lib/utils";
+
+interface LoudnessSummaryProps {
+  report: LoudnessReport;
+  className?: string;
+}
+
+export function LoudnessSummary({ report, className }: LoudnessSummaryProps) {
+  const warnings = loudnessWarnings(report);
+
+  return (
+    <div className={cn("text-xs space-y-0.5", className)}>
+      <div className="text-muted-foreground">
+        {report.integrated === null ? "Silent" : `${formatLevel(report.integrated)} LUFS`} · LRA {formatLevel(report.range)} LU ·{" "}
+        {formatLevel(report.truePeak)} dBTP
+      </div>
+      {warnings.map((warning) => (
+        <p key={warning} className="text-warning flex items-start gap-1">
+          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
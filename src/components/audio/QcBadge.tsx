@@ -0,0 +1,56 @@
+import { AlertTriangle } from "lucide-react";
+import { badgeVariants } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { QcReport, formatSigned, qcIssues } from "@/lib/audio-qc";
+import { cn } from "@/lib/utils";
+
+interface QcBadgeProps {
+  report: QcReport;
+  className?: string;
+}
+
+export function QcBadge({ report, className }: QcBadgeProps) {
+  const issues = qcIssues(report);
+  const measurements = [
+    `Silence ${report.leadingSilence.toFixed(1)} s at the start, ${report.trailingSilence.toFixed(1)} s at the end`,
+    `${report.clippedRuns} clipped ${report.clippedRuns === 1 ? "run" : "runs"}`,
+    `DC offset ${report.dcOffset.map((offset) => `${(Math.abs(offset) * 100).toFixed(2)}%`).join(" / ")}`,
+    report.correlation === null ? "No channel correlation" : `Channel correlation ${formatSigned(report.correlation, 2)}`,
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            badgeVariants({ variant: "outline" }),
+            "text-[10px]",
+            issues.length > 0 ? "border-warning text-warning" : "border-success text-success",
+            className
+          )}
+        >
+          {issues.length > 0 ? `QC failed (${issues.length})` : "QC passed"}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-xs space-y-2">
+        <div className="font-medium text-sm">Audio QC</div>
+        {issues.length > 0 ? (
+          issues.map((issue) => (
+            <p key={issue} className="text-warning flex items-start gap-1">
+              <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+              {issue}
+            </p>
+          ))
+        ) : (
+          <p className="text-muted-foreground">No silence, clipping, DC offset or channel problems found.</p>
+        )}
+        <ul className="text-muted-foreground space-y-0.5 border-t pt-2">
+          {measurements.map((measurement) => (
+            <li key={measurement}>{measurement}</li>
+          ))}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
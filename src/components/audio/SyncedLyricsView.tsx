@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+import { LrcLine, activeLrcLine, formatLrcTimestamp } from "@/lib/lrc";
+import { cn } from "@/lib/utils";
+
+interface SyncedLyricsViewProps {
+  lines: LrcLine[];
+  currentTime: number;
+  className?: string;
+}
+
+export function SyncedLyricsView({ lines, currentTime, className }: SyncedLyricsViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const active = activeLrcLine(lines, currentTime);
+
+  // Keep the line being sung in the middle of the panel
+  useEffect(() => {
+    const container = containerRef.current;
+    const line = container?.querySelector<HTMLElement>(`[data-line="${active}"]`);
+    if (!container || !line) return;
+    container.scrollTo({
+      top: line.offsetTop - container.clientHeight / 2 + line.clientHeight / 2,
+      behavior: "smooth",
+    });
+  }, [active]);
+
+  return (
+    <div ref={containerRef} className={cn("relative h-64 overflow-y-auto rounded-md border p-4 space-y-1", className)}>
+      {lines.map((line, index) => (
+        <p
+          key={index}
+          data-line={index}
+          className={cn(
+            "flex gap-3 text-sm transition-colors",
+            index === active ? "font-semibold text-foreground" : "text-muted-foreground"
+          )}
+        >
+          <span className="font-mono text-xs pt-0.5 opacity-60">{formatLrcTimestamp(line.time)}</span>
+          <span>{line.text || "♪"}</span>
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+
+interface WaveformSeekBarProps {
+  peaks: number[];
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const BAR_WIDTH = 2;
+const BAR_GAP = 1;
+const KEYBOARD_STEP_SECONDS = 5;
+
+// Theme colours are HSL components in CSS variables, e.g. "--primary: 262 83% 58%"
+function themeColor(element: HTMLElement, variable: string): string {
+  return `hsl(${getComputedStyle(element).getPropertyValue(variable).trim()})`;
+}
+
+export function WaveformSeekBar({ peaks, duration, currentTime, onSeek, disabled, className }: WaveformSeekBarProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [dragging, setDragging] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || width === 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const height = canvas.clientHeight;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const played = themeColor(canvas, "--primary");
+    const unplayed = themeColor(canvas, "--muted-foreground");
+    const progress = duration > 0 ? currentTime / duration : 0;
+    const bars = Math.max(1, Math.floor(width / (BAR_WIDTH + BAR_GAP)));
+
+    for (let bar = 0; bar < bars; bar++) {
+      // Each bar shows the loudest peak in its slice of the track
+      const start = Math.floor((bar / bars) * peaks.length);
+      const end = Math.max(start + 1, Math.floor(((bar + 1) / bars) * peaks.length));
+      let peak = 0;
+      for (let index = start; index < end && index < peaks.length; index++) peak = Math.max(peak, peaks[index]);
+
+      const barHeight = Math.max(1, peak * height);
+      context.fillStyle = bar / bars < progress ? played : unplayed;
+      context.globalAlpha = bar / bars < progress ? 1 : 0.4;
+      context.fillRect(bar * (BAR_WIDTH + BAR_GAP), (height - barHeight) / 2, BAR_WIDTH, barHeight);
+    }
+  }, [peaks, duration, currentTime, width]);
+
+  const seekTo = (clientX: number) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || !duration) return;
+    const fraction = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    onSeek(fraction * duration);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging(true);
+    seekTo(event.clientX);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    if (event.key === "ArrowRight") onSeek(Math.min(duration, currentTime + KEYBOARD_STEP_SECONDS));
+    else if (event.key === "ArrowLeft") onSeek(Math.max(0, currentTime - KEYBOARD_STEP_SECONDS));
+    else if (event.key === "Home") onSeek(0);
+    else return;
+    event.preventDefault();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      role="slider"
+      tabIndex={disabled ? -1 : 0}
+      aria-label="Seek"
+      aria-valuemin={0}
+      aria-valuemax={Math.round(duration)}
+      aria-valuenow={Math.round(currentTime)}
+      aria-disabled={disabled}
+      className={cn(
+        "h-10 w-full touch-none rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        disabled ? "opacity-50" : "cursor-pointer",
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={(event) => dragging && seekTo(event.clientX)}
+      onPointerUp={() => setDragging(false)}
+      onPointerCancel={() => setDragging(false)}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
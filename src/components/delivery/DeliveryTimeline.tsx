@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Loader2, Plus, Truck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DELIVERY_JOB_STATUS_LABELS,
+  DELIVERY_STATUSES,
+  DELIVERY_STATUS_LABELS,
+  DELIVERY_STATUS_VARIANTS,
+  DeliveryEvent,
+  DeliveryJob,
+  DeliveryStatus,
+  ReleaseStore,
+  deliveryStatusLabel,
+} from "@/lib/delivery";
+
+const ALL_STORES = "all";
+
+type ReleaseStoreWithName = ReleaseStore & { stores: { name: string } | null };
+
+interface DeliveryTimelineProps {
+  releaseId: string;
+  releaseTitle: string;
+  // Text next to the icon, e.g. the delivery summary
+  label?: string;
+  // Admins can record new delivery states
+  canLog?: boolean;
+}
+
+export function DeliveryTimeline({ releaseId, releaseTitle, label, canLog = false }: DeliveryTimelineProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [releaseStores, setReleaseStores] = useState<ReleaseStoreWithName[]>([]);
+  const [events, setEvents] = useState<DeliveryEvent[]>([]);
+  const [jobs, setJobs] = useState<DeliveryJob[]>([]);
+  const [storeId, setStoreId] = useState(ALL_STORES);
+  const [status, setStatus] = useState<DeliveryStatus>("delivered");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchTimeline = async () => {
+      try {
+        const [{ data: storeRows, error: storesError }, { data: eventRows, error: eventsError }] = await Promise.all([
+          supabase.from("release_stores").select("*, stores(name)").eq("release_id", releaseId),
+          supabase
+            .from("delivery_events")
+            .select("*")
+            .eq("release_id", releaseId)
+            .order("created_at", { ascending: false }),
+        ]);
+        if (storesError) throw storesError;
+        if (eventsError) throw eventsError;
+
+        setReleaseStores(
+          (storeRows as ReleaseStoreWithName[]).sort((a, b) => (a.stores?.name ?? "").localeCompare(b.stores?.name ?? ""))
+        );
+        setEvents(eventRows);
+
+        if (canLog) {
+          const { data: jobRows, error: jobsError } = await supabase
+            .from("delivery_jobs")
+            .select("*")
+            .eq("release_id", releaseId)
+            .order("created_at", { ascending: false })
+            .limit(20);
+          if (jobsError) throw jobsError;
+          setJobs(jobRows);
+        }
+      } catch (error) {
+        console.error("Error fetching delivery timeline:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load delivery status",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTimeline();
+
+    const channel = supabase
+      .channel(`delivery-${releaseId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "delivery_events", filter: `release_id=eq.${releaseId}` },
+        () => fetchTimeline()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "delivery_jobs", filter: `release_id=eq.${releaseId}` },
+        () => fetchTimeline()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [open, releaseId, canLog]);
+
+  const storeName = (id: string) => releaseStores.find((row) => row.store_id === id)?.stores?.name ?? "Unknown store";
+
+  const logEvent = async () => {
+    const targets = storeId === ALL_STORES ? releaseStores.map((row) => row.store_id) : [storeId];
+    setSaving(true);
+    try {
+      const { error } = await supabase.from("delivery_events").insert(
+        targets.map((target) => ({
+          release_id: releaseId,
+          store_id: target,
+          status,
+          message: message.trim() || null,
+        }))
+      );
+      if (error) throw error;
+
+      setMessage("");
+      toast({ title: "Delivery Updated", description: `${targets.length} store${targets.length === 1 ? "" : "s"} marked ${DELIVERY_STATUS_LABELS[status].toLowerCase()}` });
+    } catch (error) {
+      console.error("Error logging delivery event:", error);
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Failed to update delivery status",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="touch-target" title="Delivery Status">
+          <Truck className="h-4 w-4" />
+          {label && <span className="ml-1">{label}</span>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Delivery: {releaseTitle}</DialogTitle>
+          <DialogDescription>Where this release stands at each store it was sent to.</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+            <div className="divide-y">
+              {releaseStores.map((row) => (
+                <div key={row.store_id} className="flex items-start justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium">{row.stores?.name}</p>
+                    {row.status_message && (
+                      <p className={`text-sm ${row.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                        {row.status_message}
+                      </p>
+                    )}
+                  </div>
+                  <Badge variant={row.status ? DELIVERY_STATUS_VARIANTS[row.status as DeliveryStatus] : "outline"}>
+                    {deliveryStatusLabel(row.status)}
+                  </Badge>
+                </div>
+              ))}
+              {releaseStores.length === 0 && <p className="text-sm text-muted-foreground py-2">No stores selected.</p>}
+            </div>
+
+            {canLog && releaseStores.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-[10rem_8rem_1fr_auto] gap-2 items-end">
+                <Select value={storeId} onValueChange={setStoreId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Store" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_STORES}>All stores</SelectItem>
+                    {releaseStores.map((row) => (
+                      <SelectItem key={row.store_id} value={row.store_id}>{row.stores?.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={status} onValueChange={(value) => setStatus(value as DeliveryStatus)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>{DELIVERY_STATUS_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder={status === "error" ? "What went wrong (required)" : "Note (optional)"}
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                />
+                <Button onClick={logEvent} disabled={saving || (status === "error" && !message.trim())} className="touch-target">
+                  <Plus className="h-4 w-4 mr-1" />
+                  Log
+                </Button>
+              </div>
+            )}
+
+            {canLog && jobs.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Upload Jobs</h4>
+                <div className="divide-y">
+                  {jobs.map((job) => (
+                    <div key={job.id} className="text-sm py-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={job.status === "failed" ? "destructive" : job.status === "completed" ? "secondary" : "outline"}>
+                          {DELIVERY_JOB_STATUS_LABELS[job.status] ?? job.status}
+                        </Badge>
+                        <span className="font-medium">{storeName(job.store_id)}</span>
+                        <span className="text-muted-foreground">
+                          Attempt {job.attempts} of {job.max_attempts}
+                          {job.status === "pending" && job.attempts > 0 && `, retrying ${format(new Date(job.run_after), "PPp")}`}
+                        </span>
+                      </div>
+                      {job.last_error && job.status !== "completed" && (
+                        <p className="text-destructive mt-1">{job.last_error}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">Log a store as Queued again to start a new upload.</p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">History</h4>
+              {events.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing has been delivered yet.</p>
+              ) : (
+                <ol className="border-l pl-4 space-y-3">
+                  {events.map((event) => (
+                    <li key={event.id} className="text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant={DELIVERY_STATUS_VARIANTS[event.status as DeliveryStatus] ?? "outline"}>
+                          {deliveryStatusLabel(event.status)}
+                        </Badge>
+                        <span className="font-medium">{storeName(event.store_id)}</span>
+                        <span className="text-muted-foreground">{format(new Date(event.created_at), "PPp")}</span>
+                      </div>
+                      {event.message && <p className="text-muted-foreground mt-1">{event.message}</p>}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
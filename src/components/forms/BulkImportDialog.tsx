@@ -0,0 +1,296 @@
+import { useMemo, useState } from "react";
+import { Check, FileSpreadsheet, FolderOpen, Loader2, Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { useGenres } from "@/hooks/use-genres";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useStores } from "@/hooks/use-stores";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  ImportGroup,
+  ImportProgress,
+  ManifestRow,
+  collectDroppedFiles,
+  importGroup,
+  manifestTemplate,
+  planImport,
+  readManifest,
+} from "@/lib/bulk-import";
+import { identifierConflictMessage } from "@/lib/identifiers";
+import { RELEASE_TYPE_LABELS } from "@/lib/releases";
+import { triggerDownload } from "@/lib/storage-utils";
+import { WavFormat, readWavFileFormat } from "@/lib/wav";
+
+interface BulkImportDialogProps {
+  onImported?: () => void;
+}
+
+export function BulkImportDialog({ onImported }: BulkImportDialogProps) {
+  const { user, profile } = useAuth();
+  const { genres } = useGenres();
+  const { stores } = useStores();
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<ManifestRow[]>([]);
+  const [manifestName, setManifestName] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [audioFormats, setAudioFormats] = useState<Record<string, WavFormat | null>>({});
+  const [dragging, setDragging] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [failures, setFailures] = useState<Record<string, string>>({});
+  // Survives reloads, so re-selecting the same manifest and folder continues an interrupted import
+  const [progress, setProgress] = useLocalStorage<Record<string, ImportProgress>>(`bulk-import-${user?.id}`, {});
+
+  const groups = useMemo(
+    () =>
+      rows.length > 0
+        ? planImport(rows, files, {
+            genres,
+            artistName: profile?.name,
+            storeIds: stores.filter((store) => store.active).map((store) => store.id),
+            audioFormats,
+          })
+        : [],
+    [rows, files, genres, profile?.name, stores, audioFormats]
+  );
+  const ready = groups.filter((group) => group.issues.length === 0 && !progress[group.key]?.done);
+  const imported = groups.filter((group) => progress[group.key]?.done).length;
+  const invalid = groups.filter((group) => group.issues.length > 0 && !progress[group.key]?.done).length;
+
+  const selectManifest = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setRows(await readManifest(file));
+      setManifestName(file.name);
+      setFailures({});
+    } catch (error) {
+      setRows([]);
+      toast({
+        title: "Invalid Manifest",
+        description: error instanceof Error ? error.message : "Could not read the manifest",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addFiles = async (added: File[]) => {
+    setFiles((current) => [...current, ...added.filter((file) => !current.some((existing) => existing.name === file.name))]);
+    // Headers are read up front so format problems show in the preview rather than mid-import
+    const audio = added.filter((file) => /\.wave?$/i.test(file.name));
+    const formats = await Promise.all(audio.map((file) => readWavFileFormat(file)));
+    setAudioFormats((current) => ({
+      ...Object.fromEntries(audio.map((file, index) => [file.name, formats[index]])),
+      ...current,
+    }));
+  };
+
+  const onDrop = async (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    addFiles(await collectDroppedFiles(event.dataTransfer));
+  };
+
+  const downloadTemplate = () => {
+    const template = new Blob([manifestTemplate()], { type: "text/csv" });
+    triggerDownload(URL.createObjectURL(template), "spillrix-import-template.csv");
+  };
+
+  const runImport = async () => {
+    if (!user) return;
+    setImporting(true);
+    setFailures({});
+    // Local copy, since several groups finish before the next render
+    let saved = { ...progress };
+    const failed: Record<string, string> = {};
+    for (const group of ready) {
+      const reserved = saved[group.key] ?? {
+        releaseId: crypto.randomUUID(),
+        trackIds: group.values.tracks.map(() => crypto.randomUUID()),
+        done: false,
+      };
+      setProgress((saved = { ...saved, [group.key]: reserved }));
+      try {
+        await importGroup(group, user.id, reserved);
+        setProgress((saved = { ...saved, [group.key]: { ...reserved, done: true } }));
+      } catch (error) {
+        console.error(`Error importing ${group.title}:`, error);
+        failed[group.key] = identifierConflictMessage(error) ?? (error instanceof Error ? error.message : "Import failed");
+        setFailures({ ...failed });
+      }
+    }
+    setImporting(false);
+    onImported?.();
+
+    const failedCount = Object.keys(failed).length;
+    toast({
+      title: failedCount > 0 ? "Import Incomplete" : "Import Complete",
+      description:
+        failedCount > 0
+          ? `${failedCount} release${failedCount === 1 ? "" : "s"} could not be imported; fix them and import again to continue.`
+          : "Every release was submitted for review.",
+      variant: failedCount > 0 ? "destructive" : "default",
+    });
+  };
+
+  const statusBadge = (group: ImportGroup) => {
+    if (progress[group.key]?.done) return <Badge variant="secondary"><Check className="h-3 w-3 mr-1" />Imported</Badge>;
+    if (failures[group.key]) return <Badge variant="destructive">Failed</Badge>;
+    if (group.issues.length > 0) return <Badge variant="destructive">{group.issues.length} problem{group.issues.length === 1 ? "" : "s"}</Badge>;
+    return <Badge variant="outline">Ready</Badge>;
+  };
+
+  const completed = groups.length > 0 ? Math.round((imported / groups.length) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !importing && setOpen(value)}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Bulk Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Bulk Import</DialogTitle>
+          <DialogDescription>
+            Import a catalog from a CSV or Excel manifest with one row per track. Rows sharing a release title become one
+            release; other rows become singles.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-manifest">Manifest</Label>
+              <Input
+                id="import-manifest"
+                type="file"
+                accept=".csv,.xlsx,text/csv"
+                onChange={(e) => selectManifest(e.target.files?.[0])}
+                disabled={importing}
+              />
+              <p className="text-xs text-muted-foreground">
+                Needs title, genre and file columns; isrc, artwork, release, upc, release_date, artist, language and
+                explicit are optional.{" "}
+                <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={downloadTemplate}>
+                  Download template
+                </Button>
+              </p>
+            </div>
+            <div
+              className={`rounded-lg border-2 border-dashed p-4 text-center space-y-2 ${dragging ? "border-primary bg-primary/5" : ""}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragging(true);
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={onDrop}
+            >
+              <FolderOpen className="h-6 w-6 mx-auto text-muted-foreground" />
+              <p className="text-sm">Drop a folder of WAVs and artwork here</p>
+              <Label htmlFor="import-folder" className="text-sm text-primary underline cursor-pointer">
+                or choose a folder
+              </Label>
+              <input
+                id="import-folder"
+                type="file"
+                multiple
+                className="hidden"
+                ref={(input) => input?.setAttribute("webkitdirectory", "")}
+                onChange={(e) => addFiles(Array.from(e.target.files ?? []))}
+                disabled={importing}
+              />
+              {files.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {files.length} file{files.length === 1 ? "" : "s"} selected{" "}
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => {
+                      setFiles([]);
+                      setAudioFormats({});
+                    }}
+                  >
+                    Clear
+                  </Button>
+                </p>
+              )}
+            </div>
+          </div>
+
+          {groups.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-3 text-sm">
+                <span className="font-medium">{manifestName}</span>
+                <span className="text-muted-foreground">
+                  {groups.length} release{groups.length === 1 ? "" : "s"} · {ready.length} ready · {invalid} with problems ·{" "}
+                  {imported} imported
+                </span>
+              </div>
+              {(importing || imported > 0) && <Progress value={completed} />}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Line</TableHead>
+                    <TableHead>Release</TableHead>
+                    <TableHead>Tracks</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map((group) => (
+                    <TableRow key={group.key}>
+                      <TableCell className="text-muted-foreground align-top">
+                        {group.lines.length === 1 ? group.lines[0] : `${group.lines[0]}–${group.lines[group.lines.length - 1]}`}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        <div className="font-medium">{group.title || "Untitled"}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {RELEASE_TYPE_LABELS[group.values.release_type]}
+                          {group.artwork ? ` · ${group.artwork.name}` : " · no artwork"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="align-top text-sm">
+                        {group.values.tracks.map((track, index) => (
+                          <div key={index}>{track.title || "Untitled"}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="align-top">
+                        {statusBadge(group)}
+                        {!progress[group.key]?.done && (
+                          <ul className="text-xs text-destructive mt-1 space-y-0.5">
+                            {failures[group.key] && <li>{failures[group.key]}</li>}
+                            {group.issues.map((issue, index) => (
+                              <li key={index}>Line {issue.line}: {issue.message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button onClick={runImport} disabled={importing || ready.length === 0}>
+            {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            {ready.some((group) => progress[group.key])
+              ? "Resume Import"
+              : `Import ${ready.length} Release${ready.length === 1 ? "" : "s"}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
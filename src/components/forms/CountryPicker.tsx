@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { COUNTRIES, countryName } from "@/lib/territories";
+import { cn } from "@/lib/utils";
+
+interface CountryPickerProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+export function CountryPicker({ value, onChange, placeholder = "Select countries" }: CountryPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const toggle = (code: string) => {
+    onChange(value.includes(code) ? value.filter((selected) => selected !== code) : [...value, code].sort());
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between font-normal", value.length === 0 && "text-muted-foreground")}
+          >
+            <span className="truncate">
+              {value.length === 0 ? placeholder : `${value.length} countr${value.length === 1 ? "y" : "ies"} selected`}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[16rem] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search countries..." />
+            <CommandList>
+              <CommandEmpty>No country found.</CommandEmpty>
+              <CommandGroup>
+                {COUNTRIES.map((country) => (
+                  <CommandItem
+                    key={country.code}
+                    value={country.name}
+                    keywords={[country.code]}
+                    onSelect={() => toggle(country.code)}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value.includes(country.code) ? "opacity-100" : "opacity-0")} />
+                    {country.name}
+                    <span className="ml-auto text-xs text-muted-foreground">{country.code}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((code) => (
+            <Badge key={code} variant="secondary" className="gap-1">
+              {countryName(code)}
+              <button type="button" onClick={() => toggle(code)} title={`Remove ${countryName(code)}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { Control, useFieldArray, useFormState, useWatch } from "react-hook-form";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ARTIST_CREDIT_ROLES, CREDIT_ROLES, CreditRole } from "@/lib/credits";
+import { ReleaseFormValues } from "@/lib/release-schema";
+
+interface CreditsFieldsProps {
+  control: Control<ReleaseFormValues>;
+  trackIndex: number;
+}
+
+const roleGroups = Array.from(new Set(CREDIT_ROLES.map((role) => role.group)));
+
+export function CreditsFields({ control, trackIndex }: CreditsFieldsProps) {
+  const { fields, append, remove } = useFieldArray({ control, name: `tracks.${trackIndex}.credits` });
+  const credits = useWatch({ control, name: `tracks.${trackIndex}.credits` });
+  const { errors } = useFormState({ control, name: `tracks.${trackIndex}.credits` });
+  const creditsError = errors.tracks?.[trackIndex]?.credits;
+  const arrayMessage = creditsError?.root?.message || creditsError?.message;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Credits</span>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ name: "", role: "artist", is_primary: false, profile_email: "" })}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Credit
+        </Button>
+      </div>
+      {fields.map((field, creditIndex) => {
+        const role = credits?.[creditIndex]?.role as CreditRole | undefined;
+        return (
+          <div key={field.id} className="grid grid-cols-1 sm:grid-cols-[1fr_11rem_auto] gap-2 items-start rounded-md bg-muted/40 p-3">
+            <FormField
+              control={control}
+              name={`tracks.${trackIndex}.credits.${creditIndex}.name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Contributor name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`tracks.${trackIndex}.credits.${creditIndex}.role`}
+              render={({ field }) => (
+                <FormItem>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Role" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {roleGroups.map((group) => (
+                        <SelectGroup key={group}>
+                          <SelectLabel>{group}</SelectLabel>
+                          {CREDIT_ROLES.filter((r) => r.group === group).map((r) => (
+                            <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                          ))}
+                        </SelectGroup>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => remove(creditIndex)}
+              className="text-destructive"
+              title="Remove credit"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+            <FormField
+              control={control}
+              name={`tracks.${trackIndex}.credits.${creditIndex}.profile_email`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input type="email" placeholder="Spillrix account email (optional)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {role && ARTIST_CREDIT_ROLES.includes(role) ? (
+              <FormField
+                control={control}
+                name={`tracks.${trackIndex}.credits.${creditIndex}.is_primary`}
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0 h-10">
+                    <FormControl>
+                      <Checkbox
+                        checked={!field.value}
+                        onCheckedChange={(checked) => field.onChange(checked !== true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Featured</FormLabel>
+                  </FormItem>
+                )}
+              />
+            ) : null}
+          </div>
+        );
+      })}
+      {arrayMessage ? <p className="text-sm font-medium text-destructive">{arrayMessage}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useGenres } from "@/hooks/use-genres";
+import { Genre, buildGenreTree, genreLabel } from "@/lib/genres";
+import { cn } from "@/lib/utils";
+
+interface GenrePickerProps {
+  value?: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  // Shows a clear button for optional fields
+  clearable?: boolean;
+}
+
+export function GenrePicker({ value, onChange, placeholder = "Select genre", clearable = false }: GenrePickerProps) {
+  const { genres, isLoading } = useGenres();
+  const [open, setOpen] = useState(false);
+  const tree = buildGenreTree(genres);
+
+  const select = (genre: Genre) => {
+    onChange(genre.id);
+    setOpen(false);
+  };
+
+  const renderItem = (genre: Genre, label: string, nested = false) => (
+    <CommandItem
+      key={genre.id}
+      value={label}
+      keywords={genre.aliases}
+      onSelect={() => select(genre)}
+      className={cn(nested && "pl-6")}
+    >
+      <Check className={cn("mr-2 h-4 w-4", value === genre.id ? "opacity-100" : "opacity-0")} />
+      {genre.name}
+    </CommandItem>
+  );
+
+  return (
+    <div className="flex gap-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+          >
+            <span className="truncate">{value ? genreLabel(genres, value) : isLoading ? "Loading genres..." : placeholder}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] min-w-[16rem] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search genres..." />
+            <CommandList>
+              <CommandEmpty>No genre found.</CommandEmpty>
+              {tree.map(({ genre, subgenres }) => (
+                <CommandGroup key={genre.id}>
+                  {renderItem(genre, genre.name)}
+                  {subgenres.map((sub) => renderItem(sub, `${genre.name} ${sub.name}`, true))}
+                </CommandGroup>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {clearable && value && (
+        <Button type="button" variant="ghost" size="icon" onClick={() => onChange("")} title="Clear genre">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { Control, useFormContext, useWatch } from "react-hook-form";
+import { FileUp, ListMusic } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Textarea } from "@/components/ui/textarea";
+import { LyricsSyncEditor } from "@/components/forms/LyricsSyncEditor";
+import { generateMusicUrl } from "@/lib/storage-utils";
+import { measureAudioDuration } from "@/lib/audio";
+import { ReleaseFormValues } from "@/lib/release-schema";
+
+interface LyricsFieldsProps {
+  control: Control<ReleaseFormValues>;
+  index: number;
+}
+
+export function LyricsFields({ control, index }: LyricsFieldsProps) {
+  const { setValue } = useFormContext<ReleaseFormValues>();
+  const [editorOpen, setEditorOpen] = useState(false);
+  const musicFiles = useWatch({ control, name: `tracks.${index}.music_file` });
+  const musicFileUrl = useWatch({ control, name: `tracks.${index}.music_file_url` });
+  const plainLyrics = useWatch({ control, name: `tracks.${index}.lyrics` });
+  const audioFile: File | undefined = musicFiles?.[0];
+
+  // Synced lyrics are checked against the length of whichever audio will be saved
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    const measure = async () => {
+      let src: string | null = null;
+      if (audioFile) {
+        objectUrl = URL.createObjectURL(audioFile);
+        src = objectUrl;
+      } else if (musicFileUrl) {
+        src = await generateMusicUrl(musicFileUrl);
+      }
+      if (!src) return;
+
+      try {
+        const duration = await measureAudioDuration(src);
+        if (!cancelled && isFinite(duration)) {
+          setValue(`tracks.${index}.audio_duration`, duration);
+        }
+      } catch (error) {
+        console.error("Error measuring track duration:", error);
+      }
+    };
+
+    measure();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [audioFile, musicFileUrl, index, setValue]);
+
+  const loadLrcFile = async (file: File | undefined, onChange: (value: string) => void) => {
+    if (!file) return;
+    onChange(await file.text());
+  };
+
+  return (
+    <div className="space-y-4">
+      <FormField
+        control={control}
+        name={`tracks.${index}.lyrics`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Lyrics (Optional)</FormLabel>
+            <FormControl>
+              <Textarea rows={4} placeholder="Paste the lyrics, one line per sung line" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={`tracks.${index}.synced_lyrics`}
+        render={({ field }) => (
+          <FormItem>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <FormLabel>Synced Lyrics (Optional)</FormLabel>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <FileUp className="h-4 w-4 mr-1" />
+                    Upload .lrc
+                    <input
+                      type="file"
+                      accept=".lrc,text/plain"
+                      className="sr-only"
+                      onChange={(e) => {
+                        loadLrcFile(e.target.files?.[0], field.onChange);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => setEditorOpen((open) => !open)}>
+                  <ListMusic className="h-4 w-4 mr-1" />
+                  {editorOpen ? "Close Sync Editor" : "Sync Editor"}
+                </Button>
+              </div>
+            </div>
+            <FormControl>
+              <Textarea
+                rows={4}
+                className="font-mono text-xs"
+                placeholder="[00:12.50]First line of the song"
+                {...field}
+              />
+            </FormControl>
+            <FormDescription>
+              LRC format: one [mm:ss.xx] timestamp per line, increasing, and within the length of the track.
+            </FormDescription>
+            <FormMessage />
+            {editorOpen && (
+              <LyricsSyncEditor
+                audioFile={audioFile}
+                filePath={musicFileUrl}
+                plainLyrics={plainLyrics ?? ""}
+                value={field.value ?? ""}
+                onChange={field.onChange}
+                onDurationChange={(duration) => setValue(`tracks.${index}.audio_duration`, duration)}
+              />
+            )}
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
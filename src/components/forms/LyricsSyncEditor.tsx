@@ -0,0 +1,116 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Hand, RotateCcw, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { EnhancedAudioPlayer } from "@/components/audio/EnhancedAudioPlayer";
+import { AudioPlayerWithUrl } from "@/components/audio/AudioPlayerWithUrl";
+import { SyncedLyricsView } from "@/components/audio/SyncedLyricsView";
+import { LrcLine, formatLrcTimestamp, parseLrc, serializeLrc } from "@/lib/lrc";
+
+interface LyricsSyncEditorProps {
+  audioFile?: File;
+  filePath?: string;
+  plainLyrics: string;
+  value: string;
+  onChange: (lrc: string) => void;
+  onDurationChange?: (duration: number) => void;
+}
+
+interface DraftLine {
+  text: string;
+  time: number | null;
+}
+
+// Starts from the existing synced lyrics when they parse, otherwise from the plain lyrics
+function initialLines(value: string, plainLyrics: string): DraftLine[] {
+  const { lines, errors } = parseLrc(value);
+  if (lines.length > 0 && errors.length === 0) return lines;
+  return plainLyrics
+    .split(/\r?\n/)
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text) => ({ text, time: null }));
+}
+
+export function LyricsSyncEditor({ audioFile, filePath, plainLyrics, value, onChange, onDurationChange }: LyricsSyncEditorProps) {
+  const [lines, setLines] = useState<DraftLine[]>(() => initialLines(value, plainLyrics));
+  const [currentTime, setCurrentTime] = useState(0);
+  const timeRef = useRef(0);
+
+  const fileUrl = useMemo(() => (audioFile ? URL.createObjectURL(audioFile) : null), [audioFile]);
+  useEffect(() => () => {
+    if (fileUrl) URL.revokeObjectURL(fileUrl);
+  }, [fileUrl]);
+
+  const nextIndex = lines.findIndex((line) => line.time === null);
+  const timedLines = lines.filter((line): line is LrcLine => line.time !== null);
+
+  const update = (next: DraftLine[]) => {
+    setLines(next);
+    onChange(serializeLrc(next.filter((line): line is LrcLine => line.time !== null)));
+  };
+
+  const handleTimeUpdate = (time: number) => {
+    timeRef.current = time;
+    setCurrentTime(time);
+  };
+
+  const tap = () => {
+    if (nextIndex === -1) return;
+    update(lines.map((line, index) => (index === nextIndex ? { ...line, time: timeRef.current } : line)));
+  };
+
+  const undo = () => {
+    const last = nextIndex === -1 ? lines.length - 1 : nextIndex - 1;
+    if (last < 0) return;
+    update(lines.map((line, index) => (index === last ? { ...line, time: null } : line)));
+  };
+
+  const reset = () => update(lines.map((line) => ({ ...line, time: null })));
+
+  if (lines.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Enter the plain lyrics above first; each line becomes one line to tap along to.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      {fileUrl ? (
+        <EnhancedAudioPlayer src={fileUrl} onTimeUpdate={handleTimeUpdate} onDurationChange={onDurationChange} />
+      ) : filePath ? (
+        <AudioPlayerWithUrl filePath={filePath} title="" onTimeUpdate={handleTimeUpdate} onDurationChange={onDurationChange} />
+      ) : (
+        <p className="text-sm text-muted-foreground">Choose the music file to sync against.</p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" size="sm" onClick={tap} disabled={nextIndex === -1}>
+          <Hand className="h-4 w-4 mr-1" />
+          Tap line {nextIndex === -1 ? "" : nextIndex + 1}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={undo} disabled={timedLines.length === 0}>
+          <Undo2 className="h-4 w-4 mr-1" />
+          Undo
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={reset} disabled={timedLines.length === 0}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset
+        </Button>
+        <span className="text-xs text-muted-foreground font-mono">{formatLrcTimestamp(currentTime)}</span>
+        <span className="text-xs text-muted-foreground">
+          {timedLines.length} of {lines.length} lines synced
+        </span>
+      </div>
+
+      {nextIndex !== -1 && (
+        <p className="text-sm">
+          Next: <span className="font-medium">{lines[nextIndex].text}</span>
+        </p>
+      )}
+
+      {timedLines.length > 0 && <SyncedLyricsView lines={timedLines} currentTime={currentTime} className="h-40" />}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
+import { useEffect } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
-import { z } from "zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import { format } from "date-fns";
+import { CalendarIcon, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
 import {
   Form,
   FormControl,
@@ -12,57 +15,194 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
+import { useStores } from "@/hooks/use-stores";
 import { supabase } from "@/integrations/supabase/client";
-import { Tables } from "@/integrations/supabase/types";
 import { useAuth } from "@/contexts/AuthContext";
+import { CountryPicker } from "@/components/forms/CountryPicker";
+import { StorePicker } from "@/components/forms/StorePicker";
+import { TrackFields } from "@/components/forms/TrackFields";
+import {
+  RELEASE_TYPES,
+  RELEASE_TYPE_LABELS,
+  ReleaseType,
+  ReleaseWithTracks,
+  TrackWithDetails,
+  numberTracklist,
+  sortTracklist,
+} from "@/lib/releases";
+import {
+  CreditFormValues,
+  ReleaseFormValues,
+  TrackFormValues,
+  newTrack,
+  releaseFormSchema,
+} from "@/lib/release-schema";
+import { CreditRole } from "@/lib/credits";
+import { formatIsrc, identifierConflictMessage, normalizeIdentifier } from "@/lib/identifiers";
+import {
+  MIN_RELEASE_LEAD_DAYS,
+  RELEASE_TIMEZONES,
+  RELEASE_TIMINGS,
+  RELEASE_TIMING_LABELS,
+  ReleaseTiming,
+  earliestReleaseDate,
+  fromDateColumn,
+  toDateColumn,
+} from "@/lib/release-schedule";
+import { ParentalAdvisory, normalizeRightsLine } from "@/lib/track-metadata";
+import { VersionType } from "@/lib/versions";
+import { CountryCode, TERRITORY_MODES, TERRITORY_MODE_LABELS, TerritoryMode } from "@/lib/territories";
+import { uploadArtistFile, uploadMusicFile, uploadPreview, uploadWaveformPeaks } from "@/lib/storage-utils";
+import { audioFileColumns } from "@/lib/wav";
+import { analysisColumns, analyzeAudio, encodePreview } from "@/lib/audio-analysis";
+import { cn } from "@/lib/utils";
+
+// Form values for a saved track, as loaded for editing
+function trackFormValues(track: TrackWithDetails): TrackFormValues {
+  return {
+    track_id: track.id,
+    music_file_url: track.music_file_url || undefined,
+    title: track.title,
+    primary_genre_id: track.primary_genre_id || "",
+    secondary_genre_id: track.secondary_genre_id || "",
+    isrc: formatIsrc(track.isrc),
+    disc_number: track.disc_number,
+    parental_advisory: track.parental_advisory as ParentalAdvisory,
+    language_code: track.language_code || "",
+    copyright_line: track.copyright_line || "",
+    phonographic_line: track.phonographic_line || "",
+    label_name: track.label_name || "",
+    lyrics: track.lyrics || "",
+    synced_lyrics: track.synced_lyrics || "",
+    audio_duration: track.duration ?? undefined,
+    parent_track_id: track.parent_track_id || undefined,
+    version_type: (track.version_type as VersionType) || undefined,
+    version_title: track.version_title || "",
+    is_cover: track.is_cover,
+    credits: [...(track.track_credits ?? [])]
+      .sort((a, b) => a.position - b.position)
+      .map((credit) => ({
+        name: credit.name,
+        role: credit.role as CreditRole,
+        is_primary: credit.is_primary,
+        profile_id: credit.profile_id || undefined,
+        profile_email: "",
+      })),
+    splits: (track.track_splits ?? []).map((split) => ({
+      collaborator_name: split.collaborator_name,
+      collaborator_email: split.collaborator_email,
+      share: Number(split.share),
+      status: split.status,
+    })),
+  };
+}
+
+// Audio columns of a saved track, sent again unchanged when its file is kept
+function keptAudioColumns(track: TrackWithDetails | undefined) {
+  return {
+    duration: track?.duration ?? null,
+    file_size: track?.file_size ?? null,
+    integrated_loudness_lufs: track?.integrated_loudness_lufs ?? null,
+    loudness_range_lu: track?.loudness_range_lu ?? null,
+    true_peak_dbtp: track?.true_peak_dbtp ?? null,
+    qc_report: track?.qc_report ?? null,
+    qc_status: track?.qc_status ?? null,
+    spectral_cutoff_hz: track?.spectral_cutoff_hz ?? null,
+    peaks_file_url: track?.peaks_file_url ?? null,
+    preview_file_url: track?.preview_file_url ?? null,
+  };
+}
 
-const formSchema = z.object({
-  title: z.string().min(2, { message: "Title must be at least 2 characters." }),
-  genre: z.string().min(2, { message: "Genre must be at least 2 characters." }),
-  upc_irsc: z.string().optional(),
-  music_file: z.any()
-    .optional()
-    .refine(
-      (files) => !files || files.length === 0 || files?.[0]?.type === "audio/wav",
-      { message: "Music file must be a WAV file." }
-    ),
-  cover_art: z.any().optional(),
-});
+// A new version prefilled from its original; audio, ISRC and lyric timing are specific to each version
+function versionFormValues(parent: TrackWithDetails): TrackFormValues {
+  return {
+    ...trackFormValues(parent),
+    track_id: undefined,
+    music_file_url: undefined,
+    isrc: "",
+    synced_lyrics: "",
+    audio_duration: undefined,
+    parent_track_id: parent.id,
+    version_type: undefined,
+    version_title: "",
+    splits: trackFormValues(parent).splits.map((split) => ({ ...split, status: undefined })),
+  };
+}
 
 interface NewReleaseFormProps {
-  track?: Tables<"tracks">;
+  release?: ReleaseWithTracks;
+  // Starts a new single holding a version of this track
+  versionOf?: TrackWithDetails;
   onSuccess?: () => void;
 }
 
-export function NewReleaseForm({ track, onSuccess }: NewReleaseFormProps) {
-  const { user } = useAuth();
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+export function NewReleaseForm({ release, versionOf, onSuccess }: NewReleaseFormProps) {
+  const { user, profile } = useAuth();
+  const form = useForm<ReleaseFormValues>({
+    resolver: zodResolver(releaseFormSchema),
     defaultValues: {
-      title: track?.title || "",
-      genre: track?.genre || "",
-      upc_irsc: track?.upc_irsc || "",
+      release_title: release?.title || versionOf?.title || "",
+      release_type: (release?.release_type as ReleaseType) || "single",
+      upc: release?.upc || "",
+      release_date: fromDateColumn(release?.release_date),
+      preorder_date: fromDateColumn(release?.preorder_date),
+      release_timing: (release?.release_timing as ReleaseTiming) || "local_midnight",
+      release_timezone: release?.release_timezone || "UTC",
+      store_ids: release?.release_stores?.map((releaseStore) => releaseStore.store_id) ?? [],
+      territory_mode: (release?.territory_mode as TerritoryMode) || "worldwide",
+      territories: (release?.territories as CountryCode[]) ?? [],
+      tracks: release
+        ? sortTracklist(release.tracks).map(trackFormValues)
+        : versionOf
+          ? [versionFormValues(versionOf)]
+          : [newTrack(profile?.name)],
     },
   });
+  const { fields, append, move, remove } = useFieldArray({ control: form.control, name: "tracks" });
+  const releaseDate = form.watch("release_date");
+  const releaseTiming = form.watch("release_timing");
+  const territoryMode = form.watch("territory_mode");
+  const hasCover = form.watch("tracks").some((track) => track.is_cover);
+  const { stores } = useStores();
 
-  async function onSubmit(data: z.infer<typeof formSchema>) {
-    try {
-      const { title, genre, upc_irsc, music_file, cover_art } = data;
-
-      const musicFile = music_file?.[0];
-
-      if (track && !upc_irsc) {
-        toast({ title: "Error", description: "UPC/IRSC is required for updates." });
-        return;
-      }
+  // New releases go to every active store unless the artist opts out
+  useEffect(() => {
+    if (!release && stores.length > 0 && form.getValues("store_ids").length === 0) {
+      form.setValue("store_ids", stores.filter((store) => store.active).map((store) => store.id));
+    }
+  }, [release, stores, form]);
 
-      if (!track && !musicFile) {
-        form.setError("music_file", { type: "manual", message: "A music file is required for a new release." });
-        return;
-      }
+  // Resolves the optional account email on each credit to a linked profile
+  async function creditRows(trackId: string, credits: CreditFormValues[]) {
+    return Promise.all(
+      credits.map(async (credit, position) => {
+        let profileId = credit.profile_id || null;
+        if (credit.profile_email) {
+          const { data: foundId, error } = await supabase.rpc("find_profile_id", { p_email: credit.profile_email });
+          if (error) throw error;
+          if (!foundId) throw new Error(`No Spillrix account found for ${credit.profile_email}.`);
+          profileId = foundId;
+        }
+        return {
+          track_id: trackId,
+          name: credit.name.trim(),
+          role: credit.role,
+          is_primary: credit.is_primary,
+          profile_id: profileId,
+          position,
+        };
+      })
+    );
+  }
 
-      const coverArtFile = cover_art?.[0];
+  async function onSubmit(data: ReleaseFormValues) {
+    try {
+      const { release_title, release_type, upc, cover_art, tracks } = data;
+      const { release_date, preorder_date, release_timing, release_timezone, store_ids, territory_mode, territories } = data;
 
       // Get artist ID from auth context instead of making additional API call
       const artistId = user?.id;
@@ -72,57 +212,118 @@ export function NewReleaseForm({ track, onSuccess }: NewReleaseFormProps) {
         return;
       }
 
-      let music_file_path = track?.music_file_url;
-      if (musicFile) {
-        const { data: musicUploadData, error: musicUploadError } = await supabase.storage
-          .from("music-files")
-          .upload(`${artistId}/${musicFile.name}`, musicFile, { upsert: true });
-        if (musicUploadError) throw musicUploadError;
-        music_file_path = musicUploadData?.path;
-      }
-
-      let cover_art_path = track?.cover_art_url;
+      const coverArtFile = cover_art?.[0];
+      let cover_art_path = release?.cover_art_url;
       if (coverArtFile) {
-        const { data: coverArtUploadData, error: coverArtUploadError } = await supabase.storage
-          .from("cover-art")
-          .upload(`${artistId}/${coverArtFile.name}`, coverArtFile, { upsert: true });
-        if (coverArtUploadError) throw coverArtUploadError;
-        cover_art_path = coverArtUploadData?.path;
+        cover_art_path = await uploadArtistFile("cover-art", artistId, coverArtFile);
       }
 
-      const upsertData = {
-        title,
-        genre,
-        upc_irsc: upc_irsc || null,
-        status: "pending", // Always set to pending when creating or updating
-        music_file_url: music_file_path || null,
+      const releaseData = {
+        title: release_title,
+        release_type,
+        upc: upc ? normalizeIdentifier(upc) : null,
         cover_art_url: cover_art_path || null,
+        release_date: toDateColumn(release_date),
+        preorder_date: toDateColumn(preorder_date),
+        release_timing,
+        release_timezone: release_timing === "worldwide" ? release_timezone : "UTC",
+        territory_mode,
+        territories: territory_mode === "worldwide" ? [] : territories,
+        // Saved as a draft first; submitted for review once every split is accepted
+        status: "draft",
         artist_id: artistId,
       };
 
-      if (track) {
-        const { error } = await supabase
-          .from("tracks")
-          .update(upsertData)
-          .eq("id", track.id);
-        if (error) throw error;
-      } else {
-        // For new tracks, ensure all required fields are set
-        const insertData = {
-          ...upsertData,
-          artist_id: artistId, // Explicitly set artist_id for new tracks
-        };
-        const { error } = await supabase.from("tracks").insert([insertData]);
-        if (error) {
-          console.error('Insert error:', error);
-          throw error;
-        }
+      const trackRows = [];
+      const credits = [];
+      const splits = [];
+      for (const track of numberTracklist(tracks)) {
+        // New tracks get their id up front so credits can reference them
+        const trackId = track.track_id ?? crypto.randomUUID();
+        const musicFile = track.music_file?.[0];
+        const existing = release?.tracks.find((saved) => saved.id === track.track_id);
+        const upload = musicFile ? await uploadMusicFile(artistId, musicFile) : null;
+        const analysis = musicFile ? track.audio_analysis ?? (await analyzeAudio(musicFile)) : null;
+        const peaks_file_url = upload ? await uploadWaveformPeaks(upload.path, analysis.waveform) : null;
+        const preview_file_url = upload ? await uploadPreview(upload.path, await encodePreview(musicFile)) : null;
+        const music_file_path = upload ? upload.path : track.music_file_url;
+
+        credits.push(...(await creditRows(trackId, track.credits)));
+        splits.push(
+          ...track.splits.map((split) => ({
+            track_id: trackId,
+            collaborator_name: split.collaborator_name.trim(),
+            collaborator_email: split.collaborator_email,
+            share: split.share,
+          }))
+        );
+        trackRows.push({
+          id: trackId,
+          title: track.title,
+          primary_genre_id: track.primary_genre_id,
+          secondary_genre_id: track.secondary_genre_id || null,
+          isrc: track.isrc ? normalizeIdentifier(track.isrc) : null,
+          disc_number: track.disc_number,
+          track_number: track.track_number,
+          parental_advisory: track.parental_advisory,
+          language_code: track.language_code,
+          copyright_line: normalizeRightsLine(track.copyright_line),
+          phonographic_line: normalizeRightsLine(track.phonographic_line),
+          label_name: track.label_name.trim(),
+          lyrics: track.lyrics?.trim() || null,
+          synced_lyrics: track.synced_lyrics?.trim() || null,
+          parent_track_id: track.parent_track_id || null,
+          version_type: track.parent_track_id ? track.version_type : null,
+          version_title: track.parent_track_id ? track.version_title || null : null,
+          is_cover: track.is_cover,
+          status: "draft",
+          music_file_url: music_file_path || null,
+          // Every row carries these, since an upsert fills columns missing from one row with their defaults
+          ...(upload
+            ? { ...audioFileColumns(upload.format, musicFile.size), ...analysisColumns(analysis), peaks_file_url, preview_file_url }
+            : keptAudioColumns(existing)),
+          artist_id: artistId,
+        });
       }
 
-      toast({ title: "Success", description: "Release submitted successfully." });
+      // Everything is written in one transaction, so a failed edit leaves the saved release untouched
+      const { data: releaseId, error: saveError } = await supabase.rpc("save_release", {
+        p_release_id: release?.id ?? null,
+        p_release: releaseData,
+        p_store_ids: store_ids,
+        p_tracks: trackRows,
+        p_credits: credits,
+        p_splits: splits,
+      });
+      if (saveError) throw saveError;
+
+      let pendingSplits = 0;
+      if (splits.length > 0) {
+        const { data: savedSplits, error: splitsError } = await supabase
+          .from("track_splits")
+          .select("status")
+          .in("track_id", trackRows.map((row) => row.id));
+        if (splitsError) throw splitsError;
+        pendingSplits = savedSplits.filter((split) => split.status !== "accepted").length;
+      }
+
+      if (pendingSplits > 0) {
+        toast({
+          title: "Saved as draft",
+          description: `Waiting for ${pendingSplits} collaborator${pendingSplits === 1 ? "" : "s"} to accept their split before this release can be submitted.`,
+        });
+      } else {
+        const { error: submitError } = await supabase
+          .from("releases")
+          .update({ status: "pending" })
+          .eq("id", releaseId);
+        if (submitError) throw submitError;
+        toast({ title: "Success", description: "Release submitted successfully." });
+      }
       onSuccess?.();
     } catch (error) {
-      toast({ title: "Error", description: error instanceof Error ? error.message : "An unknown error occurred." });
+      const conflict = identifierConflictMessage(error);
+      toast({ title: "Error", description: conflict ?? (error instanceof Error ? error.message : "An unknown error occurred.") });
     }
   }
 
@@ -131,12 +332,12 @@ export function NewReleaseForm({ track, onSuccess }: NewReleaseFormProps) {
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
         <FormField
           control={form.control}
-          name="title"
+          name="release_title"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Title</FormLabel>
+              <FormLabel>Release Title</FormLabel>
               <FormControl>
-                <Input placeholder="My Awesome Song" {...field} />
+                <Input placeholder="My Awesome Album" {...field} />
               </FormControl>
               <FormMessage />
             </FormItem>
@@ -144,43 +345,177 @@ export function NewReleaseForm({ track, onSuccess }: NewReleaseFormProps) {
         />
         <FormField
           control={form.control}
-          name="genre"
+          name="release_type"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Genre</FormLabel>
+              <FormLabel>Release Type</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a release type" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {RELEASE_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{RELEASE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="upc"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>UPC/EAN</FormLabel>
               <FormControl>
-                <Input placeholder="Pop" {...field} />
+                <Input placeholder="036000291452" {...field} />
               </FormControl>
+              <FormDescription>Can be added later, but a release needs one before it is approved.</FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="release_date"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Release Date</FormLabel>
+                <DatePicker
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={(date) => date < earliestReleaseDate()}
+                />
+                <FormDescription>At least {MIN_RELEASE_LEAD_DAYS} days after submission.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="preorder_date"
+            render={({ field }) => (
+              <FormItem className="flex flex-col">
+                <FormLabel>Pre-order Date (Optional)</FormLabel>
+                <DatePicker
+                  value={field.value}
+                  onChange={field.onChange}
+                  disabled={(date) => date < new Date() || (releaseDate && date >= releaseDate)}
+                  clearable
+                />
+                <FormDescription>Stores open pre-orders from this day.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
         <FormField
           control={form.control}
-          name="upc_irsc"
+          name="release_timing"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>UPC/IRSC (Optional for new releases)</FormLabel>
+              <FormLabel>Go-live Timing</FormLabel>
               <FormControl>
-                <Input placeholder="123456789012" {...field} />
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="grid gap-2">
+                  {RELEASE_TIMINGS.map((timing) => (
+                    <FormItem key={timing} className="flex items-center space-x-3 space-y-0">
+                      <FormControl>
+                        <RadioGroupItem value={timing} />
+                      </FormControl>
+                      <FormLabel className="font-normal">{RELEASE_TIMING_LABELS[timing]}</FormLabel>
+                    </FormItem>
+                  ))}
+                </RadioGroup>
               </FormControl>
               <FormMessage />
             </FormItem>
           )}
         />
+        {releaseTiming === "worldwide" && (
+          <FormField
+            control={form.control}
+            name="release_timezone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Goes live at midnight in</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a time zone" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RELEASE_TIMEZONES.map((zone) => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
         <FormField
           control={form.control}
-          name="music_file"
-          render={({ field: { onChange, value, ...rest } }) => (
+          name="store_ids"
+          render={({ field }) => (
             <FormItem>
-              <FormLabel>Music File (WAV 16-bit 44.1 kHz)</FormLabel>
+              <FormLabel>Stores</FormLabel>
               <FormControl>
-                <Input type="file" accept="audio/wav" onChange={(e) => onChange(e.target.files)} {...rest} />
+                <StorePicker value={field.value} onChange={field.onChange} />
               </FormControl>
+              <FormDescription>Delivery to each store starts once the release is approved.</FormDescription>
               <FormMessage />
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="territory_mode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Territories</FormLabel>
+              <FormControl>
+                <RadioGroup value={field.value} onValueChange={field.onChange} className="grid gap-2">
+                  {TERRITORY_MODES.map((mode) => (
+                    <FormItem key={mode} className="flex items-center space-x-3 space-y-0">
+                      <FormControl>
+                        <RadioGroupItem value={mode} />
+                      </FormControl>
+                      <FormLabel className="font-normal">{TERRITORY_MODE_LABELS[mode]}</FormLabel>
+                    </FormItem>
+                  ))}
+                </RadioGroup>
+              </FormControl>
+              {hasCover && territoryMode === "worldwide" && (
+                <FormDescription>
+                  This release has a cover song. Check that its licence covers every country before releasing worldwide.
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {territoryMode !== "worldwide" && (
+          <FormField
+            control={form.control}
+            name="territories"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{territoryMode === "include" ? "Available in" : "Not available in"}</FormLabel>
+                <FormControl>
+                  <CountryPicker value={field.value} onChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
         <FormField
           control={form.control}
           name="cover_art"
@@ -194,8 +529,71 @@ export function NewReleaseForm({ track, onSuccess }: NewReleaseFormProps) {
             </FormItem>
           )}
         />
-        <Button type="submit">{track ? "Update Release" : "Create Release"}</Button>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Tracklist</h3>
+            <Button type="button" variant="outline" size="sm" onClick={() => append(newTrack(profile?.name))}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Track
+            </Button>
+          </div>
+          {fields.map((field, index) => (
+            <TrackFields
+              key={field.id}
+              control={form.control}
+              index={index}
+              count={fields.length}
+              hasExistingFile={Boolean(form.getValues(`tracks.${index}.music_file_url`))}
+              onMove={move}
+              onRemove={remove}
+            />
+          ))}
+          {form.formState.errors.tracks?.root?.message || form.formState.errors.tracks?.message ? (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.tracks?.root?.message || form.formState.errors.tracks?.message}
+            </p>
+          ) : null}
+        </div>
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {release ? "Update Release" : "Create Release"}
+        </Button>
       </form>
     </Form>
   );
 }
+
+interface DatePickerProps {
+  value?: Date;
+  onChange: (date: Date | undefined) => void;
+  disabled?: (date: Date) => boolean;
+  clearable?: boolean;
+}
+
+function DatePicker({ value, onChange, disabled, clearable = false }: DatePickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <FormControl>
+          <Button
+            type="button"
+            variant="outline"
+            className={cn("justify-start text-left font-normal", !value && "text-muted-foreground")}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : "Pick a date"}
+          </Button>
+        </FormControl>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar mode="single" selected={value} onSelect={onChange} disabled={disabled} initialFocus />
+        {clearable && value && (
+          <div className="border-t p-2">
+            <Button type="button" variant="ghost" size="sm" className="w-full" onClick={() => onChange(undefined)}>
+              Clear
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,117 @@
+import { Control, useFieldArray, useFormState, useWatch } from "react-hook-form";
+import { Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/contexts/AuthContext";
+import { ReleaseFormValues } from "@/lib/release-schema";
+import { SPLIT_STATUS_LABELS, splitTotal } from "@/lib/splits";
+
+interface SplitsFieldsProps {
+  control: Control<ReleaseFormValues>;
+  trackIndex: number;
+}
+
+export function SplitsFields({ control, trackIndex }: SplitsFieldsProps) {
+  const { profile } = useAuth();
+  const { fields, append, remove } = useFieldArray({ control, name: `tracks.${trackIndex}.splits` });
+  const splits = useWatch({ control, name: `tracks.${trackIndex}.splits` }) ?? [];
+  const { errors } = useFormState({ control, name: `tracks.${trackIndex}.splits` });
+  const splitsError = errors.tracks?.[trackIndex]?.splits;
+  const arrayMessage = splitsError?.root?.message || splitsError?.message;
+
+  const addCollaborator = () => {
+    // The first row of a new split sheet is the uploader with the full share
+    if (fields.length === 0) {
+      append({ collaborator_name: profile?.name || "", collaborator_email: profile?.email || "", share: 100 });
+    } else {
+      append({ collaborator_name: "", collaborator_email: "", share: 0 });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          Royalty Splits
+          {fields.length > 0 ? (
+            <span className="ml-2 text-xs text-muted-foreground">Total {splitTotal(splits)}%</span>
+          ) : null}
+        </span>
+        <Button type="button" variant="outline" size="sm" onClick={addCollaborator}>
+          <Plus className="h-4 w-4 mr-1" />
+          {fields.length === 0 ? "Add Split Sheet" : "Add Collaborator"}
+        </Button>
+      </div>
+      {fields.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No split sheet — you receive 100% of royalties.</p>
+      ) : null}
+      {fields.map((field, splitIndex) => {
+        const status = splits[splitIndex]?.status;
+        return (
+          <div key={field.id} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_6rem_auto] gap-2 items-start rounded-md bg-muted/40 p-3">
+            <FormField
+              control={control}
+              name={`tracks.${trackIndex}.splits.${splitIndex}.collaborator_name`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Collaborator name" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`tracks.${trackIndex}.splits.${splitIndex}.collaborator_email`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input type="email" placeholder="collaborator@email.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={control}
+              name={`tracks.${trackIndex}.splits.${splitIndex}.share`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <div className="relative">
+                      <Input type="number" min={0} max={100} step={0.01} className="pr-6" {...field} />
+                      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+                    </div>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex items-center gap-1 h-10">
+              {status ? <Badge variant="outline">{SPLIT_STATUS_LABELS[status] ?? status}</Badge> : null}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => remove(splitIndex)}
+                className="text-destructive"
+                title="Remove collaborator"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      {arrayMessage ? <p className="text-sm font-medium text-destructive">{arrayMessage}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useStores } from "@/hooks/use-stores";
+
+interface StorePickerProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+
+export function StorePicker({ value, onChange }: StorePickerProps) {
+  const { stores, isLoading } = useStores();
+  // Stores retired from the catalog stay visible while a release still has them selected
+  const choices = stores.filter((store) => store.active || value.includes(store.id));
+  const activeIds = stores.filter((store) => store.active).map((store) => store.id);
+  const allSelected = activeIds.length > 0 && activeIds.every((id) => value.includes(id));
+
+  const toggle = (storeId: string, checked: boolean) => {
+    onChange(checked ? [...value, storeId] : value.filter((id) => id !== storeId));
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={() => onChange(allSelected ? [] : activeIds)}>
+        {allSelected ? "Clear all" : "Select all stores"}
+      </Button>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+        {choices.map((store) => (
+          <div key={store.id} className="flex items-center space-x-2">
+            <Checkbox
+              id={`store-${store.id}`}
+              checked={value.includes(store.id)}
+              onCheckedChange={(checked) => toggle(store.id, checked === true)}
+            />
+            <Label htmlFor={`store-${store.id}`} className="font-normal">
+              {store.name}
+              {!store.active && <span className="text-muted-foreground"> (no longer offered)</span>}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { Control, useFormContext, useWatch } from "react-hook-form";
+import { ArrowDown, ArrowUp, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ReleaseFormValues } from "@/lib/release-schema";
+import { CreditsFields } from "@/components/forms/CreditsFields";
+import { SplitsFields } from "@/components/forms/SplitsFields";
+import { GenrePicker } from "@/components/forms/GenrePicker";
+import { LyricsFields } from "@/components/forms/LyricsFields";
+import { VERSION_TYPES, VERSION_TYPE_LABELS } from "@/lib/versions";
+import { PARENTAL_ADVISORIES, PARENTAL_ADVISORY_LABELS, TRACK_LANGUAGES } from "@/lib/track-metadata";
+import { describeWavFormat, readWavFileFormat, wavFormatProblem } from "@/lib/wav";
+import { analyzeAudio } from "@/lib/audio-analysis";
+import { LoudnessSummary } from "@/components/audio/LoudnessSummary";
+import { QcBadge } from "@/components/audio/QcBadge";
+
+interface TrackFieldsProps {
+  control: Control<ReleaseFormValues>;
+  index: number;
+  count: number;
+  hasExistingFile: boolean;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+}
+
+export function TrackFields({ control, index, count, hasExistingFile, onMove, onRemove }: TrackFieldsProps) {
+  const { getValues, setValue, trigger } = useFormContext<ReleaseFormValues>();
+  const [analysing, setAnalysing] = useState(false);
+  const parentTrackId = useWatch({ control, name: `tracks.${index}.parent_track_id` });
+  const audioFormat = useWatch({ control, name: `tracks.${index}.audio_format` });
+  const audioAnalysis = useWatch({ control, name: `tracks.${index}.audio_analysis` });
+
+  // The header is checked as soon as a file is picked, before anything is uploaded
+  const selectMusicFile = async (files: FileList | null, onChange: (files: FileList | null) => void) => {
+    onChange(files);
+    setValue(`tracks.${index}.audio_format`, undefined);
+    setValue(`tracks.${index}.audio_analysis`, undefined);
+    const file = files?.[0];
+    if (!file) return;
+    const format = await readWavFileFormat(file);
+    setValue(`tracks.${index}.audio_format`, format);
+    trigger(`tracks.${index}.music_file`);
+    if (wavFormatProblem(format)) return;
+
+    // The artist sees the loudness report straight away; saving reuses it instead of measuring again
+    setAnalysing(true);
+    try {
+      const analysis = await analyzeAudio(file);
+      if (getValues(`tracks.${index}.music_file`)?.[0] === file) setValue(`tracks.${index}.audio_analysis`, analysis);
+    } catch (error) {
+      console.error("Error analysing audio:", error);
+    } finally {
+      setAnalysing(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Track {index + 1}</span>
+        <div className="flex gap-1">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(index, index - 1)}
+            disabled={index === 0}
+            title="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onMove(index, index + 1)}
+            disabled={index === count - 1}
+            title="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove(index)}
+            disabled={count === 1}
+            className="text-destructive"
+            title="Remove track"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <FormField
+        control={control}
+        name={`tracks.${index}.title`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Title</FormLabel>
+            <FormControl>
+              <Input placeholder="My Awesome Song" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      {parentTrackId && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={control}
+            name={`tracks.${index}.version_type`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Version Type</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a version type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {VERSION_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{VERSION_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`tracks.${index}.version_title`}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Version Title (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="DJ Snake Remix" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+      )}
+      <FormField
+        control={control}
+        name={`tracks.${index}.is_cover`}
+        render={({ field }) => (
+          <FormItem className="flex items-start gap-2 space-y-0">
+            <FormControl>
+              <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+            </FormControl>
+            <div className="space-y-1 leading-none">
+              <FormLabel className="font-normal">Cover song</FormLabel>
+              <FormDescription>A new recording of a song written by someone else.</FormDescription>
+            </div>
+          </FormItem>
+        )}
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name={`tracks.${index}.primary_genre_id`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Primary Genre</FormLabel>
+              <FormControl>
+                <GenrePicker value={field.value} onChange={field.onChange} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`tracks.${index}.secondary_genre_id`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Secondary Genre (Optional)</FormLabel>
+              <FormControl>
+                <GenrePicker value={field.value} onChange={field.onChange} placeholder="None" clearable />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem] gap-4">
+        <FormField
+          control={control}
+          name={`tracks.${index}.isrc`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>ISRC (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="US-RC1-76-07839" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`tracks.${index}.disc_number`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Disc</FormLabel>
+              <FormControl>
+                <Input type="number" min={1} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <FormField
+          control={control}
+          name={`tracks.${index}.parental_advisory`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Parental Advisory</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {PARENTAL_ADVISORIES.map((advisory) => (
+                    <SelectItem key={advisory} value={advisory}>{PARENTAL_ADVISORY_LABELS[advisory]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`tracks.${index}.language_code`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Audio Language</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a language" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {TRACK_LANGUAGES.map((language) => (
+                    <SelectItem key={language.code} value={language.code}>{language.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`tracks.${index}.copyright_line`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>© Copyright Line</FormLabel>
+              <FormControl>
+                <Input placeholder={`${new Date().getFullYear()} Spillrix Records`} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={control}
+          name={`tracks.${index}.phonographic_line`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>℗ Phonographic Line</FormLabel>
+              <FormControl>
+                <Input placeholder={`${new Date().getFullYear()} Spillrix Records`} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+      <FormField
+        control={control}
+        name={`tracks.${index}.label_name`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Label / Imprint</FormLabel>
+            <FormControl>
+              <Input placeholder="Spillrix Records" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <LyricsFields control={control} index={index} />
+      <CreditsFields control={control} trackIndex={index} />
+      <SplitsFields control={control} trackIndex={index} />
+      <FormField
+        control={control}
+        name={`tracks.${index}.music_file`}
+        render={({ field: { onChange, value, ...rest } }) => (
+          <FormItem>
+            <FormLabel>
+              Music File (WAV, 16 or 24-bit, 44.1 or 48 kHz, stereo){hasExistingFile ? " — leave empty to keep the current file" : ""}
+            </FormLabel>
+            <FormControl>
+              <Input type="file" accept="audio/wav" onChange={(e) => selectMusicFile(e.target.files, onChange)} {...rest} />
+            </FormControl>
+            {audioFormat && <FormDescription>Detected {describeWavFormat(audioFormat)}</FormDescription>}
+            {analysing && (
+              <FormDescription className="flex items-center gap-1">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Measuring loudness and checking audio…
+              </FormDescription>
+            )}
+            {audioAnalysis && <LoudnessSummary report={audioAnalysis.loudness} />}
+            {audioAnalysis && <QcBadge report={audioAnalysis.qc} />}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { Check, HandCoins, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { SPLIT_STATUS_LABELS } from "@/lib/splits";
+
+export type SplitInvitation = Database["public"]["Functions"]["get_my_split_invitations"]["Returns"][number];
+
+interface SplitInvitationsProps {
+  invitations: SplitInvitation[];
+  onResponded?: () => void;
+}
+
+export function SplitInvitations({ invitations, onResponded }: SplitInvitationsProps) {
+  const [disputingId, setDisputingId] = useState<string | null>(null);
+  const [reason, setReason] = useState("");
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  const respond = async (splitId: string, accept: boolean) => {
+    setSubmittingId(splitId);
+    try {
+      const { error } = await supabase.rpc("respond_to_split", {
+        p_split_id: splitId,
+        p_accept: accept,
+        p_reason: accept ? null : reason,
+      });
+      if (error) throw error;
+
+      toast({
+        title: accept ? "Split Accepted" : "Split Disputed",
+        description: accept ? "Thanks! The uploader has been notified." : "The uploader will review your dispute.",
+      });
+      setDisputingId(null);
+      setReason("");
+      onResponded?.();
+    } catch (error) {
+      console.error("Error responding to split:", error);
+      toast({
+        title: "Response Failed",
+        description: error instanceof Error ? error.message : "Failed to respond to split",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  if (invitations.length === 0) return null;
+
+  return (
+    <Card className="card-modern">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HandCoins className="h-5 w-5" />
+          Split Invitations ({invitations.filter((invitation) => invitation.status === "invited").length} open)
+        </CardTitle>
+        <CardDescription>
+          Royalty shares other artists have offered you. Accept or dispute each one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="mobile-table">
+          <div className="mobile-table-content">
+            <Table className="min-w-[700px] lg:min-w-full">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Track</TableHead>
+                  <TableHead>Release</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Share</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invitations.map((invitation) => (
+                  <TableRow key={invitation.id}>
+                    <TableCell className="font-medium">{invitation.track_title}</TableCell>
+                    <TableCell>{invitation.release_title}</TableCell>
+                    <TableCell>{invitation.owner_name}</TableCell>
+                    <TableCell>{Number(invitation.share)}%</TableCell>
+                    <TableCell>
+                      <Badge variant={invitation.status === "disputed" ? "destructive" : "outline"}>
+                        {SPLIT_STATUS_LABELS[invitation.status] ?? invitation.status}
+                      </Badge>
+                      {invitation.dispute_reason ? (
+                        <p className="text-xs text-muted-foreground mt-1">{invitation.dispute_reason}</p>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {disputingId === invitation.id ? (
+                        <div className="space-y-2 min-w-[220px]">
+                          <Textarea
+                            placeholder="Why is this share incorrect?"
+                            value={reason}
+                            onChange={(e) => setReason(e.target.value)}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button size="sm" variant="ghost" onClick={() => setDisputingId(null)}>
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              disabled={!reason.trim() || submittingId === invitation.id}
+                              onClick={() => respond(invitation.id, false)}
+                            >
+                              Send Dispute
+                            </Button>
+                          </div>
+                        </div>
+                      ) : invitation.status !== "accepted" ? (
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={submittingId === invitation.id}
+                            onClick={() => respond(invitation.id, true)}
+                            className="text-success hover:bg-success hover:text-success-foreground touch-target"
+                            title="Accept"
+                          >
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          {invitation.status !== "disputed" && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setDisputingId(invitation.id)}
+                              className="text-destructive hover:bg-destructive hover:text-destructive-foreground touch-target"
+                              title="Dispute"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Genre } from '@/lib/genres';
+
+export const GENRES_QUERY_KEY = ['genres'];
+
+export function useGenres() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: GENRES_QUERY_KEY,
+    queryFn: async (): Promise<Genre[]> => {
+      const { data, error } = await supabase.from('genres').select('*').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return { genres: data ?? [], isLoading, error };
+}
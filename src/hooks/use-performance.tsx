@@ -20,8 +20,14 @@ declare global {
   }
 }
 
+// Fast enough to stream lossless audio without stalling; Data Saver always counts as slow
+function isFastNetwork(connection?: NetworkInformation) {
+  return connection?.effectiveType === '4g' && connection.downlink >= 10 && !connection.saveData;
+}
+
 export function usePerformance() {
   const [isSlowConnection, setIsSlowConnection] = useState(false);
+  const [isFastConnection, setIsFastConnection] = useState(() => isFastNetwork(navigator.connection));
 
   useEffect(() => {
     // Check network information if available
@@ -33,6 +39,7 @@ export function usePerformance() {
         const isSlow = slowConnectionTypes.includes(connection.effectiveType) || 
                       connection.downlink < 1.5;
         setIsSlowConnection(isSlow);
+        setIsFastConnection(isFastNetwork(connection));
       };
 
       checkConnection();
@@ -44,7 +51,7 @@ export function usePerformance() {
     }
   }, []);
 
-  return { isSlowConnection };
+  return { isSlowConnection, isFastConnection };
 }
 
 export function usePrefersReducedMotion() {
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Store } from '@/lib/delivery';
+
+export const STORES_QUERY_KEY = ['stores'];
+
+export function useStores() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: STORES_QUERY_KEY,
+    queryFn: async (): Promise<Store[]> => {
+      const { data, error } = await supabase.from('stores').select('*').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  return { stores: data ?? [], isLoading, error };
+}
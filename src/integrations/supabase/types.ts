@@ -14,6 +14,322 @@ export type Database = {
   }
   public: {
     Tables: {
+      ddex_settings: {
+        Row: {
+          id: boolean
+          recipient_dpid: string
+          recipient_name: string
+          sender_dpid: string
+          sender_name: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          recipient_dpid: string
+          recipient_name: string
+          sender_dpid: string
+          sender_name: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          recipient_dpid?: string
+          recipient_name?: string
+          sender_dpid?: string
+          sender_name?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ddex_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      delivery_events: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          message: string | null
+          release_id: string
+          status: string
+          store_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message?: string | null
+          release_id: string
+          status: string
+          store_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message?: string | null
+          release_id?: string
+          status?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_events_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "delivery_events_release_id_store_id_fkey"
+            columns: ["release_id", "store_id"]
+            isOneToOne: false
+            referencedRelation: "release_stores"
+            referencedColumns: ["release_id", "store_id"]
+          }
+        ]
+      }
+      delivery_jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          progress: Json
+          release_id: string
+          run_after: string
+          status: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          progress?: Json
+          release_id: string
+          run_after?: string
+          status?: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          progress?: Json
+          release_id?: string
+          run_after?: string
+          status?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_jobs_release_id_store_id_fkey"
+            columns: ["release_id", "store_id"]
+            isOneToOne: false
+            referencedRelation: "release_stores"
+            referencedColumns: ["release_id", "store_id"]
+          }
+        ]
+      }
+      delivery_targets: {
+        Row: {
+          active: boolean
+          bucket: string | null
+          created_at: string
+          host: string | null
+          id: string
+          path_prefix: string
+          port: number | null
+          protocol: string
+          region: string | null
+          secret_env: string
+          store_id: string
+          updated_at: string
+          username: string | null
+        }
+        Insert: {
+          active?: boolean
+          bucket?: string | null
+          created_at?: string
+          host?: string | null
+          id?: string
+          path_prefix?: string
+          port?: number | null
+          protocol: string
+          region?: string | null
+          secret_env: string
+          store_id: string
+          updated_at?: string
+          username?: string | null
+        }
+        Update: {
+          active?: boolean
+          bucket?: string | null
+          created_at?: string
+          host?: string | null
+          id?: string
+          path_prefix?: string
+          port?: number | null
+          protocol?: string
+          region?: string | null
+          secret_env?: string
+          store_id?: string
+          updated_at?: string
+          username?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_targets_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: true
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      genres: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "genres_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      isrc_counters: {
+        Row: {
+          last_designation: number
+          prefix: string
+          year_code: string
+        }
+        Insert: {
+          last_designation: number
+          prefix: string
+          year_code: string
+        }
+        Update: {
+          last_designation?: number
+          prefix?: string
+          year_code?: string
+        }
+        Relationships: []
+      }
+      isrc_settings: {
+        Row: {
+          country_code: string
+          id: boolean
+          registrant_code: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          country_code: string
+          id?: boolean
+          registrant_code: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          country_code?: string
+          id?: boolean
+          registrant_code?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "isrc_settings_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      issued_isrcs: {
+        Row: {
+          isrc: string
+          issued_at: string
+          issued_by: string | null
+          track_id: string | null
+        }
+        Insert: {
+          isrc: string
+          issued_at?: string
+          issued_by?: string | null
+          track_id?: string | null
+        }
+        Update: {
+          isrc?: string
+          issued_at?: string
+          issued_by?: string | null
+          track_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "issued_isrcs_issued_by_fkey"
+            columns: ["issued_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "issued_isrcs_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       profiles: {
         Row: {
           created_at: string | null
@@ -44,48 +360,416 @@ export type Database = {
         }
         Relationships: []
       }
+      release_stores: {
+        Row: {
+          release_id: string
+          status: string | null
+          status_message: string | null
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          release_id: string
+          status?: string | null
+          status_message?: string | null
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          release_id?: string
+          status?: string | null
+          status_message?: string | null
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "release_stores_release_id_fkey"
+            columns: ["release_id"]
+            isOneToOne: false
+            referencedRelation: "releases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "release_stores_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      releases: {
+        Row: {
+          artist_id: string
+          cover_art_url: string | null
+          created_at: string
+          id: string
+          preorder_date: string | null
+          release_date: string | null
+          release_timezone: string
+          release_timing: string
+          release_type: string
+          status: string
+          submitted_at: string | null
+          territories: string[]
+          territory_mode: string
+          title: string
+          upc: string | null
+          updated_at: string
+        }
+        Insert: {
+          artist_id: string
+          cover_art_url?: string | null
+          created_at?: string
+          id?: string
+          preorder_date?: string | null
+          release_date?: string | null
+          release_timezone?: string
+          release_timing?: string
+          release_type?: string
+          status?: string
+          submitted_at?: string | null
+          territories?: string[]
+          territory_mode?: string
+          title: string
+          upc?: string | null
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string
+          cover_art_url?: string | null
+          created_at?: string
+          id?: string
+          preorder_date?: string | null
+          release_date?: string | null
+          release_timezone?: string
+          release_timing?: string
+          release_type?: string
+          status?: string
+          submitted_at?: string | null
+          territories?: string[]
+          territory_mode?: string
+          title?: string
+          upc?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "releases_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      stores: {
+        Row: {
+          active: boolean
+          created_at: string
+          dpid: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          dpid?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          dpid?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      track_credits: {
+        Row: {
+          created_at: string
+          id: string
+          is_primary: boolean
+          name: string
+          position: number
+          profile_id: string | null
+          role: string
+          track_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          name: string
+          position?: number
+          profile_id?: string | null
+          role: string
+          track_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          name?: string
+          position?: number
+          profile_id?: string | null
+          role?: string
+          track_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_credits_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "track_credits_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      track_revisions: {
+        Row: {
+          cover_art_url: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          music_file_url: string | null
+          reason: string
+          restored_from: number | null
+          revision_number: number
+          snapshot: Json
+          track_id: string
+        }
+        Insert: {
+          cover_art_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          music_file_url?: string | null
+          reason?: string
+          restored_from?: number | null
+          revision_number: number
+          snapshot: Json
+          track_id: string
+        }
+        Update: {
+          cover_art_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          music_file_url?: string | null
+          reason?: string
+          restored_from?: number | null
+          revision_number?: number
+          snapshot?: Json
+          track_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "track_revisions_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      track_splits: {
+        Row: {
+          collaborator_email: string
+          collaborator_name: string
+          created_at: string
+          dispute_reason: string | null
+          id: string
+          profile_id: string | null
+          responded_at: string | null
+          share: number
+          status: string
+          track_id: string
+        }
+        Insert: {
+          collaborator_email: string
+          collaborator_name: string
+          created_at?: string
+          dispute_reason?: string | null
+          id?: string
+          profile_id?: string | null
+          responded_at?: string | null
+          share: number
+          status?: string
+          track_id: string
+        }
+        Update: {
+          collaborator_email?: string
+          collaborator_name?: string
+          created_at?: string
+          dispute_reason?: string | null
+          id?: string
+          profile_id?: string | null
+          responded_at?: string | null
+          share?: number
+          status?: string
+          track_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "track_splits_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "track_splits_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
       tracks: {
         Row: {
           artist_id: string | null
+          bit_depth: number | null
+          channel_count: number | null
           command: string | null
-          cover_art_url: string | null
+          copyright_line: string | null
           created_at: string | null
+          disc_number: number
           duration: number | null
-          genre: string | null
+          file_size: number | null
           id: string
+          integrated_loudness_lufs: number | null
+          is_cover: boolean
+          isrc: string | null
+          label_name: string | null
+          language_code: string | null
+          legacy_identifier: string | null
+          loudness_range_lu: number | null
+          lyrics: string | null
           music_file_url: string | null
+          parent_track_id: string | null
+          parental_advisory: string
+          peaks_file_url: string | null
+          phonographic_line: string | null
+          preview_file_url: string | null
+          primary_genre_id: string | null
+          qc_report: Json | null
+          qc_status: string | null
+          release_id: string | null
+          sample_rate: number | null
+          secondary_genre_id: string | null
+          spectral_cutoff_hz: number | null
           status: string | null
+          synced_lyrics: string | null
           title: string
-          upc_irsc: string | null
+          track_number: number | null
+          true_peak_dbtp: number | null
           upload_date: string | null
+          version_title: string | null
+          version_type: string | null
+          wav_validated: boolean
         }
         Insert: {
           artist_id?: string | null
+          bit_depth?: number | null
+          channel_count?: number | null
           command?: string | null
-          cover_art_url?: string | null
+          copyright_line?: string | null
           created_at?: string | null
+          disc_number?: number
           duration?: number | null
-          genre?: string | null
+          file_size?: number | null
           id?: string
+          integrated_loudness_lufs?: number | null
+          is_cover?: boolean
+          isrc?: string | null
+          label_name?: string | null
+          language_code?: string | null
+          legacy_identifier?: string | null
+          loudness_range_lu?: number | null
+          lyrics?: string | null
           music_file_url?: string | null
+          parent_track_id?: string | null
+          parental_advisory?: string
+          peaks_file_url?: string | null
+          phonographic_line?: string | null
+          preview_file_url?: string | null
+          primary_genre_id?: string | null
+          qc_report?: Json | null
+          qc_status?: string | null
+          release_id?: string | null
+          sample_rate?: number | null
+          secondary_genre_id?: string | null
+          spectral_cutoff_hz?: number | null
           status?: string | null
+          synced_lyrics?: string | null
           title: string
-          upc_irsc?: string | null
+          track_number?: number | null
+          true_peak_dbtp?: number | null
           upload_date?: string | null
+          version_title?: string | null
+          version_type?: string | null
+          wav_validated?: boolean
         }
         Update: {
           artist_id?: string | null
+          bit_depth?: number | null
+          channel_count?: number | null
           command?: string | null
-          cover_art_url?: string | null
+          copyright_line?: string | null
           created_at?: string | null
+          disc_number?: number
           duration?: number | null
-          genre?: string | null
+          file_size?: number | null
           id?: string
+          integrated_loudness_lufs?: number | null
+          is_cover?: boolean
+          isrc?: string | null
+          label_name?: string | null
+          language_code?: string | null
+          legacy_identifier?: string | null
+          loudness_range_lu?: number | null
+          lyrics?: string | null
           music_file_url?: string | null
+          parent_track_id?: string | null
+          parental_advisory?: string
+          peaks_file_url?: string | null
+          phonographic_line?: string | null
+          preview_file_url?: string | null
+          primary_genre_id?: string | null
+          qc_report?: Json | null
+          qc_status?: string | null
+          release_id?: string | null
+          sample_rate?: number | null
+          secondary_genre_id?: string | null
+          spectral_cutoff_hz?: number | null
           status?: string | null
+          synced_lyrics?: string | null
           title?: string
-          upc_irsc?: string | null
+          track_number?: number | null
+          true_peak_dbtp?: number | null
           upload_date?: string | null
+          version_title?: string | null
+          version_type?: string | null
+          wav_validated?: boolean
         }
         Relationships: [
           {
@@ -94,18 +778,207 @@ export type Database = {
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracks_release_id_fkey"
+            columns: ["release_id"]
+            isOneToOne: false
+            referencedRelation: "releases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracks_primary_genre_id_fkey"
+            columns: ["primary_genre_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracks_secondary_genre_id_fkey"
+            columns: ["secondary_genre_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracks_parent_track_id_fkey"
+            columns: ["parent_track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
           }
         ]
       }
+      wav_validations: {
+        Row: {
+          bit_depth: number
+          channel_count: number
+          path: string
+          sample_rate: number
+          validated_at: string
+        }
+        Insert: {
+          bit_depth: number
+          channel_count: number
+          path: string
+          sample_rate: number
+          validated_at?: string
+        }
+        Update: {
+          bit_depth?: number
+          channel_count?: number
+          path?: string
+          sample_rate?: number
+          validated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assign_isrc: {
+        Args: {
+          p_track_id: string
+        }
+        Returns: string
+      }
+      claim_delivery_job: {
+        Args: {
+          p_worker: string
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          progress: Json
+          release_id: string
+          run_after: string
+          status: string
+          store_id: string
+          updated_at: string
+        }[]
+      }
+      find_profile_id: {
+        Args: {
+          p_email: string
+        }
+        Returns: string
+      }
+      finish_delivery_job: {
+        Args: {
+          p_error?: string
+          p_job_id: string
+          p_permanent?: boolean
+          p_worker: string
+        }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          locked_by: string | null
+          max_attempts: number
+          progress: Json
+          release_id: string
+          run_after: string
+          status: string
+          store_id: string
+          updated_at: string
+        }
+      }
+      genre_slug: {
+        Args: {
+          name: string
+        }
+        Returns: string
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_my_split_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          created_at: string
+          dispute_reason: string
+          id: string
+          owner_name: string
+          release_title: string
+          share: number
+          status: string
+          track_title: string
+        }[]
+      }
+      heartbeat_delivery_job: {
+        Args: {
+          p_job_id: string
+          p_worker: string
+        }
+        Returns: boolean
+      }
+      is_valid_gtin: {
+        Args: {
+          code: string
+        }
+        Returns: boolean
+      }
+      qc_report_status: {
+        Args: {
+          report: Json
+        }
+        Returns: string
+      }
+      record_track_revision: {
+        Args: {
+          p_reason?: string
+          p_restored_from?: number
+          p_track_id: string
+        }
+        Returns: undefined
+      }
+      record_wav_validation: {
+        Args: {
+          p_bit_depth: number
+          p_channel_count: number
+          p_path: string
+          p_sample_rate: number
+        }
+        Returns: undefined
+      }
+      respond_to_split: {
+        Args: {
+          p_accept: boolean
+          p_reason?: string
+          p_split_id: string
+        }
+        Returns: undefined
+      }
+      restore_track_revision: {
+        Args: {
+          p_revision_id: string
+        }
+        Returns: undefined
+      }
+      save_release: {
+        Args: {
+          p_credits: Json
+          p_release: Json
+          p_release_id: string
+          p_splits: Json
+          p_store_ids: string[]
+          p_tracks: Json
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
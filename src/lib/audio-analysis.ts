@@ -0,0 +1,83 @@
+import type { Json } from "@/integrations/supabase/types";
+import { QcReport, qcStatus } from "@/lib/audio-qc";
+import { LoudnessReport } from "@/lib/loudness";
+import { Spectrogram } from "@/lib/spectrum";
+import { WaveformPeaks } from "@/lib/waveform";
+
+/**
+ * Everything measured from an upload's samples, computed once in the browser and stored on the track
+ */
+export interface AudioAnalysis {
+  loudness: LoudnessReport;
+  waveform: WaveformPeaks;
+  qc: QcReport;
+  // Highest frequency with content before a lowpass edge, in Hz
+  spectralCutoff: number | null;
+}
+
+export type AnalysisResponse = { analysis: AudioAnalysis; error?: undefined } | { analysis?: undefined; error: string };
+
+export type PreviewResponse = { preview: Blob; error?: undefined } | { preview?: undefined; error: string };
+
+export type SpectrogramResponse =
+  | { spectrogram: Spectrogram; error?: undefined }
+  | { spectrogram?: undefined; error: string };
+
+// Posts the file to a fresh worker and settles with its single reply
+function runWorker<T extends { error?: string }>(worker: Worker, file: Blob, fallbackError: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<T>) => {
+      worker.terminate();
+      if (event.data.error !== undefined) reject(new Error(event.data.error));
+      else resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || fallbackError));
+    };
+    worker.postMessage(file);
+  });
+}
+
+/**
+ * Analyses a WAV in a Web Worker; a 10-minute master takes a few seconds
+ */
+export async function analyzeAudio(file: File): Promise<AudioAnalysis> {
+  const worker = new Worker(new URL("../workers/audio-analysis.worker.ts", import.meta.url), { type: "module" });
+  const { analysis } = await runWorker<AnalysisResponse>(worker, file, "The audio could not be analysed.");
+  return analysis;
+}
+
+/**
+ * Encodes a WAV to the MP3 players stream by default; roughly 5 seconds of work per minute of audio
+ */
+export async function encodePreview(file: File): Promise<Blob> {
+  const worker = new Worker(new URL("../workers/mp3-preview.worker.ts", import.meta.url), { type: "module" });
+  const { preview } = await runWorker<PreviewResponse>(worker, file, "The preview could not be encoded.");
+  return preview;
+}
+
+/**
+ * Computes a spectrogram of a WAV in a Web Worker, for reviewers checking the source wasn't lossy
+ */
+export async function computeSpectrogram(file: Blob): Promise<Spectrogram> {
+  const worker = new Worker(new URL("../workers/spectrogram.worker.ts", import.meta.url), { type: "module" });
+  const { spectrogram } = await runWorker<SpectrogramResponse>(worker, file, "The spectrogram could not be computed.");
+  return spectrogram;
+}
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 10) / 10);
+
+/**
+ * Track columns holding an analysis, to the precision reviewers read them at
+ */
+export function analysisColumns({ loudness, qc, spectralCutoff }: AudioAnalysis) {
+  return {
+    integrated_loudness_lufs: round(loudness.integrated),
+    loudness_range_lu: round(loudness.range),
+    true_peak_dbtp: round(loudness.truePeak),
+    qc_report: qc as unknown as Json,
+    qc_status: qcStatus(qc),
+    spectral_cutoff_hz: spectralCutoff,
+  };
+}
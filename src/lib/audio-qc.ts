@@ -0,0 +1,144 @@
+/**
+ * Automated technical checks on an upload's samples, run alongside the loudness measurement
+ */
+
+export interface QcReport {
+  // Seconds before the first and after the last sample above the silence threshold
+  leadingSilence: number;
+  trailingSilence: number;
+  // Runs of consecutive samples at full scale in any channel, and the longest run in samples
+  clippedRuns: number;
+  longestClippedRun: number;
+  // Mean sample value of each channel, as a fraction of full scale
+  dcOffset: number[];
+  // Pearson correlation between left and right; null for mono or a silent channel
+  correlation: number | null;
+  // Left and right carry the same samples, i.e. mono saved as stereo
+  identicalChannels: boolean;
+}
+
+export type QcStatus = "passed" | "failed";
+
+// −60 dBFS; quieter samples count as silence
+const SILENCE_LEVEL = 0.001;
+export const MAX_LEADING_SILENCE_SECONDS = 2;
+export const MAX_TRAILING_SILENCE_SECONDS = 10;
+// Within 0.001 dB of full scale, so the top code of any bit depth counts
+const CLIP_LEVEL = 0.9999;
+// Single full-scale samples happen in clean masters; three in a row means the waveform was flattened
+const MIN_CLIPPED_RUN = 3;
+// −46 dBFS
+const DC_OFFSET_LIMIT = 0.005;
+// Side energy this far below the total is dither at most, not stereo content
+const IDENTICAL_SIDE_RATIO = 1e-9;
+// Channels this anticorrelated largely cancel when summed to mono
+const PHASE_CORRELATION_LIMIT = -0.5;
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Collects the checks incrementally; feed it every block of samples in order, then read the report
+ */
+export function createQcCollector(sampleRate: number, channels: number) {
+  const sums = new Float64Array(channels);
+  const runs = new Uint32Array(channels);
+  let clippedRuns = 0;
+  let longestClippedRun = 0;
+  let firstAudible = -1;
+  let lastAudible = -1;
+  let position = 0;
+  let leftEnergy = 0;
+  let rightEnergy = 0;
+  let crossEnergy = 0;
+  let sideEnergy = 0;
+
+  const endRun = (channel: number) => {
+    if (runs[channel] >= MIN_CLIPPED_RUN) {
+      clippedRuns++;
+      longestClippedRun = Math.max(longestClippedRun, runs[channel]);
+    }
+    runs[channel] = 0;
+  };
+
+  const push = (block: Float32Array[]) => {
+    for (let frame = 0; frame < block[0].length; frame++, position++) {
+      let peak = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        const sample = block[channel][frame];
+        const level = Math.abs(sample);
+        sums[channel] += sample;
+        if (level > peak) peak = level;
+        if (level >= CLIP_LEVEL) runs[channel]++;
+        else if (runs[channel] > 0) endRun(channel);
+      }
+      if (peak > SILENCE_LEVEL) {
+        if (firstAudible < 0) firstAudible = position;
+        lastAudible = position;
+      }
+      if (channels === 2) {
+        const left = block[0][frame];
+        const right = block[1][frame];
+        leftEnergy += left * left;
+        rightEnergy += right * right;
+        crossEnergy += left * right;
+        sideEnergy += (left - right) * (left - right);
+      }
+    }
+  };
+
+  const report = (): QcReport => {
+    for (let channel = 0; channel < channels; channel++) endRun(channel);
+    const audible = firstAudible >= 0;
+    const stereo = channels === 2 && leftEnergy > 0 && rightEnergy > 0;
+    return {
+      leadingSilence: round((audible ? firstAudible : position) / sampleRate, 2),
+      trailingSilence: round(audible ? (position - 1 - lastAudible) / sampleRate : 0, 2),
+      clippedRuns,
+      longestClippedRun,
+      dcOffset: Array.from(sums, (sum) => round(position > 0 ? sum / position : 0, 5)),
+      correlation: stereo ? round(crossEnergy / Math.sqrt(leftEnergy * rightEnergy), 3) : null,
+      identicalChannels: stereo && sideEnergy <= IDENTICAL_SIDE_RATIO * (leftEnergy + rightEnergy),
+    };
+  };
+
+  return { push, report };
+}
+
+const channelName = (channel: number, channels: number) =>
+  channels === 2 ? ["left", "right"][channel] : `channel ${channel + 1}`;
+
+export const formatSigned = (value: number, digits: number) => value.toFixed(digits).replace("-", "−");
+
+// The database derives a track's qc_status with the same limits, in public.qc_report_status
+export function qcIssues(report: QcReport): string[] {
+  const issues: string[] = [];
+  if (report.leadingSilence > MAX_LEADING_SILENCE_SECONDS) {
+    issues.push(`${report.leadingSilence.toFixed(1)} s of silence at the start (over ${MAX_LEADING_SILENCE_SECONDS} s).`);
+  }
+  if (report.trailingSilence > MAX_TRAILING_SILENCE_SECONDS) {
+    issues.push(`${report.trailingSilence.toFixed(1)} s of silence at the end (over ${MAX_TRAILING_SILENCE_SECONDS} s).`);
+  }
+  if (report.clippedRuns > 0) {
+    issues.push(
+      `${report.clippedRuns} ${report.clippedRuns === 1 ? "run" : "runs"} of clipped samples, the longest ${report.longestClippedRun} samples.`
+    );
+  }
+  report.dcOffset.forEach((offset, channel) => {
+    if (Math.abs(offset) > DC_OFFSET_LIMIT) {
+      const level = formatSigned(20 * Math.log10(Math.abs(offset)), 1);
+      issues.push(`DC offset of ${level} dBFS on the ${channelName(channel, report.dcOffset.length)} channel.`);
+    }
+  });
+  if (report.identicalChannels) {
+    issues.push("Left and right channels are identical: this is mono saved as stereo.");
+  } else if (report.correlation !== null && report.correlation < PHASE_CORRELATION_LIMIT) {
+    issues.push(
+      `Channels are out of phase (correlation ${formatSigned(report.correlation, 2)}); one may be inverted, and the track cancels out in mono.`
+    );
+  }
+  return issues;
+}
+
+export function qcStatus(report: QcReport): QcStatus {
+  return qcIssues(report).length > 0 ? "failed" : "passed";
+}
@@ -0,0 +1,12 @@
+/**
+ * Reads an audio file's duration from its metadata without downloading the whole file
+ */
+export function measureAudioDuration(src: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => resolve(audio.duration);
+    audio.onerror = () => reject(new Error("Could not read the audio duration"));
+    audio.src = src;
+  });
+}
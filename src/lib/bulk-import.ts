@@ -0,0 +1,399 @@
+import { readSheet } from "read-excel-file/browser";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { parseCsv } from "@/lib/csv";
+import { Genre, genreSlug } from "@/lib/genres";
+import { normalizeIdentifier } from "@/lib/identifiers";
+import { RELEASE_TRACK_LIMITS, RELEASE_TYPES, ReleaseType, numberTracklist } from "@/lib/releases";
+import { ReleaseFormValues, TrackFormValues, newTrack, releaseFormSchema } from "@/lib/release-schema";
+import { earliestReleaseDate, fromDateColumn, toDateColumn } from "@/lib/release-schedule";
+import { artistFilePath, uploadArtistFile, uploadMusicFile, uploadPreview, uploadWaveformPeaks } from "@/lib/storage-utils";
+import { WavFormat, audioFileColumns } from "@/lib/wav";
+import { analysisColumns, analyzeAudio, encodePreview } from "@/lib/audio-analysis";
+import { TRACK_LANGUAGES, normalizeRightsLine } from "@/lib/track-metadata";
+
+// Accepted header spellings for each manifest column, compared without case, spaces or punctuation
+export const MANIFEST_COLUMNS = {
+  title: ["title", "tracktitle", "track"],
+  genre: ["genre", "primarygenre"],
+  isrc: ["isrc"],
+  file: ["file", "filename", "audiofile", "wav", "wavfile"],
+  artwork: ["artwork", "artworkfile", "artworkfilename", "coverart", "coverartfile"],
+  release: ["release", "releasetitle", "album"],
+  release_type: ["releasetype", "type"],
+  upc: ["upc", "ean", "upcean"],
+  release_date: ["releasedate", "date"],
+  artist: ["artist", "primaryartist"],
+  language: ["language", "languagecode"],
+  explicit: ["explicit", "parentaladvisory"],
+  label: ["label", "labelname", "imprint"],
+  copyright: ["copyright", "cline", "copyrightline"],
+  phonographic: ["phonographic", "pline", "phonographicline"],
+  disc: ["disc", "discnumber"],
+  is_cover: ["coversong", "iscover"],
+} as const;
+
+export type ManifestField = keyof typeof MANIFEST_COLUMNS;
+
+export const REQUIRED_MANIFEST_COLUMNS: ManifestField[] = ["title", "genre", "file"];
+
+export interface ManifestRow {
+  // Spreadsheet line number, counting the header as line 1
+  line: number;
+  values: Partial<Record<ManifestField, string>>;
+}
+
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+export interface ImportGroup {
+  // Stable across sessions, so a re-selected manifest resumes where the last import stopped
+  key: string;
+  title: string;
+  lines: number[];
+  values: ReleaseFormValues;
+  artwork?: File;
+  issues: ImportIssue[];
+}
+
+// Ids reserved for a group before its first write, so retrying updates the same rows
+export interface ImportProgress {
+  releaseId: string;
+  trackIds: string[];
+  done: boolean;
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function cellText(cell: unknown): string {
+  if (cell instanceof Date) return format(cell, "yyyy-MM-dd");
+  return cell === null || cell === undefined ? "" : String(cell).trim();
+}
+
+/**
+ * Reads a CSV or Excel manifest into rows keyed by manifest column; throws when a required column is missing
+ */
+export async function readManifest(file: File): Promise<ManifestRow[]> {
+  const table = /\.xlsx$/i.test(file.name)
+    ? (await readSheet(file)).map((cells) => cells.map(cellText))
+    : parseCsv(await file.text()).map((cells) => cells.map(cellText));
+  if (table.length === 0) throw new Error("The manifest is empty.");
+
+  const columns = table[0].map((header) => {
+    const key = headerKey(header);
+    return (Object.keys(MANIFEST_COLUMNS) as ManifestField[]).find((field) =>
+      (MANIFEST_COLUMNS[field] as readonly string[]).includes(key)
+    );
+  });
+  const missing = REQUIRED_MANIFEST_COLUMNS.filter((field) => !columns.includes(field));
+  if (missing.length > 0) throw new Error(`The manifest needs these columns: ${missing.join(", ")}.`);
+
+  return table.slice(1).map((cells, index) => {
+    const values: ManifestRow["values"] = {};
+    columns.forEach((field, column) => {
+      if (field && cells[column]) values[field] = cells[column];
+    });
+    return { line: index + 2, values };
+  });
+}
+
+function findGenre(genres: Genre[], name: string): Genre | undefined {
+  const slug = genreSlug(name.split(/[›>/]/).pop() ?? name);
+  return genres.find((genre) => genreSlug(genre.name) === slug || genre.aliases.some((alias) => genreSlug(alias) === slug));
+}
+
+function findLanguage(value: string): string {
+  const lower = value.toLowerCase();
+  return TRACK_LANGUAGES.find((language) => language.code === lower || language.label.toLowerCase() === lower)?.code ?? value;
+}
+
+function parentalAdvisory(value = ""): TrackFormValues["parental_advisory"] {
+  if (/^(y|yes|true|1|explicit)$/i.test(value)) return "explicit";
+  return /^clean$/i.test(value) ? "clean" : "not_explicit";
+}
+
+// The smallest release type that fits the tracklist
+function releaseTypeFor(value: string | undefined, trackCount: number): ReleaseType {
+  const named = RELEASE_TYPES.find((type) => type === value?.toLowerCase());
+  if (named) return named;
+  return RELEASE_TYPES.find((type) => trackCount <= RELEASE_TRACK_LIMITS[type].max) ?? "album";
+}
+
+// Which manifest column a form field came from, for readable row errors
+const FIELD_COLUMNS: Record<string, ManifestField> = {
+  release_title: "release",
+  release_type: "release_type",
+  upc: "upc",
+  release_date: "release_date",
+  title: "title",
+  primary_genre_id: "genre",
+  isrc: "isrc",
+  music_file: "file",
+  language_code: "language",
+  copyright_line: "copyright",
+  phonographic_line: "phonographic",
+  label_name: "label",
+  disc_number: "disc",
+  credits: "artist",
+};
+
+interface PlanContext {
+  genres: Genre[];
+  artistName?: string;
+  storeIds: string[];
+  // WAV headers read from the selected files, by file name
+  audioFormats: Record<string, WavFormat | null>;
+}
+
+/**
+ * Groups manifest rows into releases (rows sharing a release title, otherwise one single per row), matches their
+ * files from the dropped folder and validates each release with the same schema as the release form
+ */
+export function planImport(rows: ManifestRow[], files: File[], { genres, artistName, storeIds, audioFormats }: PlanContext): ImportGroup[] {
+  const filesByName = new Map<string, File>();
+  files.forEach((file) => {
+    if (!filesByName.has(file.name.toLowerCase())) filesByName.set(file.name.toLowerCase(), file);
+  });
+  const findFile = (name: string) => filesByName.get(name.split(/[\\/]/).pop()!.toLowerCase());
+
+  const grouped = new Map<string, ManifestRow[]>();
+  rows.forEach((row) => {
+    const key = row.values.release ? `release:${row.values.release.toLowerCase()}` : `line:${row.line}`;
+    grouped.set(key, [...(grouped.get(key) ?? []), row]);
+  });
+
+  const seenIsrcs = new Map<string, number>();
+  return Array.from(grouped.values(), (groupRows) => {
+    const first = groupRows[0].values;
+    const issues: ImportIssue[] = [];
+    const issue = (line: number, column: ManifestField | undefined, message: string) =>
+      issues.push({ line, message: column ? `${column}: ${message}` : message });
+
+    const tracks = groupRows.map(({ line, values }): TrackFormValues => {
+      const track = newTrack(values.artist || first.artist || artistName);
+      const genre = values.genre ? findGenre(genres, values.genre) : undefined;
+      if (values.genre && !genre) issue(line, "genre", `"${values.genre}" is not a Spillrix genre.`);
+      const audio = values.file ? findFile(values.file) : undefined;
+      if (values.file && !audio) issue(line, "file", `${values.file} is not in the selected folder.`);
+
+      const isrc = values.isrc ? normalizeIdentifier(values.isrc) : "";
+      // Repeats within one release are reported by the release schema
+      const seenOn = seenIsrcs.get(isrc);
+      if (seenOn && !groupRows.some((row) => row.line === seenOn)) issue(line, "isrc", `Already used on line ${seenOn}.`);
+      if (isrc && !seenOn) seenIsrcs.set(isrc, line);
+
+      return {
+        ...track,
+        title: values.title ?? "",
+        primary_genre_id: genre?.id ?? "",
+        isrc,
+        disc_number: Number(values.disc) || 1,
+        parental_advisory: parentalAdvisory(values.explicit),
+        language_code: values.language ? findLanguage(values.language) : "",
+        copyright_line: values.copyright ?? track.copyright_line,
+        phonographic_line: values.phonographic ?? track.phonographic_line,
+        label_name: values.label ?? track.label_name,
+        is_cover: /^(y|yes|true|1)$/i.test(values.is_cover ?? ""),
+        // Folder uploads often report WAVs as audio/x-wav or with no type at all
+        audio_format: audio ? audioFormats[audio.name] : undefined,
+        music_file: audio ? [new File([audio], audio.name, { type: /\.wave?$/i.test(audio.name) ? "audio/wav" : audio.type })] : undefined,
+      };
+    });
+
+    const artworkRow = groupRows.find((row) => row.values.artwork);
+    const artwork = artworkRow ? findFile(artworkRow.values.artwork!) : undefined;
+    if (artworkRow && !artwork) issue(artworkRow.line, "artwork", `${artworkRow.values.artwork} is not in the selected folder.`);
+    if (artwork && !artwork.type.startsWith("image/")) issue(artworkRow!.line, "artwork", `${artwork.name} is not an image.`);
+
+    const releaseDate = first.release_date ? fromDateColumn(first.release_date) : earliestReleaseDate();
+    const badDate = Boolean(first.release_date) && Number.isNaN(releaseDate.getTime());
+    if (badDate) {
+      issue(groupRows[0].line, "release_date", `Use the YYYY-MM-DD format, e.g. ${toDateColumn(earliestReleaseDate())}.`);
+    }
+
+    const values: ReleaseFormValues = {
+      release_title: first.release ?? first.title ?? "",
+      release_type: releaseTypeFor(first.release_type, groupRows.length),
+      upc: first.upc ?? "",
+      release_date: releaseDate,
+      release_timing: "local_midnight",
+      release_timezone: "UTC",
+      store_ids: storeIds,
+      territory_mode: "worldwide",
+      territories: [],
+      tracks,
+    };
+
+    const parsed = releaseFormSchema.safeParse(values);
+    if (!parsed.success) {
+      parsed.error.issues.forEach(({ path, message }) => {
+        if (badDate && path[0] === "release_date") return;
+        const line = path[0] === "tracks" && typeof path[1] === "number" ? groupRows[path[1]].line : groupRows[0].line;
+        const field = path[0] === "tracks" && typeof path[1] === "number" ? path[2] : path[0];
+        issue(line, FIELD_COLUMNS[field as string], message);
+      });
+    }
+
+    return {
+      key: `${values.release_title.toLowerCase()}|${groupRows.map((row) => row.values.file?.toLowerCase()).join("|")}`,
+      title: values.release_title,
+      lines: groupRows.map((row) => row.line),
+      values,
+      artwork,
+      issues: issues.sort((a, b) => a.line - b.line),
+    };
+  });
+}
+
+/**
+ * Uploads a track's WAV into the folder named after its reserved id, with its peaks and preview beside it, and
+ * returns the track's audio columns
+ */
+async function uploadTrackAudio(artistId: string, trackId: string, file: File) {
+  const { path, format } = await uploadMusicFile(artistId, file, trackId);
+  const analysis = await analyzeAudio(file);
+  return {
+    music_file_url: path,
+    ...audioFileColumns(format, file.size),
+    ...analysisColumns(analysis),
+    peaks_file_url: await uploadWaveformPeaks(path, analysis.waveform),
+    preview_file_url: await uploadPreview(path, await encodePreview(file)),
+  };
+}
+
+/**
+ * Uploads one validated group and submits it for review. Every write is an upsert keyed by the reserved ids, and
+ * files go into folders named after them, so a group interrupted halfway can simply be imported again without
+ * leaving orphaned uploads behind. Each track is saved as soon as its file is in, and a retry only sends the files
+ * an earlier attempt did not finish.
+ */
+export async function importGroup(group: ImportGroup, artistId: string, { releaseId, trackIds }: ImportProgress) {
+  const { values } = group;
+
+  const { data: savedRelease, error: savedReleaseError } = await supabase
+    .from("releases")
+    .select("cover_art_url")
+    .eq("id", releaseId)
+    .maybeSingle();
+  if (savedReleaseError) throw savedReleaseError;
+  const coverArtPath = !group.artwork
+    ? null
+    : savedRelease?.cover_art_url === artistFilePath(artistId, releaseId, group.artwork.name)
+      ? savedRelease.cover_art_url
+      : await uploadArtistFile("cover-art", artistId, group.artwork, releaseId);
+
+  const { error: releaseError } = await supabase.from("releases").upsert({
+    id: releaseId,
+    title: values.release_title,
+    release_type: values.release_type,
+    upc: values.upc ? normalizeIdentifier(values.upc) : null,
+    cover_art_url: coverArtPath,
+    release_date: toDateColumn(values.release_date),
+    release_timing: values.release_timing,
+    release_timezone: values.release_timezone,
+    territory_mode: values.territory_mode,
+    territories: values.territories,
+    // Stays a draft, hidden from review, until every file is in
+    status: "draft",
+    artist_id: artistId,
+  });
+  if (releaseError) throw releaseError;
+
+  const { error: storesError } = await supabase
+    .from("release_stores")
+    .upsert(
+      values.store_ids.map((store_id) => ({ release_id: releaseId, store_id })),
+      { onConflict: "release_id,store_id", ignoreDuplicates: true }
+    );
+  if (storesError) throw storesError;
+
+  // A file is finished once its track holds it with the server's WAV check and the analysis
+  const { data: savedTracks, error: savedTracksError } = await supabase
+    .from("tracks")
+    .select("id, music_file_url, wav_validated, peaks_file_url, preview_file_url, qc_report")
+    .in("id", trackIds);
+  if (savedTracksError) throw savedTracksError;
+
+  for (const [index, track] of numberTracklist(values.tracks).entries()) {
+    const file = track.music_file[0];
+    const saved = savedTracks.find((row) => row.id === trackIds[index]);
+    const finished =
+      saved?.music_file_url === artistFilePath(artistId, trackIds[index], file.name) &&
+      saved.wav_validated &&
+      saved.peaks_file_url !== null &&
+      saved.preview_file_url !== null &&
+      saved.qc_report !== null;
+
+    const { error: trackError } = await supabase.from("tracks").upsert({
+      id: trackIds[index],
+      title: track.title,
+      primary_genre_id: track.primary_genre_id,
+      isrc: track.isrc ? normalizeIdentifier(track.isrc) : null,
+      disc_number: track.disc_number,
+      track_number: track.track_number,
+      parental_advisory: track.parental_advisory,
+      language_code: track.language_code,
+      copyright_line: normalizeRightsLine(track.copyright_line),
+      phonographic_line: normalizeRightsLine(track.phonographic_line),
+      label_name: track.label_name.trim(),
+      is_cover: track.is_cover,
+      status: "draft",
+      ...(finished ? {} : await uploadTrackAudio(artistId, trackIds[index], file)),
+      artist_id: artistId,
+      release_id: releaseId,
+    });
+    if (trackError) throw trackError;
+  }
+
+  const { error: clearCreditsError } = await supabase.from("track_credits").delete().in("track_id", trackIds);
+  if (clearCreditsError) throw clearCreditsError;
+  const { error: creditsError } = await supabase.from("track_credits").insert(
+    values.tracks.flatMap((track, index) =>
+      track.credits.map((credit, position) => ({
+        track_id: trackIds[index],
+        name: credit.name.trim(),
+        role: credit.role,
+        is_primary: credit.is_primary,
+        position,
+      }))
+    )
+  );
+  if (creditsError) throw creditsError;
+
+  const { error: submitError } = await supabase.from("releases").update({ status: "pending" }).eq("id", releaseId);
+  if (submitError) throw submitError;
+}
+
+/**
+ * Files dropped onto the page, including everything inside dropped folders
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+      return [await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))];
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // Directory readers return entries in batches until an empty one
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      entries.push(...batch);
+    }
+    return (await Promise.all(entries.map(readEntry))).flat();
+  };
+
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  return entries.length > 0 ? (await Promise.all(entries.map(readEntry))).flat() : Array.from(dataTransfer.files);
+}
+
+/**
+ * A CSV with every manifest column, for labels starting a manifest from scratch
+ */
+export function manifestTemplate(): string {
+  return `${(Object.keys(MANIFEST_COLUMNS) as ManifestField[]).join(",")}\n`;
+}
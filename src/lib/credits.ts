@@ -0,0 +1,57 @@
+/**
+ * Contributor roles, following the DDEX role vocabulary that stores validate against
+ */
+export const CREDIT_ROLES = [
+  { value: "artist", label: "Artist", ddex: "MainArtist", group: "Artists" },
+  { value: "remixer", label: "Remixer", ddex: "Remixer", group: "Artists" },
+  { value: "conductor", label: "Conductor", ddex: "Conductor", group: "Artists" },
+  { value: "orchestra", label: "Orchestra", ddex: "Orchestra", group: "Artists" },
+  { value: "composer", label: "Composer", ddex: "Composer", group: "Songwriters" },
+  { value: "lyricist", label: "Lyricist", ddex: "Lyricist", group: "Songwriters" },
+  { value: "composer_lyricist", label: "Composer & Lyricist", ddex: "ComposerLyricist", group: "Songwriters" },
+  { value: "arranger", label: "Arranger", ddex: "Arranger", group: "Songwriters" },
+  { value: "producer", label: "Producer", ddex: "Producer", group: "Production" },
+  { value: "co_producer", label: "Co-Producer", ddex: "CoProducer", group: "Production" },
+  { value: "mixing_engineer", label: "Mixing Engineer", ddex: "MixingEngineer", group: "Production" },
+  { value: "mastering_engineer", label: "Mastering Engineer", ddex: "MasteringEngineer", group: "Production" },
+  { value: "recording_engineer", label: "Recording Engineer", ddex: "RecordingEngineer", group: "Production" },
+] as const;
+
+export type CreditRole = (typeof CREDIT_ROLES)[number]["value"];
+
+export const CREDIT_ROLE_VALUES = CREDIT_ROLES.map((role) => role.value) as [CreditRole, ...CreditRole[]];
+
+/**
+ * Roles that appear in the display artist line, where primary/featured matters
+ */
+export const ARTIST_CREDIT_ROLES: CreditRole[] = ["artist", "remixer"];
+
+export function creditRoleLabel(role: string): string {
+  return CREDIT_ROLES.find((r) => r.value === role)?.label ?? role;
+}
+
+interface CreditLike {
+  name: string;
+  role: string;
+  is_primary: boolean;
+}
+
+/**
+ * Formats a short credit line for review tables, e.g. "Jane Doe (Artist, feat.)"
+ */
+export function formatCredit(credit: CreditLike): string {
+  const featured = ARTIST_CREDIT_ROLES.includes(credit.role as CreditRole) && !credit.is_primary;
+  return `${credit.name} (${creditRoleLabel(credit.role)}${featured ? ", feat." : ""})`;
+}
+
+/**
+ * Builds the store display artist, e.g. "Jane Doe & Sam Roe feat. Alex"
+ */
+export function displayArtist(credits: CreditLike[]): string {
+  const artists = credits.filter((credit) => credit.role === "artist");
+  const join = (names: string[]) =>
+    names.length <= 1 ? names.join("") : `${names.slice(0, -1).join(", ")} & ${names[names.length - 1]}`;
+  const primary = join(artists.filter((credit) => credit.is_primary).map((credit) => credit.name));
+  const featured = join(artists.filter((credit) => !credit.is_primary).map((credit) => credit.name));
+  return featured ? `${primary} feat. ${featured}` : primary;
+}
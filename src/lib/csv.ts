@@ -0,0 +1,45 @@
+/**
+ * Parses RFC 4180 CSV into rows of cells. Quoted cells may hold delimiters, quotes ("") and line breaks.
+ * Excel's regional exports use semicolons, so the delimiter is taken from the header line.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const headerLine = source.slice(0, source.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) rows.push([...row, cell]);
+
+  // Blank lines, including the trailing one most editors add, carry no data
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { measureAudioDuration } from "@/lib/audio";
+import { DdexOptions, DdexRelease } from "@/lib/ddex";
+import { generateMusicUrl } from "@/lib/storage-utils";
+
+/**
+ * Loads a release with everything the ERN message needs; durations missing from the row are read from the audio
+ */
+export async function loadDdexRelease(releaseId: string): Promise<{ release: DdexRelease; options: DdexOptions }> {
+  const [{ data: release, error: releaseError }, { data: settings, error: settingsError }, { data: genres, error: genresError }] =
+    await Promise.all([
+      supabase.from("releases").select("*, tracks(*, track_credits(*))").eq("id", releaseId).single(),
+      supabase.from("ddex_settings").select("*").maybeSingle(),
+      supabase.from("genres").select("*"),
+    ]);
+  if (releaseError) throw releaseError;
+  if (settingsError) throw settingsError;
+  if (genresError) throw genresError;
+  if (!settings) throw new Error("Set the DDEX sender and recipient parties before exporting.");
+
+  const tracks = await Promise.all(
+    (release as DdexRelease).tracks.map(async (track) => {
+      if (track.duration || !track.music_file_url) return track;
+      const url = await generateMusicUrl(track.music_file_url);
+      return { ...track, duration: url ? await measureAudioDuration(url).catch(() => null) : null };
+    })
+  );
+
+  return {
+    release: { ...(release as DdexRelease), tracks },
+    options: {
+      sender: { dpid: settings.sender_dpid, name: settings.sender_name },
+      recipient: { dpid: settings.recipient_dpid, name: settings.recipient_name },
+      genres,
+    },
+  };
+}
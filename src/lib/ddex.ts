@@ -0,0 +1,481 @@
+import { Tables } from "@/integrations/supabase/types";
+import { ARTIST_CREDIT_ROLES, CREDIT_ROLES, CreditRole, displayArtist } from "@/lib/credits";
+import { Genre } from "@/lib/genres";
+import { isValidGtin, isValidIsrc } from "@/lib/identifiers";
+import { sortTracklist } from "@/lib/releases";
+import { formatRightsLine } from "@/lib/track-metadata";
+import { versionLabel } from "@/lib/versions";
+
+export const ERN_NAMESPACE = "http://ddex.net/xml/ern/43";
+export const ERN_SCHEMA_LOCATION = `${ERN_NAMESPACE} ${ERN_NAMESPACE}/release-notification.xsd`;
+
+export interface XmlElement {
+  name: string;
+  attributes?: Record<string, string>;
+  children: XmlElement[];
+  text?: string;
+}
+
+type Child = XmlElement | string | number | null | undefined | false;
+
+/**
+ * Builds an element; a single string or number child becomes its text content
+ */
+function el(name: string, children: Child | Child[] = [], attributes?: Record<string, string>): XmlElement {
+  const list = Array.isArray(children) ? children : [children];
+  if (list.length === 1 && (typeof list[0] === "string" || typeof list[0] === "number")) {
+    return { name, attributes, children: [], text: String(list[0]) };
+  }
+  return { name, attributes, children: list.filter((child): child is XmlElement => typeof child === "object" && child !== null) };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&${{ "<": "lt", ">": "gt", "&": "amp", '"': "quot", "'": "apos" }[char]};`);
+}
+
+export function serializeXml(root: XmlElement): string {
+  const render = (node: XmlElement, depth: number): string => {
+    const indent = "  ".repeat(depth);
+    const attributes = Object.entries(node.attributes ?? {})
+      .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+      .join("");
+    if (node.children.length === 0) {
+      return `${indent}<${node.name}${attributes}>${escapeXml(node.text ?? "")}</${node.name}>`;
+    }
+    const children = node.children.map((child) => render(child, depth + 1)).join("\n");
+    return `${indent}<${node.name}${attributes}>\n${children}\n${indent}</${node.name}>`;
+  };
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${render(root, 0)}\n`;
+}
+
+export interface DdexParty {
+  dpid: string;
+  name: string;
+}
+
+export type DdexTrack = Tables<"tracks"> & { track_credits?: Tables<"track_credits">[] };
+export type DdexRelease = Tables<"releases"> & { tracks: DdexTrack[] };
+
+export interface DdexOptions {
+  sender: DdexParty;
+  recipient: DdexParty;
+  genres: Genre[];
+  createdAt?: Date;
+  // Paths of the delivered files, relative to the message, keyed by track id and "cover"
+  filePaths?: Record<string, string>;
+  // MD5 checksums of the delivered files, keyed like filePaths
+  hashes?: Record<string, string>;
+}
+
+const RELEASE_TYPE_VALUES: Record<string, string> = { single: "Single", ep: "EP", album: "Album" };
+
+const PARENTAL_WARNING_VALUES: Record<string, string> = {
+  not_explicit: "NotExplicit",
+  explicit: "Explicit",
+  clean: "ExplicitContentEdited",
+};
+
+/**
+ * ISO 8601 duration as used by DDEX, e.g. 201.4 → "PT3M21S"
+ */
+export function isoDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `PT${Math.floor(total / 60)}M${total % 60}S`;
+}
+
+/**
+ * Midnight on a date in an IANA time zone with its UTC offset, e.g. "2026-03-06T00:00:00+05:30"
+ */
+export function midnightInTimeZone(date: string, timeZone: string): string {
+  const offset = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" })
+    .formatToParts(new Date(`${date}T12:00:00Z`))
+    .find((part) => part.type === "timeZoneName")?.value.replace("GMT", "");
+  return `${date}T00:00:00${offset || "+00:00"}`;
+}
+
+function rightsLine(kind: "PLine" | "CLine", symbol: "©" | "℗", line: string | null) {
+  if (!line) return null;
+  return el(kind, [el("Year", line.slice(0, 4)), el(`${kind}Text`, formatRightsLine(symbol, line))]);
+}
+
+function releaseParentalWarning(tracks: DdexTrack[]): string {
+  if (tracks.some((track) => track.parental_advisory === "explicit")) return "Explicit";
+  if (tracks.some((track) => track.parental_advisory === "clean")) return "ExplicitContentEdited";
+  return "NotExplicit";
+}
+
+/**
+ * Builds an ERN 4.3 NewReleaseMessage for a release and its tracklist
+ */
+export function buildNewReleaseMessage(release: DdexRelease, options: DdexOptions): XmlElement {
+  const tracks = sortTracklist(release.tracks);
+  const createdAt = options.createdAt ?? new Date();
+  const filePaths = options.filePaths ?? {};
+  const hashes = options.hashes ?? {};
+  const file = (key: string, fallbackUri: string) =>
+    el("File", [
+      el("URI", filePaths[key] ?? fallbackUri),
+      hashes[key] && el("HashSum", [el("Algorithm", "MD5"), el("HashSumValue", hashes[key])]),
+    ]);
+
+  // Every artist, contributor and label becomes one party, referenced by name
+  const parties = new Map<string, string>();
+  const partyRef = (name: string) => {
+    if (!parties.has(name)) parties.set(name, `P${parties.size + 1}`);
+    return parties.get(name)!;
+  };
+
+  const genreElement = (track: DdexTrack) => {
+    const genre = options.genres.find((g) => g.id === track.primary_genre_id);
+    const parent = genre?.parent_id ? options.genres.find((g) => g.id === genre.parent_id) : undefined;
+    return el("Genre", [el("GenreText", parent?.name ?? genre?.name ?? ""), parent && genre && el("SubGenre", genre.name)]);
+  };
+
+  const credits = (track: DdexTrack) => [...(track.track_credits ?? [])].sort((a, b) => a.position - b.position);
+
+  const displayArtists = (track: DdexTrack) =>
+    credits(track)
+      .filter((credit) => ARTIST_CREDIT_ROLES.includes(credit.role as CreditRole))
+      .map((credit, index) =>
+        el(
+          "DisplayArtist",
+          [
+            el("ArtistPartyReference", partyRef(credit.name)),
+            el(
+              "DisplayArtistRole",
+              credit.role === "artist" ? (credit.is_primary ? "MainArtist" : "FeaturedArtist") : "Remixer"
+            ),
+          ],
+          { SequenceNumber: String(index + 1) }
+        )
+      );
+
+  const contributors = (track: DdexTrack) =>
+    credits(track)
+      .filter((credit) => !ARTIST_CREDIT_ROLES.includes(credit.role as CreditRole))
+      .map((credit, index) =>
+        el(
+          "Contributor",
+          [
+            el("ContributorPartyReference", partyRef(credit.name)),
+            el("Role", CREDIT_ROLES.find((role) => role.value === credit.role)?.ddex ?? "Unknown"),
+          ],
+          { SequenceNumber: String(index + 1) }
+        )
+      );
+
+  const title = (track: { title: string; version_type?: string | null; version_title?: string | null }) =>
+    el("DisplayTitle", [el("TitleText", track.title), versionLabel(track) && el("SubTitle", versionLabel(track))], {
+      ApplicableTerritoryCode: "Worldwide",
+      IsDefault: "true",
+    });
+
+  const releaseArtist = displayArtist(tracks[0]?.track_credits ?? []);
+  const labelName = tracks[0]?.label_name ?? "";
+  const coverReference = `A${tracks.length + 1}`;
+
+  const soundRecordings = tracks.map((track, index) =>
+    el("SoundRecording", [
+      el("ResourceReference", `A${index + 1}`),
+      el("Type", "MusicalWorkSoundRecording"),
+      el("SoundRecordingEdition", [
+        el("ResourceId", el("ISRC", track.isrc ?? "")),
+        rightsLine("PLine", "℗", track.phonographic_line),
+        el("TechnicalDetails", [
+          el("TechnicalResourceDetailsReference", `T${index + 1}`),
+          el("DeliveryFile", [
+            el("Type", "AudioFile"),
+            el("AudioCodecType", "PCM"),
+            file(track.id, `resources/${track.isrc}.wav`),
+          ]),
+        ]),
+      ]),
+      el("DisplayTitleText", track.title, { ApplicableTerritoryCode: "Worldwide", IsDefault: "true" }),
+      title(track),
+      el("DisplayArtistName", displayArtist(track.track_credits ?? []), { ApplicableTerritoryCode: "Worldwide" }),
+      ...displayArtists(track),
+      ...contributors(track),
+      el("Duration", track.duration ? isoDuration(track.duration) : ""),
+      el("ParentalWarningType", PARENTAL_WARNING_VALUES[track.parental_advisory] ?? ""),
+      track.language_code && track.language_code !== "zxx" && el("LanguageOfPerformance", track.language_code),
+    ])
+  );
+
+  const cover = release.cover_art_url
+    ? el("Image", [
+        el("ResourceReference", coverReference),
+        el("Type", "FrontCoverImage"),
+        el("ResourceId", el("ProprietaryId", release.id, { Namespace: `DPID:${options.sender.dpid}` })),
+        el("ParentalWarningType", "NotExplicit"),
+        el("TechnicalDetails", [
+          el("TechnicalResourceDetailsReference", `T${tracks.length + 1}`),
+          file("cover", `resources/${release.upc}.jpg`),
+        ]),
+      ])
+    : null;
+
+  const totalDuration = tracks.reduce((sum, track) => sum + (track.duration ?? 0), 0);
+  const discs = Array.from(new Set(tracks.map((track) => track.disc_number))).sort((a, b) => a - b);
+
+  const mainRelease = el("Release", [
+    el("ReleaseReference", "R0"),
+    el("ReleaseType", RELEASE_TYPE_VALUES[release.release_type] ?? ""),
+    el("ReleaseId", el("ICPN", release.upc ?? "")),
+    el("DisplayTitleText", release.title, { ApplicableTerritoryCode: "Worldwide", IsDefault: "true" }),
+    title(release),
+    el("DisplayArtistName", releaseArtist, { ApplicableTerritoryCode: "Worldwide" }),
+    ...displayArtists(tracks[0] ?? ({} as DdexTrack)),
+    el("ReleaseLabelReference", partyRef(labelName), { ApplicableTerritoryCode: "Worldwide" }),
+    rightsLine("PLine", "℗", tracks[0]?.phonographic_line ?? null),
+    rightsLine("CLine", "©", tracks[0]?.copyright_line ?? null),
+    totalDuration > 0 && el("Duration", isoDuration(totalDuration)),
+    tracks[0] && genreElement(tracks[0]),
+    el("ParentalWarningType", releaseParentalWarning(tracks)),
+    el("ResourceGroup", [
+      ...discs.map((disc) =>
+        el("ResourceGroup", [
+          el("SequenceNumber", disc),
+          ...tracks
+            .map((track, index) => ({ track, reference: `A${index + 1}` }))
+            .filter(({ track }) => track.disc_number === disc)
+            .map(({ track, reference }) =>
+              el("ResourceGroupContentItem", [
+                el("SequenceNumber", track.track_number ?? 0),
+                el("ReleaseResourceReference", reference),
+              ])
+            ),
+        ])
+      ),
+      cover && el("LinkedReleaseResourceReference", coverReference),
+    ]),
+  ]);
+
+  const trackReleases = tracks.map((track, index) =>
+    el("TrackRelease", [
+      el("ReleaseReference", `R${index + 1}`),
+      el("ReleaseId", el("ProprietaryId", track.isrc ?? "", { Namespace: `DPID:${options.sender.dpid}` })),
+      el("ReleaseResourceReference", `A${index + 1}`),
+      el("ReleaseLabelReference", partyRef(track.label_name ?? labelName), { ApplicableTerritoryCode: "Worldwide" }),
+      genreElement(track),
+    ])
+  );
+
+  // Worldwide releases go live at one instant; local ones at midnight in each territory
+  const validityPeriod = el(
+    "ValidityPeriod",
+    release.release_timing === "worldwide" && release.release_date
+      ? el("StartDateTime", midnightInTimeZone(release.release_date, release.release_timezone))
+      : el("StartDate", release.release_date ?? "")
+  );
+  const releaseReferences = ["R0", ...trackReleases.map((_, index) => `R${index + 1}`)];
+  // Include-lists name each country; exclude-lists carve countries out of a worldwide deal
+  const territoryCodes =
+    release.territory_mode === "include"
+      ? release.territories.map((code) => el("TerritoryCode", code))
+      : [
+          el("TerritoryCode", "Worldwide"),
+          ...(release.territory_mode === "exclude" ? release.territories : []).map((code) => el("ExcludedTerritoryCode", code)),
+        ];
+
+  const deals = el("DealList", [
+    el("ReleaseDeal", [
+      ...releaseReferences.map((reference) => el("DealReleaseReference", reference)),
+      el(
+        "Deal",
+        el("DealTerms", [
+          ...territoryCodes,
+          validityPeriod,
+          el("CommercialModelType", "SubscriptionModel"),
+          el("CommercialModelType", "AdvertisementSupportedModel"),
+          el("UseType", "OnDemandStream"),
+          el("UseType", "NonInteractiveStream"),
+        ])
+      ),
+      el(
+        "Deal",
+        el("DealTerms", [
+          ...territoryCodes,
+          validityPeriod,
+          el("CommercialModelType", "PayAsYouGoModel"),
+          el("UseType", "PermanentDownload"),
+          release.preorder_date && el("ReleaseDisplayStartDateTime", `${release.preorder_date}T00:00:00`),
+        ])
+      ),
+    ]),
+  ]);
+
+  // The party list is built last because the sections above register the parties they reference
+  const resourceList = el("ResourceList", [...soundRecordings, cover]);
+  const releaseList = el("ReleaseList", [mainRelease, ...trackReleases]);
+  const partyList = el(
+    "PartyList",
+    Array.from(parties.entries()).map(([name, reference]) =>
+      el("Party", [el("PartyReference", reference), el("PartyName", el("FullName", name))])
+    )
+  );
+
+  return el(
+    "ern:NewReleaseMessage",
+    [
+      el("MessageHeader", [
+        el("MessageThreadId", release.id),
+        el("MessageId", `${release.id}-${createdAt.getTime()}`),
+        el("MessageSender", [el("PartyId", options.sender.dpid), el("PartyName", el("FullName", options.sender.name))]),
+        el("MessageRecipient", [
+          el("PartyId", options.recipient.dpid),
+          el("PartyName", el("FullName", options.recipient.name)),
+        ]),
+        el("MessageCreatedDateTime", createdAt.toISOString()),
+        el("MessageControlType", "LiveMessage"),
+      ]),
+      partyList,
+      resourceList,
+      releaseList,
+      deals,
+    ],
+    {
+      "xmlns:ern": ERN_NAMESPACE,
+      "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+      "xsi:schemaLocation": ERN_SCHEMA_LOCATION,
+      LanguageAndScriptCode: "en",
+      AvsVersionId: "4",
+    }
+  );
+}
+
+// Child sequences hand-copied from the ERN 4.3 release-notification schema for the elements this export writes. They
+// only catch missing metadata and builder regressions early; the delivery worker validates every message against the
+// official XSD, and worker/src/check-ern-schema.ts checks a fixture message against it.
+type Occurs = [name: string, min: number, max: number];
+const MANY = Infinity;
+
+const SEQUENCES: Record<string, Occurs[]> = {
+  "ern:NewReleaseMessage": [["MessageHeader", 1, 1], ["PartyList", 1, 1], ["ResourceList", 1, 1], ["ReleaseList", 1, 1], ["DealList", 0, 1]],
+  MessageHeader: [
+    ["MessageThreadId", 0, 1], ["MessageId", 1, 1], ["MessageSender", 1, 1], ["MessageRecipient", 1, MANY],
+    ["MessageCreatedDateTime", 1, 1], ["MessageControlType", 0, 1],
+  ],
+  MessageSender: [["PartyId", 1, 1], ["PartyName", 0, 1]],
+  MessageRecipient: [["PartyId", 1, 1], ["PartyName", 0, 1]],
+  PartyList: [["Party", 1, MANY]],
+  Party: [["PartyReference", 1, 1], ["PartyName", 1, MANY]],
+  PartyName: [["FullName", 1, 1]],
+  ResourceList: [["SoundRecording", 1, MANY], ["Image", 0, MANY]],
+  SoundRecording: [
+    ["ResourceReference", 1, 1], ["Type", 1, 1], ["SoundRecordingEdition", 1, MANY], ["DisplayTitleText", 1, MANY],
+    ["DisplayTitle", 1, MANY], ["DisplayArtistName", 1, MANY], ["DisplayArtist", 1, MANY], ["Contributor", 0, MANY],
+    ["Duration", 1, 1], ["ParentalWarningType", 1, MANY], ["LanguageOfPerformance", 0, MANY],
+  ],
+  SoundRecordingEdition: [["ResourceId", 1, MANY], ["PLine", 0, MANY], ["TechnicalDetails", 0, MANY]],
+  TechnicalDetails: [["TechnicalResourceDetailsReference", 1, 1], ["DeliveryFile", 0, MANY], ["File", 0, 1]],
+  DeliveryFile: [["Type", 1, 1], ["AudioCodecType", 0, 1], ["File", 1, 1]],
+  File: [["URI", 1, 1], ["HashSum", 0, MANY]],
+  HashSum: [["Algorithm", 1, 1], ["HashSumValue", 1, 1]],
+  DisplayTitle: [["TitleText", 1, 1], ["SubTitle", 0, MANY]],
+  DisplayArtist: [["ArtistPartyReference", 1, 1], ["DisplayArtistRole", 1, 1]],
+  Contributor: [["ContributorPartyReference", 1, 1], ["Role", 1, MANY]],
+  PLine: [["Year", 0, 1], ["PLineText", 1, 1]],
+  CLine: [["Year", 0, 1], ["CLineText", 1, 1]],
+  Image: [["ResourceReference", 1, 1], ["Type", 1, 1], ["ResourceId", 1, MANY], ["ParentalWarningType", 1, MANY], ["TechnicalDetails", 0, MANY]],
+  ReleaseList: [["Release", 1, 1], ["TrackRelease", 0, MANY]],
+  Release: [
+    ["ReleaseReference", 1, 1], ["ReleaseType", 1, MANY], ["ReleaseId", 1, 1], ["DisplayTitleText", 1, MANY],
+    ["DisplayTitle", 1, MANY], ["DisplayArtistName", 1, MANY], ["DisplayArtist", 1, MANY], ["ReleaseLabelReference", 1, MANY],
+    ["PLine", 0, MANY], ["CLine", 0, MANY], ["Duration", 0, 1], ["Genre", 1, MANY], ["ParentalWarningType", 1, MANY],
+    ["ResourceGroup", 1, 1],
+  ],
+  TrackRelease: [["ReleaseReference", 1, 1], ["ReleaseId", 1, 1], ["ReleaseResourceReference", 1, 1], ["ReleaseLabelReference", 1, MANY], ["Genre", 1, MANY]],
+  Genre: [["GenreText", 1, 1], ["SubGenre", 0, 1]],
+  ResourceGroup: [["SequenceNumber", 0, 1], ["ResourceGroup", 0, MANY], ["ResourceGroupContentItem", 0, MANY], ["LinkedReleaseResourceReference", 0, MANY]],
+  ResourceGroupContentItem: [["SequenceNumber", 0, 1], ["ReleaseResourceReference", 1, 1]],
+  DealList: [["ReleaseDeal", 1, MANY]],
+  ReleaseDeal: [["DealReleaseReference", 1, MANY], ["Deal", 1, MANY]],
+  Deal: [["DealTerms", 1, 1]],
+  DealTerms: [
+    ["TerritoryCode", 1, MANY], ["ExcludedTerritoryCode", 0, MANY], ["ValidityPeriod", 1, MANY], ["CommercialModelType", 1, MANY],
+    ["UseType", 1, MANY], ["ReleaseDisplayStartDateTime", 0, 1],
+  ],
+  ValidityPeriod: [["StartDate", 0, 1], ["StartDateTime", 0, 1]],
+};
+
+// Text patterns for leaf elements, with the message shown when a value does not match
+const VALUES: Record<string, [test: (value: string) => boolean, message: string]> = {
+  ISRC: [isValidIsrc, "is not a valid ISRC"],
+  ICPN: [isValidGtin, "is not a valid UPC/EAN (the release needs one before export)"],
+  PartyId: [(value) => /^PADPIDA[0-9A-Z]{11}$/.test(value), "is not a DDEX party id (PADPIDA + 11 characters)"],
+  Duration: [(value) => /^PT(\d+H)?(\d+M)?(\d+S)?$/.test(value) && value !== "PT", "is not an ISO 8601 duration"],
+  StartDate: [(value) => /^\d{4}-\d{2}-\d{2}$/.test(value), "is not a date"],
+  StartDateTime: [(value) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}([+-]\d{2}:\d{2}|Z)$/.test(value), "is not a date-time with offset"],
+  Year: [(value) => /^\d{4}$/.test(value), "is not a year"],
+  ParentalWarningType: [(value) => ["NotExplicit", "Explicit", "ExplicitContentEdited"].includes(value), "is not a parental warning type"],
+  ReleaseType: [(value) => ["Single", "EP", "Album"].includes(value), "is not a release type"],
+  TerritoryCode: [(value) => value === "Worldwide" || /^[A-Z]{2}$/.test(value), "is not an ISO 3166 country code"],
+  ExcludedTerritoryCode: [(value) => /^[A-Z]{2}$/.test(value), "is not an ISO 3166 country code"],
+  LanguageOfPerformance: [(value) => /^[a-z]{2,3}$/.test(value), "is not an ISO 639 language code"],
+};
+
+/**
+ * Pre-flight check against the schema subset above plus the message's internal references; returns readable problems.
+ * Passing it does not make a message schema-valid.
+ */
+export function preflightNewReleaseMessage(root: XmlElement): string[] {
+  const errors: string[] = [];
+  const references = { party: new Set<string>(), resource: new Set<string>(), release: new Set<string>() };
+  const pointers: [kind: keyof typeof references, value: string, path: string][] = [];
+
+  const visit = (node: XmlElement, path: string) => {
+    const sequence = SEQUENCES[node.name];
+    if (sequence) {
+      let position = 0;
+      for (const [name, min, max] of sequence) {
+        let count = 0;
+        while (node.children[position]?.name === name) {
+          count++;
+          position++;
+        }
+        if (count < min) errors.push(`${path} is missing <${name}>`);
+        if (count > max) errors.push(`${path} has too many <${name}> elements`);
+      }
+      if (position < node.children.length) {
+        errors.push(`${path} has unexpected or out-of-order <${node.children[position].name}>`);
+      }
+    } else if (node.children.length === 0 && !node.text?.trim()) {
+      errors.push(`${path} is empty`);
+    }
+
+    const text = node.text?.trim() ?? "";
+    const rule = VALUES[node.name];
+    if (rule && text && !rule[0](text)) errors.push(`${path} "${text}" ${rule[1]}`);
+
+    if (node.name === "PartyReference") references.party.add(text);
+    if (node.name === "ResourceReference") references.resource.add(text);
+    if (node.name === "ReleaseReference") references.release.add(text);
+    if (["ArtistPartyReference", "ContributorPartyReference", "ReleaseLabelReference"].includes(node.name)) {
+      pointers.push(["party", text, path]);
+    }
+    if (["ReleaseResourceReference", "LinkedReleaseResourceReference"].includes(node.name)) {
+      pointers.push(["resource", text, path]);
+    }
+    if (node.name === "DealReleaseReference") pointers.push(["release", text, path]);
+    if (node.name === "ValidityPeriod" && node.children.length !== 1) {
+      errors.push(`${path} needs exactly one of <StartDate> or <StartDateTime>`);
+    }
+
+    const seen: Record<string, number> = {};
+    node.children.forEach((child) => {
+      seen[child.name] = (seen[child.name] ?? 0) + 1;
+      visit(child, `${path}/${child.name}[${seen[child.name]}]`);
+    });
+  };
+
+  if (root.name !== "ern:NewReleaseMessage" || root.attributes?.["xmlns:ern"] !== ERN_NAMESPACE) {
+    errors.push(`Root element must be ern:NewReleaseMessage in the ${ERN_NAMESPACE} namespace`);
+  }
+  visit(root, "NewReleaseMessage");
+
+  pointers.forEach(([kind, value, path]) => {
+    if (!references[kind].has(value)) errors.push(`${path} points at unknown ${kind} "${value}"`);
+  });
+
+  return errors;
+}
@@ -0,0 +1,47 @@
+import { DdexRelease } from "@/lib/ddex";
+
+export interface PackagedFile {
+  path: string;
+  size: number;
+  md5: string;
+  sha256: string;
+}
+
+/**
+ * Human- and machine-readable summary of one release's delivery folder
+ */
+export function deliveryManifest(release: DdexRelease, files: Record<string, PackagedFile>, message: PackagedFile) {
+  return {
+    upc: release.upc,
+    title: release.title,
+    release_type: release.release_type,
+    release_date: release.release_date,
+    territory_mode: release.territory_mode,
+    territories: release.territories,
+    files: [...Object.values(files), message],
+    tracks: release.tracks.map((track) => ({
+      isrc: track.isrc,
+      title: track.title,
+      disc_number: track.disc_number,
+      track_number: track.track_number,
+      file: files[track.id]?.path ?? null,
+    })),
+  };
+}
+
+/**
+ * Same layout as md5sum/sha256sum output so `sha256sum -c` can verify an extracted delivery
+ */
+export function checksumList(files: PackagedFile[], algorithm: "md5" | "sha256"): string {
+  return files.map((file) => `${file[algorithm]}  ${file.path}\n`).join("");
+}
+
+/**
+ * Paths and MD5 sums in the shape buildNewReleaseMessage expects, keyed by track id and "cover"
+ */
+export function messageFileOptions(files: Record<string, PackagedFile>) {
+  return {
+    filePaths: Object.fromEntries(Object.entries(files).map(([key, file]) => [key, file.path])),
+    hashes: Object.fromEntries(Object.entries(files).map(([key, file]) => [key, file.md5])),
+  };
+}
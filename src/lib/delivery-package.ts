@@ -0,0 +1,203 @@
+import { downloadZip } from "client-zip";
+import { createMD5, createSHA256 } from "hash-wasm";
+import { buildNewReleaseMessage, DdexOptions, DdexRelease, preflightNewReleaseMessage, serializeXml } from "@/lib/ddex";
+import { loadDdexRelease } from "@/lib/ddex-export";
+import { PackagedFile, checksumList, deliveryManifest, messageFileOptions } from "@/lib/delivery-manifest";
+import { validateAgainstErnSchema } from "@/lib/ern-schema";
+import { generateCoverArtUrl, generateMusicUrl, triggerDownload } from "@/lib/storage-utils";
+import { openDownloadStream } from "@/lib/stream-download";
+
+// Stores reject artwork above 3000×3000, so anything larger is scaled down
+export const MAX_ARTWORK_SIZE = 3000;
+
+// Largest package assembled in memory when the browser can neither write to disk nor stream a download
+const MAX_BUFFERED_PACKAGE_BYTES = 500 * 1024 * 1024;
+
+interface PackagedRelease {
+  release: DdexRelease;
+  options: DdexOptions;
+}
+
+/**
+ * Passes a byte stream through unchanged while hashing and measuring it; `file` is complete once the stream is drained
+ */
+async function* hashStream(stream: ReadableStream<Uint8Array>, file: PackagedFile): AsyncGenerator<Uint8Array> {
+  const [md5, sha256] = await Promise.all([createMD5(), createSHA256()]);
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      md5.update(value);
+      sha256.update(value);
+      file.size += value.byteLength;
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  file.md5 = md5.digest("hex");
+  file.sha256 = sha256.digest("hex");
+}
+
+async function hashBytes(bytes: Uint8Array, path: string): Promise<PackagedFile> {
+  const [md5, sha256] = await Promise.all([createMD5(), createSHA256()]);
+  return {
+    path,
+    size: bytes.byteLength,
+    md5: md5.update(bytes).digest("hex"),
+    sha256: sha256.update(bytes).digest("hex"),
+  };
+}
+
+async function fetchStorageFile(url: string | null, description: string): Promise<Response> {
+  const response = url ? await fetch(url) : null;
+  if (!response?.ok || !response.body) {
+    throw new Error(`Could not download ${description}`);
+  }
+  return response;
+}
+
+/**
+ * Re-encodes cover art as a JPEG no larger than MAX_ARTWORK_SIZE on its longest side
+ */
+async function resizeArtwork(source: Blob): Promise<Uint8Array> {
+  const bitmap = await createImageBitmap(source);
+  const scale = Math.min(1, MAX_ARTWORK_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Could not resize the cover art");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.92));
+  if (!blob) throw new Error("Could not resize the cover art");
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Problems that keep a release out of delivery, prefixed with its title
+ */
+function releaseProblems({ release, options }: PackagedRelease): string[] {
+  if (release.status !== "approved") return [`${release.title}: release is not approved`];
+  return preflightNewReleaseMessage(buildNewReleaseMessage(release, options)).map(
+    (problem) => `${release.title}: ${problem}`
+  );
+}
+
+/**
+ * Yields the ZIP entries of every release in turn. client-zip drains each entry before requesting the next, so the
+ * checksums of a release's resources are known by the time its manifest and ERN message are generated.
+ */
+async function* packageEntries(releases: PackagedRelease[]) {
+  const packaged: PackagedFile[] = [];
+
+  for (const { release, options } of releases) {
+    const folder = release.upc;
+    const files: Record<string, PackagedFile> = {};
+
+    for (const track of release.tracks) {
+      const path = `resources/${track.isrc}.wav`;
+      const response = await fetchStorageFile(await generateMusicUrl(track.music_file_url), `the audio for "${track.title}"`);
+      files[track.id] = { path, size: 0, md5: "", sha256: "" };
+      yield { name: `${folder}/${path}`, input: hashStream(response.body!, files[track.id]) };
+    }
+
+    if (release.cover_art_url) {
+      const path = `resources/${release.upc}.jpg`;
+      const response = await fetchStorageFile(await generateCoverArtUrl(release.cover_art_url), "the cover art");
+      const artwork = await resizeArtwork(await response.blob());
+      files.cover = await hashBytes(artwork, path);
+      yield { name: `${folder}/${path}`, input: artwork };
+    }
+
+    const message = serializeXml(
+      buildNewReleaseMessage(release, { ...options, ...messageFileOptions(files) })
+    );
+    // Only known once the resources are hashed; an invalid message aborts the package
+    const schemaErrors = await validateAgainstErnSchema(message);
+    if (schemaErrors.length > 0) {
+      throw new Error(`${release.title}: the DDEX message does not validate: ${schemaErrors.slice(0, 5).join("; ")}`);
+    }
+    const messageBytes = new TextEncoder().encode(message);
+    const messageFile = await hashBytes(messageBytes, `${release.upc}.xml`);
+    yield { name: `${folder}/${messageFile.path}`, input: messageBytes };
+
+    const manifest = deliveryManifest(release, files, messageFile);
+    yield { name: `${folder}/manifest.json`, input: JSON.stringify(manifest, null, 2) };
+
+    packaged.push(...[...Object.values(files), messageFile].map((file) => ({ ...file, path: `${folder}/${file.path}` })));
+  }
+
+  yield { name: "checksums.md5", input: checksumList(packaged, "md5") };
+  yield { name: "checksums.sha256", input: checksumList(packaged, "sha256") };
+}
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<{ createWritable: () => Promise<WritableStream<Uint8Array>> }>;
+
+/**
+ * Builds a delivery ZIP for approved releases and saves it, streamed straight to disk where the browser supports it
+ * and otherwise streamed to the downloads through a service worker. Only small packages are ever collected into a
+ * Blob, where neither is available. Returns the problems that stopped the package from being built, checked before
+ * any file is transferred.
+ */
+export async function saveDeliveryPackage(releaseIds: string[]): Promise<string[]> {
+  const filename = `delivery_${new Date().toISOString().slice(0, 10)}.zip`;
+
+  // The picker needs the click's user activation, so it is opened before the slow work starts
+  const browser = window as Window & { showSaveFilePicker?: SaveFilePicker };
+  let writable: WritableStream<Uint8Array> | null = null;
+  if (browser.showSaveFilePicker) {
+    try {
+      const handle = await browser.showSaveFilePicker({
+        suggestedName: filename,
+        types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+      });
+      writable = await handle.createWritable();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return [];
+      throw error;
+    }
+  }
+
+  try {
+    const releases = await Promise.all(releaseIds.map((id) => loadDdexRelease(id)));
+    const problems = releases.flatMap(releaseProblems);
+    if (problems.length > 0) {
+      await writable?.abort();
+      return problems;
+    }
+
+    writable ??= await openDownloadStream(filename);
+    if (!writable) {
+      const tracks = releases.flatMap(({ release }) => release.tracks);
+      const audioBytes = tracks.reduce((sum, track) => sum + (track.file_size ?? Infinity), 0);
+      if (audioBytes > MAX_BUFFERED_PACKAGE_BYTES) {
+        throw new Error(
+          "This browser can't stream a package this large to disk. Use Chrome or Edge, or leave private browsing, and try again."
+        );
+      }
+    }
+
+    const archive = downloadZip(packageEntries(releases));
+
+    if (writable) {
+      await archive.body!.pipeTo(writable);
+      return [];
+    }
+
+    triggerDownload(URL.createObjectURL(await archive.blob()), filename);
+    return [];
+  } catch (error) {
+    // pipeTo has already aborted the file if the archive itself failed
+    await writable?.abort().catch(() => undefined);
+    throw error;
+  }
+}
@@ -0,0 +1,75 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type Store = Tables<"stores">;
+export type ReleaseStore = Tables<"release_stores">;
+export type DeliveryEvent = Tables<"delivery_events">;
+export type DeliveryTarget = Tables<"delivery_targets">;
+export type DeliveryJob = Tables<"delivery_jobs">;
+
+// Delivery to a store moves forward through these states; "error" can happen at any point
+export const DELIVERY_STATUSES = ["queued", "delivered", "ingested", "live", "error"] as const;
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  queued: "Queued",
+  delivered: "Delivered",
+  ingested: "Ingested",
+  live: "Live",
+  error: "Error",
+};
+
+export const DELIVERY_STATUS_VARIANTS: Record<DeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  delivered: "secondary",
+  ingested: "secondary",
+  live: "default",
+  error: "destructive",
+};
+
+/**
+ * Label for a store's delivery state; stores without one are waiting for approval
+ */
+export function deliveryStatusLabel(status: string | null): string {
+  return status ? DELIVERY_STATUS_LABELS[status as DeliveryStatus] ?? status : "Awaiting approval";
+}
+
+/**
+ * One-line answer to "is it live yet?", e.g. "Live on 3 of 5 stores" or "1 store has a delivery error"
+ */
+export function summarizeDelivery(releaseStores: Pick<ReleaseStore, "status">[]): string {
+  const total = releaseStores.length;
+  if (total === 0) return "No stores selected";
+
+  const errors = releaseStores.filter((row) => row.status === "error").length;
+  if (errors > 0) return `${errors} store${errors === 1 ? " has a" : "s have"} delivery error${errors === 1 ? "" : "s"}`;
+
+  const live = releaseStores.filter((row) => row.status === "live").length;
+  if (live > 0) return `Live on ${live} of ${total} store${total === 1 ? "" : "s"}`;
+
+  if (releaseStores.every((row) => row.status === null)) return `${total} store${total === 1 ? "" : "s"} selected`;
+  return `Delivering to ${total} store${total === 1 ? "" : "s"}`;
+}
+
+export const DELIVERY_PROTOCOLS = ["sftp", "s3"] as const;
+export type DeliveryProtocol = (typeof DELIVERY_PROTOCOLS)[number];
+
+export const DELIVERY_PROTOCOL_LABELS: Record<DeliveryProtocol, string> = {
+  sftp: "SFTP",
+  s3: "S3",
+};
+
+/**
+ * Where a target writes, e.g. "sftp://ingest@sftp.example.com:2222/incoming" or "s3://bucket/prefix"
+ */
+export function describeDeliveryTarget(target: Pick<DeliveryTarget, "protocol" | "host" | "port" | "username" | "bucket" | "path_prefix">): string {
+  const prefix = target.path_prefix ? `/${target.path_prefix}` : "";
+  if (target.protocol === "s3") return `s3://${target.bucket}${prefix}`;
+  return `sftp://${target.username}@${target.host}${target.port ? `:${target.port}` : ""}${prefix}`;
+}
+
+export const DELIVERY_JOB_STATUS_LABELS: Record<string, string> = {
+  pending: "Waiting",
+  running: "Uploading",
+  completed: "Completed",
+  failed: "Failed",
+};
@@ -0,0 +1,32 @@
+import { validateXML } from "xmllint-wasm";
+
+// The official ERN 4.3 schema the delivery worker validates against (worker/src/ern-schema.ts), bundled from the copy
+// `npm run fetch-schema` downloads there; run it before building
+const ERN_SCHEMA_FILE = "release-notification.xsd";
+const schemaSources = import.meta.glob<string>("../../worker/schemas/ern-43/*.xsd", { query: "?raw", import: "default" });
+
+let schemaFiles: Promise<{ fileName: string; contents: string }[]> | undefined;
+
+function loadSchemaFiles() {
+  schemaFiles ??= Promise.all(
+    Object.entries(schemaSources).map(async ([path, load]) => ({ fileName: path.split("/").pop()!, contents: await load() }))
+  );
+  return schemaFiles;
+}
+
+/**
+ * Validates a serialized message against the official ERN 4.3 XSD with libxml2, the same check the delivery worker
+ * runs before sending; returns its errors
+ */
+export async function validateAgainstErnSchema(xml: string): Promise<string[]> {
+  const files = await loadSchemaFiles();
+  const schema = files.find(({ fileName }) => fileName === ERN_SCHEMA_FILE);
+  if (!schema) throw new Error("This build does not include the ERN 4.3 schema, so DDEX messages can't be validated.");
+
+  const result = await validateXML({
+    xml: { fileName: "message.xml", contents: xml },
+    schema,
+    preload: files.filter((file) => file !== schema),
+  });
+  return result.errors.map(({ message, loc }) => (loc ? `line ${loc.lineNumber}: ${message}` : message));
+}
@@ -0,0 +1,48 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export type Genre = Tables<"genres">;
+
+export interface GenreGroup {
+  genre: Genre;
+  subgenres: Genre[];
+}
+
+/**
+ * Lower-cases and strips everything but letters and digits, matching public.genre_slug
+ */
+export function genreSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Nests subgenres under their parent, both levels sorted by name
+ */
+export function buildGenreTree(genres: Genre[]): GenreGroup[] {
+  const byName = (a: Genre, b: Genre) => a.name.localeCompare(b.name);
+  return genres
+    .filter((genre) => !genre.parent_id)
+    .sort(byName)
+    .map((genre) => ({
+      genre,
+      subgenres: genres.filter((sub) => sub.parent_id === genre.id).sort(byName),
+    }));
+}
+
+/**
+ * Display label for a genre id, e.g. "Hip-Hop/Rap › Trap"
+ */
+export function genreLabel(genres: Genre[], id: string | null | undefined): string {
+  const genre = genres.find((g) => g.id === id);
+  if (!genre) return "";
+  const parent = genre.parent_id ? genres.find((g) => g.id === genre.parent_id) : undefined;
+  return parent ? `${parent.name} › ${genre.name}` : genre.name;
+}
+
+/**
+ * Whether a genre id is the given genre or one of its subgenres
+ */
+export function isWithinGenre(genres: Genre[], id: string | null | undefined, ancestorId: string): boolean {
+  if (!id) return false;
+  if (id === ancestorId) return true;
+  return genres.some((g) => g.id === id && g.parent_id === ancestorId);
+}
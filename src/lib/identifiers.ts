@@ -0,0 +1,53 @@
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{2}\d{5}$/;
+
+/**
+ * Strips spaces and hyphens and upper-cases an identifier as typed by a user
+ */
+export function normalizeIdentifier(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+/**
+ * Validates a 12-digit UPC-A or 13-digit EAN-13 including its GS1 check digit
+ */
+export function isValidGtin(value: string): boolean {
+  const code = normalizeIdentifier(value);
+  if (!/^\d{12,13}$/.test(code)) return false;
+
+  const digits = code.split("").map(Number);
+  const checkDigit = digits.pop();
+  // GS1 weights alternate 3, 1, ... starting from the digit next to the check digit
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === checkDigit;
+}
+
+/**
+ * Validates an ISRC in CC-XXX-YY-NNNNN form, with or without hyphens
+ */
+export function isValidIsrc(value: string): boolean {
+  return ISRC_PATTERN.test(normalizeIdentifier(value));
+}
+
+/**
+ * Formats a stored (compact) ISRC for display, e.g. "US-RC1-76-07839"
+ */
+export function formatIsrc(value: string | null | undefined): string {
+  if (!value) return "";
+  const code = normalizeIdentifier(value);
+  if (!ISRC_PATTERN.test(code)) return value;
+  return `${code.slice(0, 2)}-${code.slice(2, 5)}-${code.slice(5, 7)}-${code.slice(7)}`;
+}
+
+/**
+ * Turns a unique-constraint violation on a catalog code into a readable message
+ */
+export function identifierConflictMessage(error: { code?: string; message?: string }): string | null {
+  if (error?.code !== "23505") return null;
+  if (error.message?.includes("tracks_isrc_key")) {
+    return "This ISRC is already used by another track in the catalog.";
+  }
+  if (error.message?.includes("releases_upc_key")) {
+    return "This UPC/EAN is already used by another release in the catalog.";
+  }
+  return null;
+}
@@ -0,0 +1,193 @@
+/**
+ * EBU R128 loudness measurement (ITU-R BS.1770-4 and EBU Tech 3342)
+ */
+
+export interface LoudnessReport {
+  // Gated programme loudness in LUFS; null for silence, where every block falls below the absolute gate
+  integrated: number | null;
+  // Loudness range in LU
+  range: number;
+  // Highest inter-sample peak in dBTP
+  truePeak: number;
+}
+
+// Stores reject or turn down masters above these; both are warnings for reviewers rather than hard limits
+export const TRUE_PEAK_LIMIT_DBTP = -1;
+export const INTEGRATED_LIMIT_LUFS = -7;
+
+const ABSOLUTE_GATE_LUFS = -70;
+const SEGMENT_SECONDS = 0.1;
+// Momentary blocks are 400 ms and short-term windows 3 s, both stepped by one 100 ms segment
+const MOMENTARY_SEGMENTS = 4;
+const SHORT_TERM_SEGMENTS = 30;
+// Reported for digital silence, which has no peak at all
+const SILENCE_DB = -99;
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// The K-weighting pre-filter and RLB high-pass, derived for any sample rate from BS.1770's 48 kHz definitions
+function kWeighting(sampleRate: number): [Biquad, Biquad] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = 10 ** (3.999843853973347 / 20);
+  const Vb = Vh ** 0.4996667741545416;
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0,
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = { b0: 1, b1: -2, b2: 1, a1: (2 * (K * K - 1)) / a0, a2: (1 - K / Q + K * K) / a0 };
+  return [shelf, highPass];
+}
+
+// 4x oversampling for true peak: each phase interpolates a point between the middle two of the last 12 samples,
+// with a Hann-windowed sinc; phase 0 lands on the sample itself
+const OVERSAMPLING = 4;
+const PHASE_TAPS = 12;
+const TRUE_PEAK_PHASES = Array.from({ length: OVERSAMPLING }, (_, phase) =>
+  Array.from({ length: PHASE_TAPS }, (_, tap) => {
+    const x = PHASE_TAPS / 2 - 1 + phase / OVERSAMPLING - tap;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    return sinc * (0.5 + 0.5 * Math.cos((Math.PI * x) / (PHASE_TAPS / 2)));
+  })
+);
+
+function energyToLufs(energy: number): number {
+  return -0.691 + 10 * Math.log10(energy);
+}
+
+function gatedMean(energies: number[], relativeGate: number): { energies: number[]; mean: number } {
+  const absolute = energies.filter((energy) => energyToLufs(energy) > ABSOLUTE_GATE_LUFS);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  if (absolute.length === 0) return { energies: [], mean: 0 };
+  const threshold = energyToLufs(mean(absolute)) + relativeGate;
+  const gated = absolute.filter((energy) => energyToLufs(energy) > threshold);
+  return { energies: gated, mean: mean(gated) };
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.round(fraction * (sorted.length - 1)))];
+}
+
+/**
+ * Measures loudness incrementally; feed it every block of samples in order, then read the report
+ */
+export function createLoudnessMeter(sampleRate: number, channels: number) {
+  const [shelf, highPass] = kWeighting(sampleRate);
+  // Two biquad states per channel, plus recent samples for the true-peak interpolator
+  const filterState = Array.from({ length: channels }, () => new Float64Array(8));
+  const history = Array.from({ length: channels }, () => new Float32Array(PHASE_TAPS));
+  const segmentFrames = Math.round(sampleRate * SEGMENT_SECONDS);
+  const segments: number[] = [];
+  let segmentEnergy = 0;
+  let segmentFill = 0;
+  let peak = 0;
+
+  const push = (block: Float32Array[]) => {
+    const frames = block[0].length;
+    for (let frame = 0; frame < frames; frame++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const sample = block[channel][frame];
+        const s = filterState[channel];
+
+        const y1 = shelf.b0 * sample + shelf.b1 * s[0] + shelf.b2 * s[1] - shelf.a1 * s[2] - shelf.a2 * s[3];
+        s[1] = s[0];
+        s[0] = sample;
+        s[3] = s[2];
+        s[2] = y1;
+        const y2 = highPass.b0 * y1 + highPass.b1 * s[4] + highPass.b2 * s[5] - highPass.a1 * s[6] - highPass.a2 * s[7];
+        s[5] = s[4];
+        s[4] = y1;
+        s[7] = s[6];
+        s[6] = y2;
+        // Left, right and centre all weigh 1; surround channels never reach here since uploads are stereo
+        segmentEnergy += y2 * y2;
+
+        const recent = history[channel];
+        recent.copyWithin(0, 1);
+        recent[PHASE_TAPS - 1] = sample;
+        for (const taps of TRUE_PEAK_PHASES) {
+          let value = 0;
+          for (let tap = 0; tap < PHASE_TAPS; tap++) value += taps[tap] * recent[tap];
+          if (Math.abs(value) > peak) peak = Math.abs(value);
+        }
+      }
+      if (++segmentFill === segmentFrames) {
+        segments.push(segmentEnergy / segmentFrames);
+        segmentEnergy = 0;
+        segmentFill = 0;
+      }
+    }
+  };
+
+  const windows = (length: number) => {
+    const energies: number[] = [];
+    for (let start = 0; start + length <= segments.length; start++) {
+      let sum = 0;
+      for (let index = start; index < start + length; index++) sum += segments[index];
+      energies.push(sum / length);
+    }
+    return energies;
+  };
+
+  const report = (): LoudnessReport => {
+    const momentary = gatedMean(windows(MOMENTARY_SEGMENTS), -10);
+    const shortTerm = gatedMean(windows(SHORT_TERM_SEGMENTS), -20).energies.map(energyToLufs).sort((a, b) => a - b);
+    return {
+      integrated: momentary.energies.length > 0 ? energyToLufs(momentary.mean) : null,
+      range: shortTerm.length > 0 ? percentile(shortTerm, 0.95) - percentile(shortTerm, 0.1) : 0,
+      truePeak: peak > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(peak)) : SILENCE_DB,
+    };
+  };
+
+  return { push, report };
+}
+
+/**
+ * Reviewer-facing problems with a loudness report, empty when it is within limits
+ */
+export function loudnessWarnings(report: LoudnessReport): string[] {
+  const warnings: string[] = [];
+  if (report.truePeak > TRUE_PEAK_LIMIT_DBTP) {
+    warnings.push(`True peak ${formatLevel(report.truePeak)} dBTP is above ${TRUE_PEAK_LIMIT_DBTP} dBTP and may distort when encoded.`);
+  }
+  if (report.integrated !== null && report.integrated > INTEGRATED_LIMIT_LUFS) {
+    warnings.push(`Integrated loudness ${formatLevel(report.integrated)} LUFS is louder than ${INTEGRATED_LIMIT_LUFS} LUFS.`);
+  }
+  return warnings;
+}
+
+export function formatLevel(value: number): string {
+  return value.toFixed(1).replace("-", "−");
+}
+
+interface TrackLoudnessColumns {
+  integrated_loudness_lufs: number | null;
+  loudness_range_lu: number | null;
+  true_peak_dbtp: number | null;
+}
+
+/**
+ * The report stored on a track, or null for tracks uploaded before loudness was measured
+ */
+export function trackLoudness(track: TrackLoudnessColumns): LoudnessReport | null {
+  if (track.true_peak_dbtp === null) return null;
+  return {
+    integrated: track.integrated_loudness_lufs,
+    range: track.loudness_range_lu ?? 0,
+    truePeak: track.true_peak_dbtp,
+  };
+}
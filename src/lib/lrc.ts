@@ -0,0 +1,108 @@
+export interface LrcLine {
+  time: number;
+  text: string;
+}
+
+export interface ParsedLrc {
+  lines: LrcLine[];
+  errors: string[];
+}
+
+const TIMESTAMP_PATTERN = /^\[(\d{1,3}):(\d{2})(?:[.:](\d{1,3}))?\]/;
+const TAG_PATTERN = /^\[([a-z#]+):(.*)\]$/i;
+
+/**
+ * Parses LRC text into timed lines, applying any [offset:] tag and collecting line-level errors
+ */
+export function parseLrc(text: string): ParsedLrc {
+  const lines: LrcLine[] = [];
+  const errors: string[] = [];
+  let offsetMs = 0;
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+
+    const timestamp = TIMESTAMP_PATTERN.exec(line);
+    if (!timestamp) {
+      const tag = TAG_PATTERN.exec(line);
+      if (tag) {
+        if (tag[1].toLowerCase() === "offset") offsetMs = Number(tag[2]) || 0;
+        return;
+      }
+      errors.push(`Line ${index + 1} has no [mm:ss.xx] timestamp.`);
+      return;
+    }
+
+    const rest = line.slice(timestamp[0].length);
+    if (TIMESTAMP_PATTERN.test(rest)) {
+      errors.push(`Line ${index + 1} has several timestamps; repeat the line once per timestamp instead.`);
+      return;
+    }
+
+    const [, minutes, seconds, fraction = "0"] = timestamp;
+    if (Number(seconds) >= 60) {
+      errors.push(`Line ${index + 1} has an invalid timestamp.`);
+      return;
+    }
+    lines.push({
+      time: Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction}`),
+      text: rest.trim(),
+    });
+  });
+
+  // A positive offset makes lyrics appear earlier
+  if (offsetMs) {
+    lines.forEach((line) => (line.time = Math.max(0, line.time - offsetMs / 1000)));
+  }
+
+  return { lines, errors };
+}
+
+/**
+ * Returns the first problem with a set of timed lines, or null when they are usable
+ */
+export function validateLrcLines(lines: LrcLine[], duration?: number): string | null {
+  if (lines.length === 0) return "Synced lyrics need at least one timed line.";
+  for (let i = 1; i < lines.length; i++) {
+    if (lines[i].time <= lines[i - 1].time) {
+      return `Timestamps must increase: line ${i + 1} (${formatLrcTimestamp(lines[i].time)}) does not come after line ${i} (${formatLrcTimestamp(lines[i - 1].time)}).`;
+    }
+  }
+  const last = lines[lines.length - 1];
+  if (duration && last.time > duration) {
+    return `Line ${lines.length} (${formatLrcTimestamp(last.time)}) is past the end of the track (${formatLrcTimestamp(duration)}).`;
+  }
+  return null;
+}
+
+/**
+ * Parses and validates LRC text in one step
+ */
+export function validateLrc(text: string, duration?: number): string | null {
+  const { lines, errors } = parseLrc(text);
+  return errors[0] ?? validateLrcLines(lines, duration);
+}
+
+/**
+ * Formats seconds as an LRC timestamp body, e.g. 83.456 → "01:23.45"
+ */
+export function formatLrcTimestamp(seconds: number): string {
+  const hundredths = Math.round(seconds * 100);
+  const minutes = Math.floor(hundredths / 6000);
+  const rest = (hundredths % 6000) / 100;
+  return `${String(minutes).padStart(2, "0")}:${rest.toFixed(2).padStart(5, "0")}`;
+}
+
+export function serializeLrc(lines: LrcLine[]): string {
+  return lines.map((line) => `[${formatLrcTimestamp(line.time)}]${line.text}`).join("\n");
+}
+
+/**
+ * Index of the line being sung at the given playback time, or -1 before the first line
+ */
+export function activeLrcLine(lines: LrcLine[], time: number): number {
+  let active = -1;
+  for (let i = 0; i < lines.length && lines[i].time <= time; i++) active = i;
+  return active;
+}
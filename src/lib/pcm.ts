@@ -0,0 +1,34 @@
+import { WavFormat } from "@/lib/wav";
+
+/**
+ * Streams a PCM WAV's samples as one Float32Array per channel, in the range -1 to 1, a block at a time, so files of
+ * any length can be analysed without holding them in memory
+ */
+export async function* readPcmBlocks(file: Blob, format: WavFormat, framesPerBlock = 65536): AsyncGenerator<Float32Array[]> {
+  const { channels, blockAlign, dataOffset } = format;
+  const bytesPerSample = blockAlign / channels;
+  const scale = 2 ** (bytesPerSample * 8 - 1);
+  // Uploads cut short by the artist's export tool can claim more data than the file holds
+  const end = Math.min(dataOffset + format.dataSize, file.size);
+
+  for (let position = dataOffset; position + blockAlign <= end; position += framesPerBlock * blockAlign) {
+    const bytes = new Uint8Array(
+      await file.slice(position, Math.min(position + framesPerBlock * blockAlign, end)).arrayBuffer()
+    );
+    const frames = Math.floor(bytes.byteLength / blockAlign);
+    const block = Array.from({ length: channels }, () => new Float32Array(frames));
+
+    for (let frame = 0; frame < frames; frame++) {
+      for (let channel = 0; channel < channels; channel++) {
+        const offset = frame * blockAlign + channel * bytesPerSample;
+        // Little-endian and signed, except 8-bit WAVs which are offset by 128
+        let value = bytes[offset + bytesPerSample - 1];
+        for (let byte = bytesPerSample - 2; byte >= 0; byte--) value = value * 256 + bytes[offset + byte];
+        if (bytesPerSample === 1) value -= 128;
+        else if (value >= scale) value -= scale * 2;
+        block[channel][frame] = value / scale;
+      }
+    }
+    yield block;
+  }
+}
@@ -0,0 +1,69 @@
+import { addDays, format, isBefore, parseISO, startOfDay } from "date-fns";
+
+/** Days between submission and the earliest allowed release date, mirrored in check_release_schedule */
+export const MIN_RELEASE_LEAD_DAYS = 14;
+
+export const RELEASE_TIMINGS = ["local_midnight", "worldwide"] as const;
+export type ReleaseTiming = (typeof RELEASE_TIMINGS)[number];
+
+export const RELEASE_TIMING_LABELS: Record<ReleaseTiming, string> = {
+  local_midnight: "Local midnight in each territory",
+  worldwide: "Simultaneous worldwide",
+};
+
+export const RELEASE_TIMEZONES = [
+  "UTC",
+  "America/New_York",
+  "America/Los_Angeles",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+] as const;
+
+/**
+ * Earliest release date an artist can request when submitting today
+ */
+export function earliestReleaseDate(from: Date = new Date()): Date {
+  return startOfDay(addDays(from, MIN_RELEASE_LEAD_DAYS));
+}
+
+/**
+ * Converts a picked calendar day to the yyyy-MM-dd form stored in date columns
+ */
+export function toDateColumn(date: Date | undefined | null): string | null {
+  return date ? format(date, "yyyy-MM-dd") : null;
+}
+
+/**
+ * Parses a date column as a local calendar day
+ */
+export function fromDateColumn(value: string | null | undefined): Date | undefined {
+  return value ? parseISO(value) : undefined;
+}
+
+/**
+ * Whether a stored release date is before today
+ */
+export function isReleaseDatePast(value: string | null | undefined): boolean {
+  return Boolean(value) && isBefore(parseISO(value), startOfDay(new Date()));
+}
+
+/**
+ * Human-readable schedule, e.g. "Mar 6, 2026 · 00:00 Asia/Kolkata worldwide · pre-order from Feb 20"
+ */
+export function formatReleaseSchedule(release: {
+  release_date: string | null;
+  preorder_date?: string | null;
+  release_timing: string;
+  release_timezone: string;
+}): string {
+  if (!release.release_date) return "No release date";
+  const day = format(parseISO(release.release_date), "MMM d, yyyy");
+  const timing = release.release_timing === "worldwide"
+    ? `00:00 ${release.release_timezone} worldwide`
+    : "local midnight";
+  const preorder = release.preorder_date ? ` · pre-order from ${format(parseISO(release.preorder_date), "MMM d")}` : "";
+  return `${day} · ${timing}${preorder}`;
+}
@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { RELEASE_TRACK_LIMITS, RELEASE_TYPES, RELEASE_TYPE_LABELS } from "@/lib/releases";
+import { CREDIT_ROLE_VALUES } from "@/lib/credits";
+import { isSplitSheetBalanced, splitTotal } from "@/lib/splits";
+import { isValidGtin, isValidIsrc, normalizeIdentifier } from "@/lib/identifiers";
+import { PARENTAL_ADVISORIES, TRACK_LANGUAGE_CODES, normalizeRightsLine } from "@/lib/track-metadata";
+import { validateLrc } from "@/lib/lrc";
+import { VERSION_TYPES } from "@/lib/versions";
+import { MIN_RELEASE_LEAD_DAYS, RELEASE_TIMINGS, earliestReleaseDate } from "@/lib/release-schedule";
+import { COUNTRY_CODES, TERRITORY_MODES } from "@/lib/territories";
+import { WavFormat, wavFormatProblem } from "@/lib/wav";
+import { AudioAnalysis } from "@/lib/audio-analysis";
+
+export const creditSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required." }),
+  role: z.enum(CREDIT_ROLE_VALUES),
+  is_primary: z.boolean(),
+  profile_id: z.string().optional(),
+  // Optional Spillrix account to link the credit to
+  profile_email: z.string().email({ message: "Enter a valid email." }).optional().or(z.literal("")),
+});
+
+export const splitSchema = z.object({
+  collaborator_name: z.string().trim().min(1, { message: "Name is required." }),
+  collaborator_email: z.string().trim().toLowerCase().email({ message: "Enter a valid email." }),
+  share: z.coerce
+    .number()
+    .gt(0, { message: "Share must be above 0%." })
+    .max(100, { message: "Share cannot exceed 100%." }),
+  // Read-only acceptance state shown while editing
+  status: z.string().optional(),
+});
+
+const rightsLineSchema = (symbol: string) =>
+  z.string().refine((line) => normalizeRightsLine(line) !== null, {
+    message: `Enter the year and owner, e.g. "${symbol} ${new Date().getFullYear()} Spillrix Records".`,
+  });
+
+export const trackSchema = z.object({
+  // Set when editing a track that already exists in the database
+  track_id: z.string().optional(),
+  music_file_url: z.string().optional(),
+  title: z
+    .string()
+    .min(2, { message: "Title must be at least 2 characters." })
+    .refine((title) => !/\b(feat|ft|featuring)\b\.?/i.test(title), {
+      message: "Add featured artists as credits instead of in the title.",
+    }),
+  primary_genre_id: z.string().min(1, { message: "Choose a primary genre." }),
+  secondary_genre_id: z.string().optional(),
+  isrc: z
+    .string()
+    .optional()
+    .refine((isrc) => !isrc || isValidIsrc(isrc), {
+      message: "ISRC must look like CC-XXX-YY-NNNNN (e.g. US-RC1-76-07839).",
+    }),
+  disc_number: z.coerce.number().int().min(1, { message: "Disc number must be 1 or higher." }),
+  parental_advisory: z.enum(PARENTAL_ADVISORIES),
+  language_code: z.enum(TRACK_LANGUAGE_CODES, {
+    errorMap: () => ({ message: "Choose the audio language." }),
+  }),
+  copyright_line: rightsLineSchema("©"),
+  phonographic_line: rightsLineSchema("℗"),
+  label_name: z.string().trim().min(1, { message: "Label or imprint name is required." }),
+  lyrics: z.string().optional(),
+  synced_lyrics: z.string().optional(),
+  // Set when the track is a remix, edit or other version of an existing recording
+  parent_track_id: z.string().optional(),
+  version_type: z.enum(VERSION_TYPES).optional(),
+  version_title: z.string().trim().max(100).optional(),
+  // A recording of a song written by someone else, licensed for specific territories
+  is_cover: z.boolean(),
+  // Read-only, measured from the selected audio so synced lyrics can be checked against it
+  audio_duration: z.number().optional(),
+  // Read-only, from the selected file's WAV header; null when it is not a readable WAV, unset while reading
+  audio_format: z.custom<WavFormat | null>().optional(),
+  // Read-only, measured in a worker once the file passes the format check
+  audio_analysis: z.custom<AudioAnalysis>().optional(),
+  music_file: z.any()
+    .optional()
+    .refine(
+      (files) => !files || files.length === 0 || files?.[0]?.type === "audio/wav",
+      { message: "Music file must be a WAV file." }
+    ),
+  credits: z
+    .array(creditSchema)
+    .refine((credits) => credits.some((credit) => credit.role === "artist" && credit.is_primary), {
+      message: "Each track needs at least one primary artist.",
+    }),
+  splits: z
+    .array(splitSchema)
+    .refine(isSplitSheetBalanced, (splits) => ({
+      message: `Split shares must total 100% (currently ${splitTotal(splits)}%).`,
+    }))
+    .refine(
+      (splits) => new Set(splits.map((split) => split.collaborator_email)).size === splits.length,
+      { message: "Each collaborator can only appear once." }
+    ),
+});
+
+export const releaseFormSchema = z
+  .object({
+    release_title: z.string().min(2, { message: "Release title must be at least 2 characters." }),
+    release_type: z.enum(RELEASE_TYPES),
+    upc: z
+      .string()
+      .optional()
+      .refine((upc) => !upc || isValidGtin(upc), {
+        message: "UPC/EAN must be 12 or 13 digits with a valid check digit.",
+      }),
+    cover_art: z.any().optional(),
+    release_date: z.date({ required_error: "Choose a release date." }),
+    preorder_date: z.date().optional(),
+    release_timing: z.enum(RELEASE_TIMINGS),
+    release_timezone: z.string().min(1),
+    store_ids: z.array(z.string()).min(1, { message: "Choose at least one store." }),
+    territory_mode: z.enum(TERRITORY_MODES),
+    territories: z.array(z.enum(COUNTRY_CODES)),
+    tracks: z.array(trackSchema),
+  })
+  .superRefine((release, ctx) => {
+    if (release.release_date && release.release_date < earliestReleaseDate()) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["release_date"],
+        message: `Release date must be at least ${MIN_RELEASE_LEAD_DAYS} days from today.`,
+      });
+    }
+    if (release.preorder_date && release.release_date && release.preorder_date >= release.release_date) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["preorder_date"],
+        message: "Pre-order must open before the release date.",
+      });
+    }
+
+    if (release.territory_mode !== "worldwide" && release.territories.length === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["territories"],
+        message: "Choose at least one country.",
+      });
+    }
+
+    const { min, max } = RELEASE_TRACK_LIMITS[release.release_type];
+    if (release.tracks.length < min || release.tracks.length > max) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["tracks"],
+        message: `${RELEASE_TYPE_LABELS[release.release_type]} releases need ${min}–${max} tracks.`,
+      });
+    }
+
+    const seenIsrcs = new Set<string>();
+    release.tracks.forEach((track, index) => {
+      const isrc = track.isrc ? normalizeIdentifier(track.isrc) : "";
+      if (isrc && seenIsrcs.has(isrc)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, "isrc"],
+          message: "Each track on a release needs its own ISRC.",
+        });
+      }
+      seenIsrcs.add(isrc);
+      if (track.language_code === "zxx" && (track.lyrics?.trim() || track.synced_lyrics?.trim())) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, track.lyrics?.trim() ? "lyrics" : "synced_lyrics"],
+          message: "Instrumental tracks cannot have lyrics.",
+        });
+      }
+      if (track.parent_track_id && !track.version_type) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, "version_type"],
+          message: "Choose what kind of version this is.",
+        });
+      }
+      const lrcError = track.synced_lyrics?.trim() ? validateLrc(track.synced_lyrics, track.audio_duration) : null;
+      if (lrcError) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, "synced_lyrics"],
+          message: lrcError,
+        });
+      }
+      if (track.secondary_genre_id && track.secondary_genre_id === track.primary_genre_id) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, "secondary_genre_id"],
+          message: "Secondary genre must differ from the primary genre.",
+        });
+      }
+      const formatProblem = track.music_file?.length && track.audio_format !== undefined ? wavFormatProblem(track.audio_format) : null;
+      if (formatProblem) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, "music_file"],
+          message: formatProblem,
+        });
+      }
+      if (!track.music_file_url && !track.music_file?.length) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["tracks", index, "music_file"],
+          message: "A music file is required for a new track.",
+        });
+      }
+    });
+  });
+
+export type CreditFormValues = z.infer<typeof creditSchema>;
+export type SplitFormValues = z.infer<typeof splitSchema>;
+export type TrackFormValues = z.infer<typeof trackSchema>;
+export type ReleaseFormValues = z.infer<typeof releaseFormSchema>;
+
+export const emptyTrack: TrackFormValues = {
+  title: "",
+  primary_genre_id: "",
+  secondary_genre_id: "",
+  isrc: "",
+  disc_number: 1,
+  parental_advisory: "not_explicit",
+  language_code: "",
+  copyright_line: "",
+  phonographic_line: "",
+  label_name: "",
+  lyrics: "",
+  synced_lyrics: "",
+  is_cover: false,
+  credits: [],
+  splits: [],
+};
+
+/**
+ * An empty track credited to, and owned by, the uploading artist
+ */
+export function newTrack(artistName?: string): TrackFormValues {
+  const year = new Date().getFullYear();
+  return {
+    ...emptyTrack,
+    copyright_line: artistName ? `${year} ${artistName}` : "",
+    phonographic_line: artistName ? `${year} ${artistName}` : "",
+    label_name: artistName ?? "",
+    credits: artistName ? [{ name: artistName, role: "artist", is_primary: true, profile_email: "" }] : [],
+  };
+}
@@ -0,0 +1,80 @@
+import { Tables } from "@/integrations/supabase/types";
+
+export const RELEASE_TYPES = ["single", "ep", "album"] as const;
+
+export type ReleaseType = (typeof RELEASE_TYPES)[number];
+
+export const RELEASE_TYPE_LABELS: Record<ReleaseType, string> = {
+  single: "Single",
+  ep: "EP",
+  album: "Album",
+};
+
+/**
+ * Tracklist sizes accepted by stores for each release type
+ */
+export const RELEASE_TRACK_LIMITS: Record<ReleaseType, { min: number; max: number }> = {
+  single: { min: 1, max: 3 },
+  ep: { min: 2, max: 6 },
+  album: { min: 4, max: 100 },
+};
+
+interface TracklistPosition {
+  disc_number?: number;
+  track_number?: number | null;
+}
+
+/**
+ * Assigns sequential track numbers per disc, keeping the given order
+ */
+export function numberTracklist<T extends TracklistPosition>(tracks: T[]): (T & { track_number: number })[] {
+  const counters = new Map<number, number>();
+  return tracks.map((track) => {
+    const disc = track.disc_number ?? 1;
+    const next = (counters.get(disc) ?? 0) + 1;
+    counters.set(disc, next);
+    return { ...track, track_number: next };
+  });
+}
+
+/**
+ * Sorts tracks by disc, then by track number
+ */
+export function sortTracklist<T extends TracklistPosition>(tracks: T[]): T[] {
+  return [...tracks].sort(
+    (a, b) => (a.disc_number ?? 1) - (b.disc_number ?? 1) || (a.track_number ?? 0) - (b.track_number ?? 0)
+  );
+}
+
+/**
+ * Groups tracks by release, keeping releases in first-seen order and
+ * each tracklist sorted by position
+ */
+export function groupTracksByRelease<T extends TracklistPosition & { release_id: string | null; id: string }>(
+  tracks: T[]
+): { releaseId: string; tracks: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const track of tracks) {
+    const key = track.release_id ?? track.id;
+    groups.set(key, [...(groups.get(key) ?? []), track]);
+  }
+  return Array.from(groups, ([releaseId, grouped]) => ({ releaseId, tracks: sortTracklist(grouped) }));
+}
+
+/**
+ * Formats a tracklist position, e.g. "3" or "2-05" for multi-disc releases
+ */
+export function formatTrackPosition(track: TracklistPosition, multiDisc: boolean): string {
+  const number = track.track_number ?? 0;
+  return multiDisc ? `${track.disc_number ?? 1}-${number.toString().padStart(2, "0")}` : `${number}`;
+}
+
+export type TrackWithDetails = Tables<"tracks"> & {
+  track_credits?: Tables<"track_credits">[];
+  track_splits?: Tables<"track_splits">[];
+};
+
+export type ReleaseWithTracks = Tables<"releases"> & {
+  tracks: TrackWithDetails[];
+  release_stores?: Tables<"release_stores">[];
+};
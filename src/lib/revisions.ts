@@ -0,0 +1,73 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { formatCredit } from "@/lib/credits";
+import { Genre, genreLabel } from "@/lib/genres";
+import { formatIsrc } from "@/lib/identifiers";
+import { PARENTAL_ADVISORY_LABELS, ParentalAdvisory, formatRightsLine, languageLabel } from "@/lib/track-metadata";
+import { versionLabel } from "@/lib/versions";
+
+export type TrackRevision = Tables<"track_revisions">;
+
+/**
+ * The track row as it was submitted, with its credits in billing order
+ */
+export type TrackSnapshot = Partial<Tables<"tracks">> & {
+  credits?: { name: string; role: string; is_primary: boolean; profile_id: string | null }[];
+};
+
+export const REVISION_REASON_LABELS: Record<string, string> = {
+  submitted: "Submitted",
+  restored: "Restored",
+};
+
+export interface RevisionField {
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+  // Set when the values are storage paths, so the dialog can preview them
+  kind?: "audio" | "artwork";
+}
+
+export function snapshotOf(revision: TrackRevision): TrackSnapshot {
+  return (revision.snapshot ?? {}) as TrackSnapshot;
+}
+
+/**
+ * Uploads live under "<artist>/<upload id>/<name>", so the diff table only shows the name, e.g. "mix-v2.wav"
+ */
+export function revisionFileLabel(path: string): string {
+  return path.split("/").pop() || "—";
+}
+
+/**
+ * Lists every reviewable field of two revisions side by side, flagging the ones that differ
+ */
+export function diffRevisions(before: TrackRevision | null, after: TrackRevision, genres: Genre[]): RevisionField[] {
+  const fields: { label: string; value: (revision: TrackRevision) => string; kind?: RevisionField["kind"] }[] = [
+    { label: "Title", value: (r) => snapshotOf(r).title ?? "" },
+    { label: "Version", value: (r) => versionLabel(snapshotOf(r)) },
+    { label: "ISRC", value: (r) => formatIsrc(snapshotOf(r).isrc) },
+    { label: "Primary genre", value: (r) => genreLabel(genres, snapshotOf(r).primary_genre_id) },
+    { label: "Secondary genre", value: (r) => genreLabel(genres, snapshotOf(r).secondary_genre_id) },
+    { label: "Language", value: (r) => languageLabel(snapshotOf(r).language_code) },
+    {
+      label: "Explicit",
+      value: (r) => PARENTAL_ADVISORY_LABELS[snapshotOf(r).parental_advisory as ParentalAdvisory] ?? "",
+    },
+    { label: "Cover song", value: (r) => (snapshotOf(r).is_cover ? "Yes" : "No") },
+    { label: "Label", value: (r) => snapshotOf(r).label_name ?? "" },
+    { label: "©", value: (r) => formatRightsLine("©", snapshotOf(r).copyright_line) },
+    { label: "℗", value: (r) => formatRightsLine("℗", snapshotOf(r).phonographic_line) },
+    { label: "Credits", value: (r) => (snapshotOf(r).credits ?? []).map(formatCredit).join("\n") },
+    { label: "Lyrics", value: (r) => snapshotOf(r).lyrics ?? "" },
+    { label: "Synced lyrics", value: (r) => snapshotOf(r).synced_lyrics ?? "" },
+    { label: "Audio file", value: (r) => r.music_file_url ?? "", kind: "audio" },
+    { label: "Cover art", value: (r) => r.cover_art_url ?? "", kind: "artwork" },
+  ];
+
+  return fields.map(({ label, value, kind }) => {
+    const beforeValue = before ? value(before) : "";
+    const afterValue = value(after);
+    return { label, before: beforeValue, after: afterValue, changed: before !== null && beforeValue !== afterValue, kind };
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Frequency analysis of an upload: the spectrogram reviewers read and the lowpass cutoff that gives away lossy sources
+ * transcoded to WAV
+ */
+
+export const FFT_SIZE = 4096;
+export const SPECTRUM_BINS = FFT_SIZE / 2;
+
+export interface Spectrogram {
+  sampleRate: number;
+  duration: number;
+  columns: number;
+  // Level in dB relative to full scale of each bin from 0 Hz to Nyquist, one column after another
+  levels: Float32Array;
+  cutoff: number | null;
+}
+
+// MP3 and AAC encoders low-pass at around 16 kHz at 128 kbps; lossless masters carry content well above it
+export const LOSSY_CUTOFF_HZ = 17000;
+// Averaging this many windows spread across the track is enough for a stable spectrum
+const CUTOFF_WINDOWS = 1000;
+const BAND_HZ = 100;
+// An encoder's lowpass drops this far within half a kilohertz; natural roll-off is far gentler
+const EDGE_WINDOW_HZ = 500;
+const EDGE_DB = 24;
+// Below this a drop is part of the music, not a lowpass
+const MIN_CUTOFF_HZ = 5000;
+const FLOOR_DB = -160;
+
+const HANN = Float64Array.from({ length: FFT_SIZE }, (_, index) => 0.5 - 0.5 * Math.cos((2 * Math.PI * index) / (FFT_SIZE - 1)));
+// A full-scale sine through the Hann window peaks at FFT_SIZE / 4
+const FULL_SCALE_POWER = (FFT_SIZE / 4) ** 2;
+
+// In-place iterative radix-2 FFT
+function fft(real: Float64Array, imag: Float64Array) {
+  const size = real.length;
+  for (let index = 1, reversed = 0; index < size; index++) {
+    let bit = size >> 1;
+    for (; reversed & bit; bit >>= 1) reversed ^= bit;
+    reversed ^= bit;
+    if (index < reversed) {
+      [real[index], real[reversed]] = [real[reversed], real[index]];
+      [imag[index], imag[reversed]] = [imag[reversed], imag[index]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length;
+    for (let start = 0; start < size; start += length) {
+      for (let offset = 0; offset < length / 2; offset++) {
+        const cos = Math.cos(angle * offset);
+        const sin = Math.sin(angle * offset);
+        const even = start + offset;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * cos - imag[odd] * sin;
+        const oddImag = real[odd] * sin + imag[odd] * cos;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+      }
+    }
+  }
+}
+
+const toDb = (power: number) => Math.max(FLOOR_DB, 10 * Math.log10(power / FULL_SCALE_POWER));
+
+/**
+ * The highest frequency the averaged spectrum reaches before a sharp drop to the noise floor; Nyquist when there is no
+ * such edge, and null for silence
+ */
+function detectCutoff(power: Float64Array, sampleRate: number): number | null {
+  const binHz = sampleRate / FFT_SIZE;
+  const binsPerBand = Math.max(1, Math.round(BAND_HZ / binHz));
+  const bandHz = binHz * binsPerBand;
+  const levels: number[] = [];
+  for (let start = 0; start + binsPerBand <= power.length; start += binsPerBand) {
+    let sum = 0;
+    for (let bin = start; bin < start + binsPerBand; bin++) sum += power[bin];
+    levels.push(sum / binsPerBand);
+  }
+  if (!levels.some((level) => level > 0)) return null;
+  const bands = levels.map(toDb);
+
+  const edgeBands = Math.round(EDGE_WINDOW_HZ / bandHz);
+  let loudestAbove: number = FLOOR_DB;
+  for (let band = bands.length - 1; band >= Math.max(edgeBands, Math.ceil(MIN_CUTOFF_HZ / bandHz)); band--) {
+    loudestAbove = Math.max(loudestAbove, bands[band]);
+    const below = bands.slice(band - edgeBands, band).reduce((sum, level) => sum + level, 0) / edgeBands;
+    if (below - loudestAbove >= EDGE_DB) return Math.round(band * bandHz);
+  }
+  return sampleRate / 2;
+}
+
+/**
+ * Takes evenly spaced windows across the track and averages their spectra; feed it every block of samples in order.
+ * `onColumn` receives each window's levels in dB, for drawing a spectrogram.
+ */
+export function createSpectrumCollector(
+  sampleRate: number,
+  channels: number,
+  totalFrames: number,
+  windows = CUTOFF_WINDOWS,
+  onColumn?: (levels: Float32Array) => void
+) {
+  const hop = Math.max(FFT_SIZE, Math.floor(totalFrames / windows));
+  const samples = Array.from({ length: channels }, () => new Float64Array(FFT_SIZE));
+  const real = new Float64Array(FFT_SIZE);
+  const imag = new Float64Array(FFT_SIZE);
+  const windowPower = new Float64Array(SPECTRUM_BINS);
+  const power = new Float64Array(SPECTRUM_BINS);
+  let windowStart = 0;
+  let position = 0;
+
+  // Channels are transformed separately, since summing them first would cancel out-of-phase content
+  const analyseWindow = () => {
+    windowPower.fill(0);
+    for (const channel of samples) {
+      for (let index = 0; index < FFT_SIZE; index++) real[index] = channel[index] * HANN[index];
+      imag.fill(0);
+      fft(real, imag);
+      for (let bin = 0; bin < SPECTRUM_BINS; bin++) windowPower[bin] += (real[bin] * real[bin] + imag[bin] * imag[bin]) / channels;
+    }
+    for (let bin = 0; bin < SPECTRUM_BINS; bin++) power[bin] += windowPower[bin];
+    onColumn?.(Float32Array.from(windowPower, toDb));
+  };
+
+  const push = (block: Float32Array[]) => {
+    for (let frame = 0; frame < block[0].length; frame++, position++) {
+      const offset = position - windowStart;
+      if (offset < 0 || offset >= FFT_SIZE) continue;
+      for (let channel = 0; channel < channels; channel++) samples[channel][offset] = block[channel][frame];
+      if (offset === FFT_SIZE - 1) {
+        analyseWindow();
+        windowStart += hop;
+      }
+    }
+  };
+
+  return { push, cutoff: () => detectCutoff(power, sampleRate) };
+}
+
+export function isLossyCutoff(cutoff: number | null): boolean {
+  return cutoff !== null && cutoff < LOSSY_CUTOFF_HZ;
+}
+
+export function formatFrequency(hertz: number): string {
+  return `${(hertz / 1000).toFixed(1)} kHz`;
+}
+
+export function cutoffWarning(cutoff: number | null): string | null {
+  if (!isLossyCutoff(cutoff)) return null;
+  return `Content stops at ${formatFrequency(cutoff)}, typical of an MP3 or AAC converted to WAV.`;
+}
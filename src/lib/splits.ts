@@ -0,0 +1,35 @@
+export const SPLIT_STATUS_LABELS: Record<string, string> = {
+  invited: "Invited",
+  accepted: "Accepted",
+  disputed: "Disputed",
+};
+
+interface SplitLike {
+  share?: number;
+  status?: string;
+}
+
+/**
+ * Sums split shares, rounded to the two decimals the database stores
+ */
+export function splitTotal(splits: SplitLike[]): number {
+  return Math.round(splits.reduce((total, split) => total + Number(split.share || 0), 0) * 100) / 100;
+}
+
+/**
+ * A track without a split sheet is complete; otherwise shares must total 100%
+ */
+export function isSplitSheetBalanced(splits: SplitLike[]): boolean {
+  return splits.length === 0 || splitTotal(splits) === 100;
+}
+
+/**
+ * Counts accepted splits across all tracks of a release
+ */
+export function releaseSplitProgress(tracks: { track_splits?: SplitLike[] }[]): { accepted: number; total: number } {
+  const splits = tracks.flatMap((track) => track.track_splits ?? []);
+  return {
+    accepted: splits.filter((split) => split.status === "accepted").length,
+    total: splits.length,
+  };
+}
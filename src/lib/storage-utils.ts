@@ -1,13 +1,18 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { WavFormat } from "@/lib/wav";
+import { WaveformPeaks } from "@/lib/waveform";
 
 /**
- * Generates a signed URL from a file path, with fallback bucket support
+ * Generates a signed URL from a file path, with fallback bucket support.
+ * When `downloadName` is given the file is served as an attachment with that name.
  */
 export async function generateSignedUrl(
   filePath: string, 
   primaryBucket: string, 
   fallbackBucket?: string,
-  expiresIn = 3600
+  expiresIn = 3600,
+  downloadName?: string
 ): Promise<string | null> {
   // If it's already a full URL, return it
   if (filePath?.startsWith('http')) {
@@ -22,7 +27,7 @@ export async function generateSignedUrl(
     // Try primary bucket first
     const { data, error } = await supabase.storage
       .from(primaryBucket)
-      .createSignedUrl(filePath, expiresIn);
+      .createSignedUrl(filePath, expiresIn, downloadName ? { download: downloadName } : undefined);
 
     if (!error && data?.signedUrl) {
       return data.signedUrl;
@@ -32,7 +37,7 @@ export async function generateSignedUrl(
     if (fallbackBucket) {
       const { data: fallbackData, error: fallbackError } = await supabase.storage
         .from(fallbackBucket)
-        .createSignedUrl(filePath, expiresIn);
+        .createSignedUrl(filePath, expiresIn, downloadName ? { download: downloadName } : undefined);
 
       if (!fallbackError && fallbackData?.signedUrl) {
         return fallbackData.signedUrl;
@@ -59,4 +64,91 @@ export function generateMusicUrl(filePath: string): Promise<string | null> {
  */
 export function generateCoverArtUrl(filePath: string): Promise<string | null> {
   return generateSignedUrl(filePath, 'cover-art', 'tracks');
-}
\ No newline at end of file
+}
+/**
+ * Where uploadArtistFile stores a file it is given a folder for
+ */
+export function artistFilePath(artistId: string, folder: string, fileName: string): string {
+  return `${artistId}/${folder}/${fileName}`;
+}
+
+/**
+ * Uploads an artist's file into a folder of its own, so a resubmission never overwrites the file an earlier
+ * revision points at. Passing a folder, such as the id of the row the file belongs to, makes the path fixed and
+ * replaces whatever an earlier attempt left there.
+ */
+export async function uploadArtistFile(bucket: string, artistId: string, file: File, folder?: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .upload(artistFilePath(artistId, folder ?? crypto.randomUUID(), file.name), file, { upsert: folder !== undefined });
+  if (error) throw error;
+  return data.path;
+}
+
+/**
+ * Uploads a WAV and has the validate-wav function check its header on the server, which deletes files it rejects
+ */
+export async function uploadMusicFile(
+  artistId: string,
+  file: File,
+  folder?: string
+): Promise<{ path: string; format: WavFormat }> {
+  const path = await uploadArtistFile('music-files', artistId, file, folder);
+  const { data, error } = await supabase.functions.invoke('validate-wav', { body: { path } });
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(`${file.name}: ${body?.error ?? 'the file could not be checked.'}`);
+  }
+  return { path, format: data.format };
+}
+
+// Files derived from a WAV live beside it, e.g. "<artist>/<upload>/song.peaks.json" for "<artist>/<upload>/song.wav".
+// They are replaced when the WAV's upload is retried into the same folder.
+function derivedFilePath(musicFilePath: string, suffix: string): string {
+  return `${musicFilePath.replace(/\.[^./]+$/, '')}${suffix}`;
+}
+
+/**
+ * Stores a WAV's waveform peaks beside it and returns their path
+ */
+export async function uploadWaveformPeaks(musicFilePath: string, peaks: WaveformPeaks): Promise<string> {
+  const blob = new Blob([JSON.stringify(peaks)], { type: 'application/json' });
+  const { data, error } = await supabase.storage
+    .from('music-files')
+    .upload(derivedFilePath(musicFilePath, '.peaks.json'), blob, { upsert: true });
+  if (error) throw error;
+  return data.path;
+}
+
+/**
+ * Stores a WAV's compressed preview beside it and returns its path
+ */
+export async function uploadPreview(musicFilePath: string, preview: Blob): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from('music-files')
+    .upload(derivedFilePath(musicFilePath, '.preview.mp3'), preview, { contentType: 'audio/mpeg', upsert: true });
+  if (error) throw error;
+  return data.path;
+}
+
+export async function loadWaveformPeaks(path: string): Promise<WaveformPeaks | null> {
+  const url = await generateMusicUrl(path);
+  if (!url) return null;
+  const response = await fetch(url);
+  return response.ok ? response.json() : null;
+}
+
+// Some browsers only start reading a download after click() returns, so object URLs have to outlive it
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+/**
+ * Starts a browser download of a URL without navigating away from the page; object URLs are revoked afterwards
+ */
+export function triggerDownload(url: string, filename?: string) {
+  const link = document.createElement('a');
+  link.href = url;
+  if (filename) link.download = filename;
+  link.rel = 'noopener';
+  link.click();
+  if (url.startsWith('blob:')) setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+}
@@ -0,0 +1,69 @@
+// Downloads in its scope are answered by public/download-stream-sw.js with the bytes this page streams to it
+const DOWNLOAD_SCOPE = "/download-stream/";
+
+type DownloadMessage = { type: "ready" | "pull" | "cancel" };
+
+async function activeWorker(registration: ServiceWorkerRegistration): Promise<ServiceWorker> {
+  if (registration.active) return registration.active;
+  const worker = (registration.installing ?? registration.waiting)!;
+  await new Promise<void>((resolve) => {
+    worker.addEventListener("statechange", () => worker.state === "activated" && resolve());
+  });
+  return worker;
+}
+
+/**
+ * A file the browser saves to its downloads as it is written, never holding more than one chunk in memory. Returns
+ * null where service workers are unavailable, e.g. in private windows or outside HTTPS.
+ */
+export async function openDownloadStream(filename: string): Promise<WritableStream<Uint8Array> | null> {
+  if (!("serviceWorker" in navigator) || !window.isSecureContext) return null;
+  let worker: ServiceWorker;
+  try {
+    worker = await activeWorker(await navigator.serviceWorker.register("/download-stream-sw.js", { scope: DOWNLOAD_SCOPE }));
+  } catch (error) {
+    console.error("Could not start the download service worker:", error);
+    return null;
+  }
+
+  const path = `${DOWNLOAD_SCOPE}${crypto.randomUUID()}`;
+  const { port1: port, port2 } = new MessageChannel();
+  let credits = 0;
+  let cancelled = false;
+  let signal: (() => void) | null = null;
+  const ready = new Promise<void>((resolve) => {
+    port.onmessage = ({ data }: MessageEvent<DownloadMessage>) => {
+      if (data.type === "ready") resolve();
+      if (data.type === "pull") credits++;
+      if (data.type === "cancel") cancelled = true;
+      signal?.();
+    };
+  });
+  worker.postMessage({ path, filename }, [port2]);
+  await ready;
+
+  // Loading the URL in a hidden frame starts the download without leaving the page
+  const frame = document.createElement("iframe");
+  frame.hidden = true;
+  frame.src = path;
+  document.body.appendChild(frame);
+  const finish = () => setTimeout(() => frame.remove(), 60_000);
+
+  return new WritableStream<Uint8Array>({
+    async write(chunk) {
+      while (credits === 0 && !cancelled) await new Promise<void>((resolve) => (signal = resolve));
+      if (cancelled) throw new Error("The download was cancelled");
+      credits--;
+      const bytes = chunk.slice();
+      port.postMessage({ type: "chunk", chunk: bytes.buffer }, [bytes.buffer]);
+    },
+    close() {
+      port.postMessage({ type: "end" });
+      finish();
+    },
+    abort() {
+      port.postMessage({ type: "abort" });
+      finish();
+    },
+  });
+}
@@ -0,0 +1,65 @@
+import writeXlsxFile from "write-excel-file/browser";
+import { format } from "date-fns";
+import { triggerDownload } from "@/lib/storage-utils";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportValue = string | number | Date | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+  // Character width of the spreadsheet column
+  width?: number;
+}
+
+// Spreadsheet apps run cells starting with these as formulas, so text from artists is never left starting with one
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: ExportValue): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date
+      ? format(value, "yyyy-MM-dd HH:mm")
+      : typeof value === "string" && FORMULA_PREFIX.test(value)
+        ? `'${value}`
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV with a byte order mark so Excel opens it as UTF-8
+ */
+export function toCsv<T>(rows: T[], columns: ExportColumn<T>[]): string {
+  const lines = [
+    columns.map((column) => csvCell(column.header)),
+    ...rows.map((row) => columns.map((column) => csvCell(column.value(row)))),
+  ];
+  return `\uFEFF${lines.map((cells) => cells.join(",")).join("\r\n")}\r\n`;
+}
+
+/**
+ * Downloads rows as CSV or XLSX, named e.g. "spillrix-tracks-2025-09-14.xlsx"
+ */
+export async function exportTable<T>(rows: T[], columns: ExportColumn<T>[], name: string, exportFormat: ExportFormat) {
+  const fileName = `spillrix-${name}-${format(new Date(), "yyyy-MM-dd")}.${exportFormat}`;
+
+  const blob =
+    exportFormat === "csv"
+      ? new Blob([toCsv(rows, columns)], { type: "text/csv;charset=utf-8" })
+      : await writeXlsxFile(
+          [
+            columns.map((column) => ({ value: column.header, fontWeight: "bold" as const })),
+            ...rows.map((row) =>
+              columns.map((column) => {
+                const value = column.value(row);
+                if (value === null || value === undefined || value === "") return null;
+                return value instanceof Date ? { value, format: "yyyy-mm-dd hh:mm" } : { value };
+              })
+            ),
+          ],
+          { sheet: name, stickyRowsCount: 1, columns: columns.map((column) => ({ width: column.width ?? 16 })) }
+        ).toBlob();
+
+  triggerDownload(URL.createObjectURL(blob), fileName);
+}
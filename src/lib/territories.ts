@@ -0,0 +1,63 @@
+export const TERRITORY_MODES = ["worldwide", "include", "exclude"] as const;
+export type TerritoryMode = (typeof TERRITORY_MODES)[number];
+
+export const TERRITORY_MODE_LABELS: Record<TerritoryMode, string> = {
+  worldwide: "Worldwide",
+  include: "Only in selected countries",
+  exclude: "Worldwide except selected countries",
+};
+
+// ISO 3166-1 alpha-2 codes, as used for TerritoryCode in DDEX deals
+export const COUNTRY_CODES = [
+  "AD", "AE", "AF", "AG", "AI", "AL", "AM", "AO", "AQ", "AR", "AS", "AT", "AU", "AW", "AX", "AZ",
+  "BA", "BB", "BD", "BE", "BF", "BG", "BH", "BI", "BJ", "BL", "BM", "BN", "BO", "BQ", "BR", "BS",
+  "BT", "BV", "BW", "BY", "BZ", "CA", "CC", "CD", "CF", "CG", "CH", "CI", "CK", "CL", "CM", "CN",
+  "CO", "CR", "CU", "CV", "CW", "CX", "CY", "CZ", "DE", "DJ", "DK", "DM", "DO", "DZ", "EC", "EE",
+  "EG", "EH", "ER", "ES", "ET", "FI", "FJ", "FK", "FM", "FO", "FR", "GA", "GB", "GD", "GE", "GF",
+  "GG", "GH", "GI", "GL", "GM", "GN", "GP", "GQ", "GR", "GS", "GT", "GU", "GW", "GY", "HK", "HM",
+  "HN", "HR", "HT", "HU", "ID", "IE", "IL", "IM", "IN", "IO", "IQ", "IR", "IS", "IT", "JE", "JM",
+  "JO", "JP", "KE", "KG", "KH", "KI", "KM", "KN", "KP", "KR", "KW", "KY", "KZ", "LA", "LB", "LC",
+  "LI", "LK", "LR", "LS", "LT", "LU", "LV", "LY", "MA", "MC", "MD", "ME", "MF", "MG", "MH", "MK",
+  "ML", "MM", "MN", "MO", "MP", "MQ", "MR", "MS", "MT", "MU", "MV", "MW", "MX", "MY", "MZ", "NA",
+  "NC", "NE", "NF", "NG", "NI", "NL", "NO", "NP", "NR", "NU", "NZ", "OM", "PA", "PE", "PF", "PG",
+  "PH", "PK", "PL", "PM", "PN", "PR", "PS", "PT", "PW", "PY", "QA", "RE", "RO", "RS", "RU", "RW",
+  "SA", "SB", "SC", "SD", "SE", "SG", "SH", "SI", "SJ", "SK", "SL", "SM", "SN", "SO", "SR", "SS",
+  "ST", "SV", "SX", "SY", "SZ", "TC", "TD", "TF", "TG", "TH", "TJ", "TK", "TL", "TM", "TN", "TO",
+  "TR", "TT", "TV", "TW", "TZ", "UA", "UG", "UM", "US", "UY", "UZ", "VA", "VC", "VE", "VG", "VI",
+  "VN", "VU", "WF", "WS", "YE", "YT", "ZA", "ZM", "ZW",
+] as const;
+export type CountryCode = (typeof COUNTRY_CODES)[number];
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+export function countryName(code: string): string {
+  return regionNames.of(code) ?? code;
+}
+
+export const COUNTRIES = COUNTRY_CODES.map((code) => ({ code, name: countryName(code) })).sort((a, b) =>
+  a.name.localeCompare(b.name)
+);
+
+interface TerritoryLike {
+  territory_mode: string;
+  territories: string[];
+}
+
+/**
+ * Short description of a release's territories, e.g. "Worldwide", "Only India" or "Worldwide except US, CA"
+ */
+export function describeTerritories({ territory_mode, territories }: TerritoryLike, maxNames = 3): string {
+  if (territory_mode === "worldwide" || territories.length === 0) return "Worldwide";
+  const names =
+    territories.length <= maxNames
+      ? territories.map(countryName).join(", ")
+      : `${territories.length} countries`;
+  return territory_mode === "include" ? `Only ${names}` : `Worldwide except ${names}`;
+}
+
+/**
+ * Whether a cover song on the release is offered everywhere; cover licences rarely clear every territory
+ */
+export function hasWorldwideCover(release: TerritoryLike & { tracks?: { is_cover: boolean }[] }): boolean {
+  return release.territory_mode === "worldwide" && (release.tracks ?? []).some((track) => track.is_cover);
+}
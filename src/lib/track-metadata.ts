@@ -0,0 +1,61 @@
+export const PARENTAL_ADVISORIES = ["not_explicit", "explicit", "clean"] as const;
+export type ParentalAdvisory = (typeof PARENTAL_ADVISORIES)[number];
+
+export const PARENTAL_ADVISORY_LABELS: Record<ParentalAdvisory, string> = {
+  not_explicit: "Not explicit",
+  explicit: "Explicit",
+  clean: "Clean (edited version of an explicit track)",
+};
+
+// ISO 639 codes offered for the audio language; "zxx" marks instrumentals
+export const TRACK_LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "hi", label: "Hindi" },
+  { code: "pa", label: "Punjabi" },
+  { code: "bn", label: "Bengali" },
+  { code: "ta", label: "Tamil" },
+  { code: "te", label: "Telugu" },
+  { code: "mr", label: "Marathi" },
+  { code: "gu", label: "Gujarati" },
+  { code: "kn", label: "Kannada" },
+  { code: "ml", label: "Malayalam" },
+  { code: "ur", label: "Urdu" },
+  { code: "bho", label: "Bhojpuri" },
+  { code: "ne", label: "Nepali" },
+  { code: "es", label: "Spanish" },
+  { code: "pt", label: "Portuguese" },
+  { code: "fr", label: "French" },
+  { code: "de", label: "German" },
+  { code: "ar", label: "Arabic" },
+  { code: "ja", label: "Japanese" },
+  { code: "ko", label: "Korean" },
+  { code: "zh", label: "Chinese" },
+  { code: "zxx", label: "Instrumental (no lyrics)" },
+] as const;
+
+export const TRACK_LANGUAGE_CODES = TRACK_LANGUAGES.map((language) => language.code) as [string, ...string[]];
+
+// Accepts "2025 Owner", "© 2025 Owner", "(P) 2025 Owner" and similar
+const RIGHTS_LINE_PATTERN = /^\s*(?:[©℗]|\([cp]\))?\s*(\d{4})\s+(\S.*?)\s*$/i;
+
+/**
+ * Normalises a typed © or ℗ line to the stored "<year> <owner>" form, or null when malformed
+ */
+export function normalizeRightsLine(value: string): string | null {
+  const match = RIGHTS_LINE_PATTERN.exec(value);
+  if (!match) return null;
+  const year = Number(match[1]);
+  if (year < 1900 || year > new Date().getFullYear() + 1) return null;
+  return `${match[1]} ${match[2]}`;
+}
+
+/**
+ * Prefixes a stored rights line with its symbol for display
+ */
+export function formatRightsLine(symbol: "©" | "℗", line: string | null | undefined): string {
+  return line ? `${symbol} ${line}` : "";
+}
+
+export function languageLabel(code: string | null | undefined): string {
+  return TRACK_LANGUAGES.find((language) => language.code === code)?.label ?? code ?? "";
+}
@@ -0,0 +1,59 @@
+export const VERSION_TYPES = [
+  "remix",
+  "radio_edit",
+  "extended",
+  "instrumental",
+  "acapella",
+  "acoustic",
+  "live",
+  "sped_up",
+  "slowed",
+  "remaster",
+] as const;
+export type VersionType = (typeof VERSION_TYPES)[number];
+
+export const VERSION_TYPE_LABELS: Record<VersionType, string> = {
+  remix: "Remix",
+  radio_edit: "Radio Edit",
+  extended: "Extended Mix",
+  instrumental: "Instrumental",
+  acapella: "A Cappella",
+  acoustic: "Acoustic",
+  live: "Live",
+  sped_up: "Sped Up",
+  slowed: "Slowed",
+  remaster: "Remastered",
+};
+
+interface VersionLike {
+  version_type?: string | null;
+  version_title?: string | null;
+}
+
+/**
+ * Store-facing version label, falling back to the version type, e.g. "DJ Snake Remix" or "Radio Edit"
+ */
+export function versionLabel(track: VersionLike): string {
+  if (track.version_title?.trim()) return track.version_title.trim();
+  return VERSION_TYPE_LABELS[track.version_type as VersionType] ?? "";
+}
+
+/**
+ * Title with its version in brackets, e.g. "Summer Nights (Radio Edit)"
+ */
+export function formatVersionedTitle(track: VersionLike & { title: string }): string {
+  const label = versionLabel(track);
+  return label ? `${track.title} (${label})` : track.title;
+}
+
+/**
+ * Indexes tracks by the original they are a version of
+ */
+export function groupVersionsByParent<T extends { parent_track_id: string | null }>(tracks: T[]): Map<string, T[]> {
+  const versions = new Map<string, T[]>();
+  tracks.forEach((track) => {
+    if (!track.parent_track_id) return;
+    versions.set(track.parent_track_id, [...(versions.get(track.parent_track_id) ?? []), track]);
+  });
+  return versions;
+}
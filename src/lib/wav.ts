@@ -0,0 +1,44 @@
+import { WavFormat, describeWavFormat, readWavFormat } from "../../supabase/functions/_shared/wav";
+
+// The parser is shared with the validate-wav edge function, which checks every upload again
+export * from "../../supabase/functions/_shared/wav";
+
+/**
+ * Reads a selected file's WAV header without loading the audio
+ */
+export function readWavFileFormat(file: Blob): Promise<WavFormat | null> {
+  return readWavFormat(async (offset, length) => new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()));
+}
+
+/**
+ * Track columns for an uploaded WAV, taken from its header so the audio never has to be loaded to show them. The
+ * sample rate, bit depth and channel count are filled in by the database from the validate-wav function's reading.
+ */
+export function audioFileColumns(format: WavFormat, fileSize: number) {
+  return {
+    duration: Math.round(format.duration),
+    file_size: fileSize,
+  };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface TrackAudioColumns {
+  sample_rate: number | null;
+  bit_depth: number | null;
+  channel_count: number | null;
+  file_size: number | null;
+}
+
+/**
+ * Format and size of a saved track's audio, e.g. "24-bit · 48 kHz · Stereo · 52.3 MB", or "" for tracks uploaded
+ * before formats were recorded
+ */
+export function describeTrackAudio(track: TrackAudioColumns): string {
+  if (!track.sample_rate || !track.bit_depth || !track.channel_count) return "";
+  const format = describeWavFormat({ sampleRate: track.sample_rate, bitDepth: track.bit_depth, channels: track.channel_count });
+  return track.file_size ? `${format} · ${formatFileSize(track.file_size)}` : format;
+}
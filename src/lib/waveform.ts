@@ -0,0 +1,37 @@
+/**
+ * Downsampled waveform stored next to each WAV, so players can draw it without loading the audio
+ */
+export interface WaveformPeaks {
+  duration: number;
+  // Highest absolute sample of any channel per bucket, from 0 to 1
+  peaks: number[];
+}
+
+// Enough for a sharp full-width player on a high-density screen, at around 5 KB of JSON
+const WAVEFORM_BUCKETS = 1000;
+
+/**
+ * Collects peaks incrementally; feed it every block of samples in order, then read the result
+ */
+export function createPeaksCollector(totalFrames: number, sampleRate: number) {
+  const framesPerBucket = Math.max(1, Math.ceil(totalFrames / WAVEFORM_BUCKETS));
+  const peaks = new Float32Array(Math.ceil(totalFrames / framesPerBucket));
+  let position = 0;
+
+  const push = (block: Float32Array[]) => {
+    for (let frame = 0; frame < block[0].length; frame++, position++) {
+      const bucket = Math.floor(position / framesPerBucket);
+      for (const channel of block) {
+        const value = Math.abs(channel[frame]);
+        if (value > peaks[bucket]) peaks[bucket] = value;
+      }
+    }
+  };
+
+  const result = (): WaveformPeaks => ({
+    duration: position / sampleRate,
+    peaks: Array.from(peaks, (peak) => Math.round(Math.min(peak, 1) * 100) / 100),
+  });
+
+  return { push, result };
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { useAuth } from './../contexts/AuthContext';
 import { AuthGuard } from './../components/auth/AuthGuard';
 import { supabase } from './../integrations/supabase/client';
@@ -23,25 +23,114 @@ import {
   Clock,
   Calendar,
   Image,
-  Trash2
+  Trash2,
+  Disc3,
+  Hash,
+  Tags,
+  CalendarDays,
+  CornerDownRight,
+  Store,
+  Globe,
+  AlertTriangle
 } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
-import { generateMusicUrl, generateCoverArtUrl } from './../lib/storage-utils';
+import { generateMusicUrl, generateSignedUrl, triggerDownload } from './../lib/storage-utils';
+import { RELEASE_TYPE_LABELS, ReleaseType, formatTrackPosition, groupTracksByRelease } from './../lib/releases';
+import { formatCredit } from './../lib/credits';
+import { formatIsrc } from './../lib/identifiers';
+import { IsrcRegistry } from './../components/admin/IsrcRegistry';
+import { GenreManager } from './../components/admin/GenreManager';
+import { ReleaseCalendar } from './../components/admin/ReleaseCalendar';
+import { LyricsReviewDialog } from './../components/admin/LyricsReviewDialog';
+import { DdexExportButton } from './../components/admin/DdexExportButton';
+import { DeliveryPackageButton } from './../components/admin/DeliveryPackageButton';
+import { DdexSettings } from './../components/admin/DdexSettings';
+import { StoreManager } from './../components/admin/StoreManager';
+import { DeliveryTargets } from './../components/admin/DeliveryTargets';
+import { DeliveryTimeline } from './../components/delivery/DeliveryTimeline';
+import { ExportMenu } from './../components/admin/ExportMenu';
+import { TrackRevisionsDialog } from './../components/admin/TrackRevisionsDialog';
+import { SpectrogramDialog } from './../components/admin/SpectrogramDialog';
+import { ExportColumn } from './../lib/table-export';
+import { summarizeDelivery } from './../lib/delivery';
+import { formatReleaseSchedule, isReleaseDatePast } from './../lib/release-schedule';
+import { describeTerritories, hasWorldwideCover } from './../lib/territories';
+import { formatRightsLine, languageLabel } from './../lib/track-metadata';
+import { VERSION_TYPE_LABELS, VersionType, groupVersionsByParent, versionLabel } from './../lib/versions';
+import { useGenres } from './../hooks/use-genres';
+import { buildGenreTree, genreLabel, isWithinGenre } from './../lib/genres';
+import { describeTrackAudio } from './../lib/wav';
+import { trackLoudness } from './../lib/loudness';
+import { LoudnessSummary } from './../components/audio/LoudnessSummary';
+import { QcBadge } from './../components/audio/QcBadge';
+import { QcReport, QcStatus, qcIssues } from './../lib/audio-qc';
+import { cutoffWarning, formatFrequency, isLossyCutoff } from './../lib/spectrum';
 
 interface Track {
   id: string;
   title: string;
-  genre: string;
+  primary_genre_id: string | null;
+  secondary_genre_id: string | null;
   music_file_url: string;
-  cover_art_url?: string;
   duration?: number;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'draft' | 'pending' | 'approved' | 'rejected';
   upload_date: string;
   artist_id: string;
+  release_id: string | null;
+  disc_number: number;
+  track_number: number | null;
+  isrc: string | null;
+  parental_advisory: string;
+  language_code: string | null;
+  copyright_line: string | null;
+  phonographic_line: string | null;
+  label_name: string | null;
+  lyrics: string | null;
+  synced_lyrics: string | null;
+  parent_track_id: string | null;
+  version_type: string | null;
+  version_title: string | null;
+  is_cover: boolean;
+  sample_rate: number | null;
+  bit_depth: number | null;
+  channel_count: number | null;
+  file_size: number | null;
+  integrated_loudness_lufs: number | null;
+  loudness_range_lu: number | null;
+  true_peak_dbtp: number | null;
+  peaks_file_url: string | null;
+  preview_file_url: string | null;
+  qc_report: QcReport | null;
+  qc_status: QcStatus | null;
+  spectral_cutoff_hz: number | null;
   artist?: {
     name: string;
     email: string;
   };
+  credits?: {
+    name: string;
+    role: string;
+    is_primary: boolean;
+    position: number;
+  }[];
+  release?: {
+    id: string;
+    title: string;
+    release_type: string;
+    upc: string | null;
+    cover_art_url: string | null;
+    status: 'draft' | 'pending' | 'approved' | 'rejected';
+    release_date: string | null;
+    preorder_date: string | null;
+    release_timing: string;
+    release_timezone: string;
+    territory_mode: string;
+    territories: string[];
+    release_stores?: {
+      store_id: string;
+      status: string | null;
+    }[];
+  };
 }
 
 interface Profile {
@@ -52,6 +141,13 @@ interface Profile {
   created_at: string;
 }
 
+const TRACK_STATUS_LABELS: Record<string, string> = {
+  draft: 'Awaiting Splits',
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
 // Global state for tracks, profiles
 let globalTracks: Track[] = [];
 let globalProfiles: Profile[] = [];
@@ -65,6 +161,30 @@ const fetchTracks = async (setTracks: React.Dispatch<React.SetStateAction<Track[
         artist:profiles!tracks_artist_id_fkey (
           name,
           email
+        ),
+        credits:track_credits (
+          name,
+          role,
+          is_primary,
+          position
+        ),
+        release:releases!tracks_release_id_fkey (
+          id,
+          title,
+          release_type,
+          upc,
+          cover_art_url,
+          status,
+          release_date,
+          preorder_date,
+          release_timing,
+          release_timezone,
+          territory_mode,
+          territories,
+          release_stores (
+            store_id,
+            status
+          )
         )
       `)
       .order('upload_date', { ascending: false });
@@ -109,8 +229,10 @@ export default function AdminDashboard() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
-  const [selectedTracks, setSelectedTracks] = useState<string[]>([]);
-  const [activeTab, setActiveTab] = useState<'tracks' | 'users'>('tracks');
+  const [genreFilter, setGenreFilter] = useState('all');
+  const [selectedReleases, setSelectedReleases] = useState<string[]>([]);
+  const [activeTab, setActiveTab] = useState<'tracks' | 'users' | 'isrc' | 'genres' | 'stores' | 'calendar'>('tracks');
+  const { genres } = useGenres();
 
   useEffect(() => {
     const fetchDataAndSetState = async () => {
@@ -131,6 +253,16 @@ export default function AdminDashboard() {
         { event: '*', schema: 'public', table: 'tracks' },
         () => { fetchTracks(setTracks, toast); }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'releases' },
+        () => { fetchTracks(setTracks, toast); }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'release_stores' },
+        () => { fetchTracks(setTracks, toast); }
+      )
       .subscribe();
 
     const profilesChannel = supabase
@@ -148,72 +280,116 @@ export default function AdminDashboard() {
     };
   }, []);
 
-  const updateTrackStatus = async (trackId: string, status: 'approved' | 'rejected' | 'pending') => {
+  // Releases are moderated as one unit; the database mirrors the status onto every track
+  const updateReleaseStatus = async (releaseId: string, status: 'approved' | 'rejected' | 'pending') => {
+    const release = tracks.find(track => track.release_id === releaseId)?.release;
+    if (status === 'approved' && isReleaseDatePast(release?.release_date)) {
+      toast({
+        title: 'Cannot Approve',
+        description: 'The requested release date has already passed. Reject the release so the artist can reschedule it.',
+        variant: 'destructive'
+      });
+      return;
+    }
+    if (status === 'approved' && !release?.upc) {
+      toast({
+        title: 'Cannot Approve',
+        description: 'The release has no UPC/EAN, so it cannot be delivered. Reject it so the artist can add one.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
     try {
       const { error } = await supabase
-        .from('tracks')
+        .from('releases')
         .update({ status })
-        .eq('id', trackId);
+        .eq('id', releaseId);
 
       if (error) throw error;
 
       setTracks(prevTracks => 
         prevTracks.map(track => 
-          track.id === trackId ? { ...track, status } : track
+          track.release_id === releaseId
+            ? { ...track, status, release: track.release && { ...track.release, status } }
+            : track
         )
       );
 
       toast({
         title: 'Success!',
-        description: `Track ${status === 'approved' ? 'approved' : status === 'rejected' ? 'rejected' : 'set to pending'} successfully`,
+        description: `Release ${status === 'approved' ? 'approved' : status === 'rejected' ? 'rejected' : 'set to pending'} successfully`,
       });
+
+      // Approval issues ISRCs for tracks that had none
+      if (status === 'approved') {
+        fetchTracks(setTracks, toast);
+      }
     } catch (error) {
       console.error('Error updating status:', error);
       toast({
         title: 'Update Failed',
-        description: error instanceof Error ? error.message : 'Failed to update track status',
+        description: error instanceof Error ? error.message : 'Failed to update release status',
         variant: 'destructive'
       });
     }
   };
 
   const bulkUpdateStatus = async (status: 'approved' | 'rejected' | 'pending') => {
-    if (selectedTracks.length === 0) {
+    if (selectedReleases.length === 0) {
       toast({
-        title: 'No Tracks Selected',
-        description: 'Please select tracks to update',
+        title: 'No Releases Selected',
+        description: 'Please select releases to update',
         variant: 'destructive'
       });
       return;
     }
 
+    // Only releases awaiting review can be approved. Releases whose date has passed are left for the artist to reschedule, and those without a UPC/EAN for the artist to complete
+    const releaseOf = (id: string) => tracks.find(track => track.release_id === id)?.release;
+    const notPendingIds = status === 'approved'
+      ? selectedReleases.filter(id => releaseOf(id)?.status !== 'pending')
+      : [];
+    const pastReleaseIds = status === 'approved'
+      ? selectedReleases.filter(id => !notPendingIds.includes(id) && isReleaseDatePast(releaseOf(id)?.release_date))
+      : [];
+    const missingUpcIds = status === 'approved'
+      ? selectedReleases.filter(id => !notPendingIds.includes(id) && !pastReleaseIds.includes(id) && !releaseOf(id)?.upc)
+      : [];
+    const releaseIds = selectedReleases.filter(id => !notPendingIds.includes(id) && !pastReleaseIds.includes(id) && !missingUpcIds.includes(id));
+
     try {
-      const { error } = await supabase
-        .from('tracks')
-        .update({ status })
-        .in('id', selectedTracks);
+      if (releaseIds.length > 0) {
+        const { error } = await supabase
+          .from('releases')
+          .update({ status })
+          .in('id', releaseIds);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       toast({
         title: 'Bulk Update Complete',
-        description: `${selectedTracks.length} tracks updated to ${status}`,
+        description: `${releaseIds.length} releases updated to ${status}` +
+          (notPendingIds.length > 0 ? `; ${notPendingIds.length} skipped because they are not awaiting review` : '') +
+          (pastReleaseIds.length > 0 ? `; ${pastReleaseIds.length} skipped because their release date has passed` : '') +
+          (missingUpcIds.length > 0 ? `; ${missingUpcIds.length} skipped because they have no UPC/EAN` : ''),
       });
 
-      setSelectedTracks([]);
+      setSelectedReleases([]);
     } catch (error) {
       console.error('Error bulk updating:', error);
       toast({
         title: 'Bulk Update Failed',
-        description: 'Failed to update selected tracks',
+        description: 'Failed to update selected releases',
         variant: 'destructive'
       });
     }
   };
 
-  const downloadTrack = async (url: string, filename: string) => {
+  const downloadTrack = async (track: Track) => {
     try {
-      if (!url) {
+      if (!track.music_file_url) {
         toast({
           title: 'Download Failed',
           description: 'No music file URL available',
@@ -222,31 +398,13 @@ export default function AdminDashboard() {
         return;
       }
 
-      // If it's already a full URL, use it directly
-      if (url.startsWith('http')) {
-        window.open(url, '_blank');
-        return;
-      }
+      // Stores expect masters named by ISRC rather than the storage-generated file name
+      const filename = `${track.isrc || track.title}.wav`;
+      const signedUrl = await generateSignedUrl(track.music_file_url, 'music-files', 'tracks', 60, filename);
 
-      // For file paths, generate a signed URL from private bucket
-      try {
-        const { data, error } = await supabase.storage
-          .from('music-files')
-          .createSignedUrl(url, 60); // 60 seconds expiry
-
-        if (error) {
-          // Fallback to tracks bucket if music-files fails
-          const { data: fallbackData, error: fallbackError } = await supabase.storage
-            .from('tracks')
-            .createSignedUrl(url, 60);
-
-          if (fallbackError) throw fallbackError;
-          window.open(fallbackData.signedUrl, '_blank');
-        } else {
-          window.open(data.signedUrl, '_blank');
-        }
-      } catch (storageError) {
-        console.error('Storage error:', storageError);
+      if (signedUrl) {
+        triggerDownload(signedUrl, filename);
+      } else {
         toast({
           title: 'Download Failed',
           description: 'Failed to generate download link',
@@ -263,9 +421,9 @@ export default function AdminDashboard() {
     }
   };
 
-  const downloadCoverArt = async (url: string) => {
+  const downloadCoverArt = async (release: NonNullable<Track['release']>) => {
     try {
-      if (!url) {
+      if (!release.cover_art_url) {
         toast({
           title: 'No Cover Art',
           description: 'This track has no cover art to download',
@@ -274,10 +432,12 @@ export default function AdminDashboard() {
         return;
       }
 
-      const signedUrl = await generateCoverArtUrl(url);
+      const extension = release.cover_art_url.split('.').pop()?.toLowerCase() || 'jpg';
+      const filename = `${release.upc || release.title}.${extension}`;
+      const signedUrl = await generateSignedUrl(release.cover_art_url, 'cover-art', 'tracks', 60, filename);
       
       if (signedUrl) {
-        window.open(signedUrl, '_blank');
+        triggerDownload(signedUrl, filename);
       } else {
         toast({
           title: 'Download Failed',
@@ -297,25 +457,47 @@ export default function AdminDashboard() {
 
   const filteredTracks = tracks.filter(track => {
     const matchesSearch = track.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         track.genre.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (track.release?.title || '').toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         genreLabel(genres, track.primary_genre_id).toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (track.artist?.name || '').toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesStatus = statusFilter === 'all' || track.status === statusFilter;
+    const matchesStatus = statusFilter === 'all' ||
+                          (statusFilter === 'qc_failed' ? track.qc_status === 'failed' : track.status === statusFilter);
+
+    // A top-level genre also matches tracks filed under its subgenres
+    const matchesGenre = genreFilter === 'all' ||
+                         isWithinGenre(genres, track.primary_genre_id, genreFilter) ||
+                         isWithinGenre(genres, track.secondary_genre_id, genreFilter);
     
-    return matchesSearch && matchesStatus;
+    return matchesSearch && matchesStatus && matchesGenre;
   });
 
+  // Versions are listed under their original rather than as unrelated tracks
+  const versionsByParent = groupVersionsByParent(tracks);
+  const trackById = (id: string | null) => tracks.find(track => track.id === id);
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'approved':
         return <Badge className="status-approved bg-green-500 text-white">Approved</Badge>;
       case 'rejected':
         return <Badge className="status-rejected bg-red-500 text-white">Rejected</Badge>;
+      case 'draft':
+        return <Badge className="status-draft bg-amber-500 text-white">Awaiting Splits</Badge>;
       default:
         return <Badge className="status-pending bg-violet-500 text-white">Pending</Badge>;
     }
   };
 
+  const userExportColumns: ExportColumn<Profile>[] = [
+    { header: 'Name', value: user => user.name, width: 24 },
+    { header: 'Email', value: user => user.email, width: 30 },
+    { header: 'Role', value: user => user.role, width: 10 },
+    { header: 'Joined', value: user => new Date(user.created_at) },
+    { header: 'Tracks', value: user => tracks.filter(track => track.artist_id === user.id).length, width: 8 },
+    { header: 'Approved Tracks', value: user => tracks.filter(track => track.artist_id === user.id && track.status === 'approved').length, width: 10 },
+  ];
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
@@ -327,19 +509,59 @@ export default function AdminDashboard() {
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const toggleTrackSelection = (trackId: string) => {
-    setSelectedTracks(prev => 
-      prev.includes(trackId) 
-        ? prev.filter(id => id !== trackId)
-        : [...prev, trackId]
+  const releaseGroups = groupTracksByRelease(filteredTracks);
+
+  // Exports follow the table: same filters, same release order
+  const exportedTracks = releaseGroups.flatMap(group => group.tracks);
+  const trackExportColumns: ExportColumn<Track>[] = [
+    { header: 'Release', value: track => track.release?.title, width: 30 },
+    { header: 'Release Type', value: track => RELEASE_TYPE_LABELS[track.release?.release_type as ReleaseType] ?? track.release?.release_type },
+    { header: 'UPC', value: track => track.release?.upc },
+    { header: 'Disc', value: track => track.disc_number, width: 6 },
+    { header: 'Track', value: track => track.track_number, width: 6 },
+    { header: 'Title', value: track => track.title, width: 30 },
+    { header: 'Version', value: track => versionLabel(track) },
+    { header: 'ISRC', value: track => track.isrc ? formatIsrc(track.isrc) : null },
+    { header: 'Artist', value: track => track.artist?.name, width: 24 },
+    { header: 'Artist Email', value: track => track.artist?.email, width: 30 },
+    { header: 'Credits', value: track => [...(track.credits ?? [])].sort((a, b) => a.position - b.position).map(formatCredit).join('; '), width: 40 },
+    { header: 'Primary Genre', value: track => genreLabel(genres, track.primary_genre_id), width: 24 },
+    { header: 'Secondary Genre', value: track => genreLabel(genres, track.secondary_genre_id), width: 24 },
+    { header: 'Language', value: track => languageLabel(track.language_code) },
+    { header: 'Explicit', value: track => track.parental_advisory === 'explicit' ? 'Yes' : track.parental_advisory === 'clean' ? 'Clean' : 'No', width: 8 },
+    { header: 'Cover Song', value: track => track.is_cover ? 'Yes' : 'No', width: 8 },
+    { header: 'Label', value: track => track.label_name, width: 24 },
+    { header: '© Line', value: track => formatRightsLine('©', track.copyright_line), width: 30 },
+    { header: '℗ Line', value: track => formatRightsLine('℗', track.phonographic_line), width: 30 },
+    { header: 'Duration (s)', value: track => track.duration ? Math.round(track.duration) : null, width: 10 },
+    { header: 'Audio Format', value: track => describeTrackAudio({ ...track, file_size: null }), width: 24 },
+    { header: 'File Size (bytes)', value: track => track.file_size, width: 14 },
+    { header: 'Loudness (LUFS)', value: track => track.integrated_loudness_lufs, width: 12 },
+    { header: 'Loudness Range (LU)', value: track => track.loudness_range_lu, width: 12 },
+    { header: 'True Peak (dBTP)', value: track => track.true_peak_dbtp, width: 12 },
+    { header: 'QC', value: track => track.qc_status === 'failed' ? 'Failed' : track.qc_status === 'passed' ? 'Passed' : 'Not checked', width: 10 },
+    { header: 'QC Issues', value: track => track.qc_report ? qcIssues(track.qc_report).join(' ') : null, width: 40 },
+    { header: 'Spectral Cutoff (Hz)', value: track => track.spectral_cutoff_hz, width: 12 },
+    { header: 'Status', value: track => TRACK_STATUS_LABELS[track.status] ?? track.status },
+    { header: 'Uploaded', value: track => track.upload_date ? new Date(track.upload_date) : null },
+    { header: 'Release Date', value: track => track.release?.release_date },
+    { header: 'Pre-order Date', value: track => track.release?.preorder_date },
+    { header: 'Territories', value: track => track.release ? describeTerritories(track.release, Infinity) : null, width: 30 },
+  ];
+
+  const toggleReleaseSelection = (releaseId: string) => {
+    setSelectedReleases(prev => 
+      prev.includes(releaseId) 
+        ? prev.filter(id => id !== releaseId)
+        : [...prev, releaseId]
     );
   };
 
-  const toggleAllTracks = () => {
-    if (selectedTracks.length === filteredTracks.length) {
-      setSelectedTracks([]);
+  const toggleAllReleases = () => {
+    if (selectedReleases.length === releaseGroups.length) {
+      setSelectedReleases([]);
     } else {
-      setSelectedTracks(filteredTracks.map(track => track.id));
+      setSelectedReleases(releaseGroups.map(group => group.releaseId));
     }
   };
 
@@ -439,15 +661,52 @@ export default function AdminDashboard() {
               <Users className="h-4 w-4 mr-2" />
               User Management
             </Button>
+            <Button
+              variant={activeTab === 'isrc' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('isrc')}
+              className="w-full sm:w-auto touch-target"
+            >
+              <Hash className="h-4 w-4 mr-2" />
+              Identifiers
+            </Button>
+            <Button
+              variant={activeTab === 'genres' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('genres')}
+              className="w-full sm:w-auto touch-target"
+            >
+              <Tags className="h-4 w-4 mr-2" />
+              Genres
+            </Button>
+            <Button
+              variant={activeTab === 'stores' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('stores')}
+              className="w-full sm:w-auto touch-target"
+            >
+              <Store className="h-4 w-4 mr-2" />
+              Stores
+            </Button>
+            <Button
+              variant={activeTab === 'calendar' ? 'default' : 'outline'}
+              onClick={() => setActiveTab('calendar')}
+              className="w-full sm:w-auto touch-target"
+            >
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Release Calendar
+            </Button>
           </div>
 
           {activeTab === 'tracks' ? (
             <Card className="card-modern">
               <CardHeader>
-                <CardTitle>Track Management</CardTitle>
-                <CardDescription>
-                  Manage all tracks uploaded by artists
-                </CardDescription>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1.5">
+                    <CardTitle>Track Management</CardTitle>
+                    <CardDescription>
+                      Manage all tracks uploaded by artists
+                    </CardDescription>
+                  </div>
+                  <ExportMenu rows={exportedTracks} columns={trackExportColumns} name="tracks" className="touch-target" />
+                </div>
                 
                 <div className="mobile-stack">
                   <div className="flex-1">
@@ -471,14 +730,35 @@ export default function AdminDashboard() {
                       <SelectItem value="pending">Pending</SelectItem>
                       <SelectItem value="approved">Approved</SelectItem>
                       <SelectItem value="rejected">Rejected</SelectItem>
+                      <SelectItem value="draft">Awaiting Splits</SelectItem>
+                      <SelectItem value="qc_failed">QC Failed</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={genreFilter} onValueChange={setGenreFilter}>
+                    <SelectTrigger className="w-full sm:w-[200px]">
+                      <SelectValue placeholder="Filter by genre" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Genres</SelectItem>
+                      {buildGenreTree(genres).map(({ genre, subgenres }) => (
+                        <Fragment key={genre.id}>
+                          <SelectItem value={genre.id}>{genre.name}</SelectItem>
+                          {subgenres.map((sub) => (
+                            <SelectItem key={sub.id} value={sub.id} className="pl-12">
+                              {sub.name}
+                            </SelectItem>
+                          ))}
+                        </Fragment>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
-                {selectedTracks.length > 0 && (
+                {selectedReleases.length > 0 && (
                   <div className="space-y-3 p-4 bg-muted rounded-lg">
                     <span className="text-sm text-muted-foreground block">
-                      {selectedTracks.length} tracks selected
+                      {selectedReleases.length} releases selected
                     </span>
                     <div className="mobile-stack sm:flex-row">
                       <Button size="sm" onClick={() => bulkUpdateStatus('approved')} className="w-full sm:w-auto touch-target">
@@ -493,6 +773,11 @@ export default function AdminDashboard() {
                         <Clock className="h-4 w-4 mr-1" />
                         Set Pending
                       </Button>
+                      <DeliveryPackageButton
+                        releaseIds={selectedReleases.filter(id => tracks.find(track => track.release_id === id)?.release?.status === 'approved')}
+                        label="Delivery Package"
+                        className="w-full sm:w-auto touch-target"
+                      />
                     </div>
                   </div>
                 )}
@@ -506,18 +791,20 @@ export default function AdminDashboard() {
                 ) : (
                   <div className="mobile-table">
                     <div className="mobile-table-content">
-                      <Table className="min-w-[1100px] lg:min-w-full">
+                      <Table className="min-w-[1300px] lg:min-w-full">
                       <TableHeader>
                         <TableRow>
                           <TableHead className="w-12">
                             <Checkbox
-                              checked={selectedTracks.length === filteredTracks.length && filteredTracks.length > 0}
-                              onCheckedChange={toggleAllTracks}
+                              checked={selectedReleases.length === releaseGroups.length && releaseGroups.length > 0}
+                              onCheckedChange={toggleAllReleases}
                             />
                           </TableHead>
                           <TableHead className="w-20">Cover Art</TableHead>
+                          <TableHead className="w-12">#</TableHead>
                           <TableHead>Title</TableHead>
                           <TableHead>Artist</TableHead>
+                          <TableHead>Credits</TableHead>
                           <TableHead>Genre</TableHead>
                           <TableHead>Duration</TableHead>
                           <TableHead>Upload Date</TableHead>
@@ -527,90 +814,123 @@ export default function AdminDashboard() {
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {filteredTracks.map((track) => (
-                          <TableRow key={track.id}>
+                        {releaseGroups.map(({ releaseId, tracks: releaseTracks }) => {
+                          const release = releaseTracks[0].release;
+                          const releaseStatus = release?.status ?? releaseTracks[0].status;
+                          const multiDisc = releaseTracks.some(track => track.disc_number > 1);
+                          return (
+                          <Fragment key={releaseId}>
+                          <TableRow className="bg-muted/40">
                             <TableCell>
                               <Checkbox
-                                checked={selectedTracks.includes(track.id)}
-                                onCheckedChange={() => toggleTrackSelection(track.id)}
+                                checked={selectedReleases.includes(releaseId)}
+                                onCheckedChange={() => toggleReleaseSelection(releaseId)}
                               />
                             </TableCell>
                              <TableCell>
                                <div className="w-16 h-16 bg-muted rounded-lg overflow-hidden flex items-center justify-center">
-                                 {track.cover_art_url ? (
+                                 {release?.cover_art_url ? (
                                    <img 
-                                      src={track.cover_art_url.startsWith('http') 
-                                        ? track.cover_art_url 
-                                        : `https://ctwauyndeushfyxzzaxd.supabase.co/storage/v1/object/public/cover-art/${track.cover_art_url}`
+                                      src={release.cover_art_url.startsWith('http') 
+                                        ? release.cover_art_url 
+                                        : `https://ctwauyndeushfyxzzaxd.supabase.co/storage/v1/object/public/cover-art/${release.cover_art_url}`
                                       }
-                                     alt={`${track.title} cover`}
+                                     alt={`${release.title} cover`}
                                      className="w-full h-full object-cover"
                                      onError={(e) => {
                                        // Fallback to tracks bucket for older cover art
-                                       const fallbackUrl = track.cover_art_url.startsWith('http') 
-                                         ? track.cover_art_url 
-                                         : `https://ctwauyndeushfyxzzaxd.supabase.co/storage/v1/object/public/tracks/${track.cover_art_url}`;
+                                       const fallbackUrl = release.cover_art_url.startsWith('http') 
+                                         ? release.cover_art_url 
+                                         : `https://ctwauyndeushfyxzzaxd.supabase.co/storage/v1/object/public/tracks/${release.cover_art_url}`;
                                        e.currentTarget.src = fallbackUrl;
                                        e.currentTarget.style.display = 'none';
                                        e.currentTarget.parentElement!.innerHTML = '<div class="w-full h-full flex items-center justify-center"><svg class="h-6 w-6 text-muted-foreground" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 19V6l6-6v13M9 19c0 1.1.9 2 2 2s2-.9 2-2M9 19H7c-1.1 0-2-.9-2-2V6c0-1.1.9-2 2-2h2M15 19h2c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2h-2v6.5L15 9l2 2.5V19z"/></svg></div>';
                                      }}
                                    />
                                  ) : (
-                                   <Music className="h-6 w-6 text-muted-foreground" />
+                                   <Disc3 className="h-6 w-6 text-muted-foreground" />
                                  )}
                                </div>
                              </TableCell>
-                             <TableCell className="font-medium">{track.title}</TableCell>
-                             <TableCell>{track.artist?.name}</TableCell>
-                            <TableCell>{track.genre}</TableCell>
-                            <TableCell>{formatDuration(track.duration)}</TableCell>
-                            <TableCell>{formatDate(track.upload_date)}</TableCell>
-                            <TableCell>{getStatusBadge(track.status)}</TableCell>
+                            <TableCell colSpan={2}>
+                              <div className="flex items-center gap-2">
+                                <span className="font-semibold">{release?.title ?? releaseTracks[0].title}</span>
+                                {release && (
+                                  <Badge variant="outline">{RELEASE_TYPE_LABELS[release.release_type as ReleaseType] ?? release.release_type}</Badge>
+                                )}
+                                <span className="text-xs text-muted-foreground">
+                                  {releaseTracks.length} {releaseTracks.length === 1 ? 'track' : 'tracks'}
+                                </span>
+                              </div>
+                              <p className={`text-xs font-mono mt-1 ${!release?.upc && releaseStatus === 'pending' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                UPC {release?.upc || '—'}
+                              </p>
+                              {release && (
+                                <p className={`text-xs mt-1 ${isReleaseDatePast(release.release_date) && releaseStatus === 'pending' ? 'text-destructive' : 'text-muted-foreground'}`}>
+                                  {formatReleaseSchedule(release)}
+                                </p>
+                              )}
+                              {release && (
+                                <p className="text-xs text-muted-foreground mt-1 flex items-center gap-1" title={release.territories.join(', ')}>
+                                  <Globe className="h-3 w-3" />
+                                  {describeTerritories(release)}
+                                </p>
+                              )}
+                              {release && hasWorldwideCover({ ...release, tracks: releaseTracks }) && (
+                                <p className="text-xs text-warning mt-1 flex items-center gap-1">
+                                  <AlertTriangle className="h-3 w-3" />
+                                  Cover song released worldwide; check the licence covers every territory
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell>{releaseTracks[0].artist?.name}</TableCell>
+                            <TableCell colSpan={4} />
                             <TableCell>
-                              <AudioPlayerWithUrl 
-                                filePath={track.music_file_url || ''}
-                                title={track.title}
-                                className="min-w-[250px] md:min-w-[200px]"
-                              />
+                              {getStatusBadge(releaseStatus)}
+                              {releaseStatus === 'approved' && release && (
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {summarizeDelivery(release.release_stores ?? [])}
+                                </p>
+                              )}
                             </TableCell>
+                            <TableCell />
                             <TableCell className="text-right">
                               <div className="flex gap-1 justify-end flex-wrap">
-                                {track.status === 'pending' ? (
+                                {releaseStatus === 'pending' ? (
                                   <>
                                     <Button
                                       size="sm"
                                       variant="outline"
-                                      onClick={() => updateTrackStatus(track.id, 'approved')}
+                                      onClick={() => updateReleaseStatus(releaseId, 'approved')}
+                                      disabled={isReleaseDatePast(release?.release_date) || !release?.upc}
                                       className="text-success hover:bg-success hover:text-success-foreground touch-target"
-                                      title="Approve"
+                                      title={isReleaseDatePast(release?.release_date) ? 'Release date has passed' : !release?.upc ? 'Release has no UPC/EAN' : 'Approve Release'}
                                     >
                                       <Check className="h-4 w-4" />
                                     </Button>
                                     <Button
                                       size="sm"
                                       variant="outline"
-                                      onClick={() => updateTrackStatus(track.id, 'rejected')}
+                                      onClick={() => updateReleaseStatus(releaseId, 'rejected')}
                                       className="text-destructive hover:bg-destructive hover:text-destructive-foreground touch-target"
-                                      title="Reject"
+                                      title="Reject Release"
                                     >
                                       <X className="h-4 w-4" />
                                     </Button>
                                   </>
                                 ) : null}
-                                 <Button
-                                   size="sm"
-                                   variant="outline"
-                                   onClick={() => downloadTrack(track.music_file_url, `${track.title}.mp3`)}
-                                   className="touch-target"
-                                   title="Download Track"
-                                 >
-                                   <Download className="h-4 w-4" />
-                                 </Button>
-                                  {track.cover_art_url && (
+                                  {releaseStatus === 'approved' && release && (
+                                    <>
+                                      <DdexExportButton releaseId={release.id} />
+                                      <DeliveryPackageButton releaseIds={[release.id]} />
+                                      <DeliveryTimeline releaseId={release.id} releaseTitle={release.title} canLog />
+                                    </>
+                                  )}
+                                  {release?.cover_art_url && (
                                     <Button
                                       size="sm"
                                       variant="outline"
-                                      onClick={() => downloadCoverArt(track.cover_art_url!)}
+                                      onClick={() => downloadCoverArt(release)}
                                       className="touch-target"
                                       title="Download Cover Art"
                                     >
@@ -620,7 +940,133 @@ export default function AdminDashboard() {
                               </div>
                             </TableCell>
                           </TableRow>
-                        ))}
+                          {releaseTracks.map((track) => (
+                          <Fragment key={track.id}>
+                          <TableRow>
+                            <TableCell colSpan={2} />
+                            <TableCell className="text-muted-foreground">{formatTrackPosition(track, multiDisc)}</TableCell>
+                             <TableCell>
+                               <div className="flex items-center gap-1.5 font-medium">
+                                 {track.title}
+                                 {track.parental_advisory === 'explicit' && (
+                                   <Badge variant="outline" className="px-1 py-0 text-[10px]" title="Explicit">E</Badge>
+                                 )}
+                                 {track.parental_advisory === 'clean' && (
+                                   <Badge variant="outline" className="px-1 py-0 text-[10px]" title="Clean version">C</Badge>
+                                 )}
+                                 {track.parent_track_id && (
+                                   <Badge variant="secondary" className="text-[10px]">{versionLabel(track)}</Badge>
+                                 )}
+                                 {track.is_cover && (
+                                   <Badge variant="outline" className="text-[10px]">Cover</Badge>
+                                 )}
+                               </div>
+                               {track.parent_track_id && (
+                                 <div className="text-xs text-muted-foreground">
+                                   Version of {trackById(track.parent_track_id)?.title ?? 'a deleted track'}
+                                 </div>
+                               )}
+                               <div className="text-xs text-muted-foreground font-mono">
+                                 ISRC {track.isrc ? formatIsrc(track.isrc) : '—'}
+                               </div>
+                               <div className="text-xs text-muted-foreground">
+                                 {describeTrackAudio(track) || 'Format not checked'}
+                               </div>
+                               {trackLoudness(track) && <LoudnessSummary report={trackLoudness(track)} />}
+                               <div className="flex flex-wrap items-center gap-1">
+                                 {track.qc_report && <QcBadge report={track.qc_report} />}
+                                 {isLossyCutoff(track.spectral_cutoff_hz) && (
+                                   <Badge
+                                     variant="outline"
+                                     className="text-[10px] border-warning text-warning"
+                                     title={cutoffWarning(track.spectral_cutoff_hz)}
+                                   >
+                                     Lossy source? {formatFrequency(track.spectral_cutoff_hz)}
+                                   </Badge>
+                                 )}
+                                 {track.music_file_url && <SpectrogramDialog title={track.title} filePath={track.music_file_url} />}
+                               </div>
+                               <div className="text-xs text-muted-foreground space-y-0.5 mt-1">
+                                 <div>{languageLabel(track.language_code) || 'No language'} · {track.label_name || 'No label'}</div>
+                                 <div>{formatRightsLine('©', track.copyright_line) || '© missing'}</div>
+                                 <div>{formatRightsLine('℗', track.phonographic_line) || '℗ missing'}</div>
+                                 {(track.lyrics || track.synced_lyrics) && (
+                                   <LyricsReviewDialog
+                                     title={track.title}
+                                     filePath={track.music_file_url || ''}
+                                     lyrics={track.lyrics}
+                                     syncedLyrics={track.synced_lyrics}
+                                   />
+                                 )}
+                               </div>
+                             </TableCell>
+                             <TableCell>{track.artist?.name}</TableCell>
+                            <TableCell>
+                              <ul className="text-xs space-y-0.5 min-w-[160px]">
+                                {[...(track.credits ?? [])]
+                                  .sort((a, b) => a.position - b.position)
+                                  .map((credit, index) => (
+                                    <li key={index}>{formatCredit(credit)}</li>
+                                  ))}
+                              </ul>
+                            </TableCell>
+                            <TableCell>
+                              <div>{genreLabel(genres, track.primary_genre_id)}</div>
+                              {track.secondary_genre_id && (
+                                <div className="text-xs text-muted-foreground">{genreLabel(genres, track.secondary_genre_id)}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatDuration(track.duration)}</TableCell>
+                            <TableCell>{formatDate(track.upload_date)}</TableCell>
+                            <TableCell>{getStatusBadge(track.status)}</TableCell>
+                            <TableCell>
+                              <AudioPlayerWithUrl 
+                                filePath={track.music_file_url || ''}
+                                peaksPath={track.peaks_file_url}
+                                previewPath={track.preview_file_url}
+                                title={track.title}
+                                className="min-w-[250px] md:min-w-[200px]"
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex gap-1 justify-end flex-wrap">
+                                 <Button
+                                   size="sm"
+                                   variant="outline"
+                                   onClick={() => downloadTrack(track)}
+                                   className="touch-target"
+                                   title="Download Track"
+                                 >
+                                   <Download className="h-4 w-4" />
+                                 </Button>
+                                 <TrackRevisionsDialog trackId={track.id} trackTitle={track.title} canRestore />
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                          {(versionsByParent.get(track.id) ?? []).map((version) => (
+                            <TableRow key={version.id} className="text-sm">
+                              <TableCell colSpan={2} />
+                              <TableCell className="text-muted-foreground">
+                                <CornerDownRight className="h-3 w-3 ml-auto" />
+                              </TableCell>
+                              <TableCell colSpan={6}>
+                                <span className="font-medium">{versionLabel(version)}</span>
+                                <Badge variant="outline" className="ml-2 text-[10px]">
+                                  {VERSION_TYPE_LABELS[version.version_type as VersionType] ?? version.version_type}
+                                </Badge>
+                                <span className="text-xs text-muted-foreground ml-2">
+                                  on {version.release?.title ?? version.title}
+                                </span>
+                              </TableCell>
+                              <TableCell>{getStatusBadge(version.status)}</TableCell>
+                              <TableCell colSpan={2} />
+                            </TableRow>
+                          ))}
+                          </Fragment>
+                          ))}
+                          </Fragment>
+                          );
+                        })}
                       </TableBody>
                       </Table>
                     </div>
@@ -628,13 +1074,18 @@ export default function AdminDashboard() {
                 )}
               </CardContent>
             </Card>
-          ) : (
+          ) : activeTab === 'users' ? (
             <Card className="card-modern">
               <CardHeader>
-                <CardTitle>User Management</CardTitle>
-                <CardDescription>
-                  Manage user accounts and permissions
-                </CardDescription>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1.5">
+                    <CardTitle>User Management</CardTitle>
+                    <CardDescription>
+                      Manage user accounts and permissions
+                    </CardDescription>
+                  </div>
+                  <ExportMenu rows={profiles} columns={userExportColumns} name="users" className="touch-target" />
+                </div>
               </CardHeader>
               
               <CardContent>
@@ -679,6 +1130,20 @@ export default function AdminDashboard() {
                 )}
               </CardContent>
             </Card>
+          ) : activeTab === 'isrc' ? (
+            <div className="space-y-6">
+              <IsrcRegistry />
+              <DdexSettings />
+            </div>
+          ) : activeTab === 'genres' ? (
+            <GenreManager />
+          ) : activeTab === 'stores' ? (
+            <div className="space-y-6">
+              <StoreManager />
+              <DeliveryTargets />
+            </div>
+          ) : (
+            <ReleaseCalendar />
           )}
         </div>
       </div>
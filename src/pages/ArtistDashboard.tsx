@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { AuthGuard } from '@/components/auth/AuthGuard';
 import { supabase } from '@/integrations/supabase/client';
@@ -9,25 +9,41 @@ import { Badge } from '@/components/ui/badge';
 import Logo from '@/components/ui/Logo';
 import { AudioPlayerWithUrl } from '@/components/audio/AudioPlayerWithUrl';
 import { toast } from '@/hooks/use-toast';
-import { Upload, LogOut, Trash2, Music, Calendar, Clock, Edit } from 'lucide-react';
+import { Upload, LogOut, Trash2, Music, Calendar, Clock, Edit, Disc3, Send, GitBranchPlus, CornerDownRight } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
 import { NewReleaseForm } from '@/components/forms/NewReleaseForm';
+import { BulkImportDialog } from '@/components/forms/BulkImportDialog';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Tables } from '@/integrations/supabase/types';
+import { RELEASE_TYPE_LABELS, ReleaseType, ReleaseWithTracks, TrackWithDetails, formatTrackPosition, sortTracklist } from '@/lib/releases';
+import { VERSION_TYPE_LABELS, VersionType, groupVersionsByParent, versionLabel } from '@/lib/versions';
+import { releaseSplitProgress } from '@/lib/splits';
+import { formatIsrc } from '@/lib/identifiers';
+import { describeTrackAudio } from '@/lib/wav';
+import { trackLoudness } from '@/lib/loudness';
+import { LoudnessSummary } from '@/components/audio/LoudnessSummary';
+import { genreLabel } from '@/lib/genres';
+import { formatReleaseSchedule } from '@/lib/release-schedule';
+import { useGenres } from '@/hooks/use-genres';
+import { SplitInvitation, SplitInvitations } from '@/components/splits/SplitInvitations';
+import { DeliveryTimeline } from '@/components/delivery/DeliveryTimeline';
+import { summarizeDelivery } from '@/lib/delivery';
 
-type Track = Omit<Tables<'tracks'>, 'deleted_at' | 'deleted_by'>;
+type Release = ReleaseWithTracks;
 
 export default function ArtistDashboard() {
   const { profile, signOut } = useAuth();
-  const [tracks, setTracks] = useState<Track[]>([]);
-  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [invitations, setInvitations] = useState<SplitInvitation[]>([]);
   const [loading, setLoading] = useState(true);
-  const [editingTrack, setEditingTrack] = useState<Track | undefined>(undefined);
+  const [editingRelease, setEditingRelease] = useState<Release | undefined>(undefined);
+  const [versionOf, setVersionOf] = useState<TrackWithDetails | undefined>(undefined);
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const { genres } = useGenres();
 
   useEffect(() => {
     if (profile?.id) {
-      fetchTracks();
+      fetchReleases();
+      fetchInvitations();
       
       const channel = supabase
         .channel('tracks-changes')
@@ -40,7 +56,42 @@ export default function ArtistDashboard() {
             filter: `artist_id=eq.${profile.id}`
           },
           () => {
-            fetchTracks();
+            fetchReleases();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'releases',
+            filter: `artist_id=eq.${profile.id}`
+          },
+          () => {
+            fetchReleases();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'track_splits'
+          },
+          () => {
+            fetchReleases();
+            fetchInvitations();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'release_stores'
+          },
+          () => {
+            fetchReleases();
           }
         )
         .subscribe();
@@ -51,7 +102,7 @@ export default function ArtistDashboard() {
     }
   }, [profile?.id]);
 
-  const fetchTracks = async () => {
+  const fetchReleases = async () => {
     if (!profile?.id) {
       setLoading(false);
       return;
@@ -59,24 +110,19 @@ export default function ArtistDashboard() {
     
     try {
       const { data, error } = await supabase
-        .from('tracks')
-        .select('id, artist_id, title, genre, duration, upload_date, status, cover_art_url, music_file_url, upc_irsc, command')
+        .from('releases')
+        .select('*, tracks(*, track_credits(*), track_splits(*)), release_stores(*)')
         .eq('artist_id', profile.id)
-        .order('upload_date', { ascending: false });
+        .order('created_at', { ascending: false });
 
       if (error) throw error;
 
-      const enhancedTracks = data.map(track => {
-        const coverArtPublicUrl = track.cover_art_url ? supabase.storage.from('cover-art').getPublicUrl(track.cover_art_url).data.publicUrl : '';
-        return { ...track, cover_art_url: coverArtPublicUrl };
-      });
-
-      setTracks((enhancedTracks as Track[]) || []);
+      setReleases((data as Release[]) || []);
     } catch (error) {
-      console.error('Error fetching tracks:', error);
+      console.error('Error fetching releases:', error);
       toast({
         title: 'Error',
-        description: 'Failed to fetch tracks',
+        description: 'Failed to fetch releases',
         variant: 'destructive'
       });
     } finally {
@@ -84,61 +130,109 @@ export default function ArtistDashboard() {
     }
   };
 
-  const deleteTrack = async (trackId: string) => {
+  const fetchInvitations = async () => {
     try {
-      // Get the track data to get the music_file_url and cover_art_url
-      const { data: trackData, error: trackError } = await supabase
-        .from('tracks')
-        .select('music_file_url, cover_art_url')
-        .eq('id', trackId)
-        .single();
+      const { data, error } = await supabase.rpc('get_my_split_invitations');
+      if (error) throw error;
+      setInvitations(data || []);
+    } catch (error) {
+      console.error('Error fetching split invitations:', error);
+    }
+  };
+
+  const submitForReview = async (release: Release) => {
+    try {
+      const { error } = await supabase
+        .from('releases')
+        .update({ status: 'pending' })
+        .eq('id', release.id);
 
-      if (trackError) throw trackError;
+      if (error) throw error;
+
+      toast({
+        title: 'Release Submitted',
+        description: 'Your release has been sent for review.',
+      });
 
-      // Delete the track from storage
-      const { error: storageError } = await supabase
-        .storage
-        .from('tracks')
-        .remove([trackData.music_file_url, trackData.cover_art_url]);
+      fetchReleases();
+    } catch (error) {
+      console.error('Submit error:', error);
+      toast({
+        title: 'Submit Failed',
+        description: error instanceof Error ? error.message : 'Failed to submit release',
+        variant: 'destructive'
+      });
+    }
+  };
 
-      if (storageError) throw storageError;
+  const deleteRelease = async (release: Release) => {
+    try {
+      // Delete the audio files, with the peaks and previews stored beside them, and artwork from storage
+      const musicFiles = release.tracks
+        .flatMap(track => [track.music_file_url, track.peaks_file_url, track.preview_file_url])
+        .filter(Boolean);
+      if (musicFiles.length > 0) {
+        const { error: musicError } = await supabase.storage.from('music-files').remove(musicFiles);
+        if (musicError) throw musicError;
+      }
+      if (release.cover_art_url) {
+        const { error: coverError } = await supabase.storage.from('cover-art').remove([release.cover_art_url]);
+        if (coverError) throw coverError;
+      }
 
-      // Delete the track from the database
+      // Deleting the release removes its tracks as well
       const { error: dbError } = await supabase
-        .from('tracks')
+        .from('releases')
         .delete()
-        .eq('id', trackId);
+        .eq('id', release.id);
 
       if (dbError) throw dbError;
 
       toast({
-        title: 'Track Deleted',
-        description: 'Track has been deleted successfully.',
+        title: 'Release Deleted',
+        description: 'Release has been deleted successfully.',
       });
 
-      fetchTracks();
+      fetchReleases();
     } catch (error) {
       console.error('Delete error:', error);
       toast({
         title: 'Delete Failed',
-        description: 'Failed to delete track. Please try again.',
+        description: 'Failed to delete release. Please try again.',
         variant: 'destructive'
       });
     }
   };
 
+  const coverArtUrl = (path: string | null) =>
+    path ? supabase.storage.from('cover-art').getPublicUrl(path).data.publicUrl : '';
+
   const handleFormSuccess = () => {
     setIsFormOpen(false);
-    setEditingTrack(undefined);
-    fetchTracks();
+    setEditingRelease(undefined);
+    setVersionOf(undefined);
+    fetchReleases();
+  };
+
+  const openNewRelease = (release?: Release, parentTrack?: TrackWithDetails) => {
+    setEditingRelease(release);
+    setVersionOf(parentTrack);
   };
 
+  // Versions are listed under their original rather than as unrelated tracks
+  const allTracks = releases.flatMap(release => release.tracks);
+  const versionsByParent = groupVersionsByParent(allTracks);
+  const trackTitle = (id: string) => allTracks.find(track => track.id === id)?.title;
+  const releaseTitle = (id: string | null) => releases.find(release => release.id === id)?.title;
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'approved':
         return <Badge className="status-approved bg-green-500 text-white">Approved</Badge>;
       case 'rejected':
         return <Badge className="status-rejected bg-red-500 text-white">Rejected</Badge>;
+      case 'draft':
+        return <Badge className="status-draft bg-amber-500 text-white">Awaiting Splits</Badge>;
       default:
         return <Badge className="status-pending bg-violet-500 text-white">Pending</Badge>;
     }
@@ -187,28 +281,34 @@ export default function ArtistDashboard() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Upload className="h-5 w-5" />
-                Upload New Track
+                Upload New Release
               </CardTitle>
               <CardDescription>
-                Share your music with the world. Upload WAV files.
+                Share your music with the world. Upload a single, EP or album as WAV files.
               </CardDescription>
             </CardHeader>
             <CardContent>
-               <DialogTrigger asChild>
-                 <Button onClick={() => setEditingTrack(undefined)}>Create New Release</Button>
-               </DialogTrigger>
+              <div className="flex flex-wrap gap-2">
+                <DialogTrigger asChild>
+                  <Button onClick={() => openNewRelease()}>Create New Release</Button>
+                </DialogTrigger>
+                <BulkImportDialog onImported={fetchReleases} />
+              </div>
             </CardContent>
           </Card>
 
-          {/* Tracks List */}
+          {/* Split Invitations */}
+          <SplitInvitations invitations={invitations} onResponded={fetchInvitations} />
+
+          {/* Releases List */}
           <Card className="card-modern">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Music className="h-5 w-5" />
-                My Tracks ({tracks.length})
+                My Releases ({releases.length})
               </CardTitle>
               <CardDescription>
-                Manage your uploaded tracks and view their approval status
+                Manage your releases and their tracks, and view their approval status
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -216,11 +316,11 @@ export default function ArtistDashboard() {
                 <div className="flex items-center justify-center py-8">
                   <Loader2 className="h-6 w-6 animate-spin" />
                 </div>
-              ) : tracks.length === 0 ? (
+              ) : releases.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
                   <Music className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                  <p>No tracks uploaded yet</p>
-                  <p className="text-sm">Upload your first track to get started!</p>
+                  <p>No releases uploaded yet</p>
+                  <p className="text-sm">Upload your first release to get started!</p>
                 </div>
               ) : (
                 <div className="mobile-table">
@@ -229,6 +329,7 @@ export default function ArtistDashboard() {
                     <TableHeader>
                       <TableRow>
                         <TableHead className="w-20">Cover Art</TableHead>
+                        <TableHead className="w-12">#</TableHead>
                         <TableHead>Title</TableHead>
                         <TableHead>Genre</TableHead>
                         <TableHead>Duration</TableHead>
@@ -239,69 +340,179 @@ export default function ArtistDashboard() {
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {tracks.map((track) => (
-                        <TableRow key={track.id}>
-                          <TableCell>
-                            <div className="w-16 h-16 bg-muted rounded-lg overflow-hidden flex items-center justify-center">
-                              {track.cover_art_url ? (
-                                <img 
-                                  src={track.cover_art_url} 
-                                  alt={`${track.title} cover`}
-                                  className="w-full h-full object-cover"
-                                />
-                              ) : (
-                                <Music className="h-6 w-6 text-muted-foreground" />
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell className="font-medium">{track.title}</TableCell>
-                          <TableCell>{track.genre}</TableCell>
-                          <TableCell>
-                            <div className="flex items-center gap-1">
-                              <Clock className="h-3 w-3" />
-                              {formatDuration(durations[track.id] ?? track.duration)}
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex items-center gap-1">
-                              <Calendar className="h-3 w-3" />
-                              {formatDate(track.upload_date)}
-                            </div>
-                          </TableCell>
-                          <TableCell>{getStatusBadge(track.status)}</TableCell>
-                          <TableCell>
-                            <AudioPlayerWithUrl 
-                              filePath={track.music_file_url || ''}
-                              title={track.title}
-                              onDurationChange={(d) => setDurations(prev => ({...prev, [track.id]: d}))}
-                              className="min-w-[250px] md:min-w-[200px]"
-                            />
-                          </TableCell>
-                          <TableCell className="text-right">
-                            <div className="flex items-center justify-end gap-2">
-                              {track.status === 'rejected' && (
-                                 <DialogTrigger asChild>
+                      {releases.map((release) => {
+                        const tracklist = sortTracklist(release.tracks);
+                        const multiDisc = tracklist.some(track => track.disc_number > 1);
+                        const splitProgress = releaseSplitProgress(tracklist);
+                        return (
+                          <Fragment key={release.id}>
+                            <TableRow className="bg-muted/40">
+                              <TableCell>
+                                <div className="w-16 h-16 bg-muted rounded-lg overflow-hidden flex items-center justify-center">
+                                  {release.cover_art_url ? (
+                                    <img 
+                                      src={coverArtUrl(release.cover_art_url)} 
+                                      alt={`${release.title} cover`}
+                                      className="w-full h-full object-cover"
+                                    />
+                                  ) : (
+                                    <Disc3 className="h-6 w-6 text-muted-foreground" />
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell colSpan={4}>
+                                <div className="flex items-center gap-2">
+                                  <span className="font-semibold">{release.title}</span>
+                                  <Badge variant="outline">{RELEASE_TYPE_LABELS[release.release_type as ReleaseType] ?? release.release_type}</Badge>
+                                  <span className="text-xs text-muted-foreground">
+                                    {tracklist.length} {tracklist.length === 1 ? 'track' : 'tracks'}
+                                  </span>
+                                </div>
+                                {release.upc && (
+                                  <p className="text-xs text-muted-foreground font-mono mt-1">UPC {release.upc}</p>
+                                )}
+                                <p className="text-xs text-muted-foreground mt-1">{formatReleaseSchedule(release)}</p>
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-1">
+                                  <Calendar className="h-3 w-3" />
+                                  {formatDate(release.created_at)}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                {getStatusBadge(release.status)}
+                                {release.status === 'draft' && splitProgress.total > 0 && (
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {splitProgress.accepted}/{splitProgress.total} splits accepted
+                                  </p>
+                                )}
+                                {release.status === 'approved' && (
+                                  <p className="text-xs text-muted-foreground mt-1">
+                                    {summarizeDelivery(release.release_stores ?? [])}
+                                  </p>
+                                )}
+                              </TableCell>
+                              <TableCell />
+                              <TableCell className="text-right">
+                                <div className="flex items-center justify-end gap-2">
+                                  {release.status === 'approved' && (
+                                    <DeliveryTimeline releaseId={release.id} releaseTitle={release.title} />
+                                  )}
+                                  {release.status === 'draft' && splitProgress.accepted === splitProgress.total && (
+                                    <Button
+                                      size="sm"
+                                      onClick={() => submitForReview(release)}
+                                      className="touch-target"
+                                    >
+                                      <Send className="h-4 w-4 sm:mr-1" />
+                                      <span className="hidden sm:inline">Submit</span>
+                                    </Button>
+                                  )}
+                                  {(release.status === 'rejected' || release.status === 'draft') && (
+                                     <DialogTrigger asChild>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => openNewRelease(release)}
+                                      >
+                                        <Edit className="h-4 w-4" />
+                                      </Button>
+                                     </DialogTrigger>
+                                  )}
                                   <Button
                                     variant="outline"
                                     size="sm"
-                                    onClick={() => setEditingTrack(track)}
+                                    onClick={() => deleteRelease(release)}
+                                    className="text-destructive hover:bg-destructive hover:text-destructive-foreground touch-target"
                                   >
-                                    <Edit className="h-4 w-4" />
+                                    <Trash2 className="h-4 w-4" />
                                   </Button>
-                                 </DialogTrigger>
-                              )}
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => deleteTrack(track.id)}
-                                className="text-destructive hover:bg-destructive hover:text-destructive-foreground touch-target"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </TableCell>
-                        </TableRow>
-                      ))}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                            {tracklist.map((track) => (
+                              <Fragment key={track.id}>
+                              <TableRow>
+                                <TableCell />
+                                <TableCell className="text-muted-foreground">{formatTrackPosition(track, multiDisc)}</TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-1.5 font-medium">
+                                    {track.title}
+                                    {track.parent_track_id && (
+                                      <Badge variant="secondary" className="text-[10px]">{versionLabel(track)}</Badge>
+                                    )}
+                                  </div>
+                                  {track.parent_track_id && trackTitle(track.parent_track_id) && (
+                                    <div className="text-xs text-muted-foreground">Version of {trackTitle(track.parent_track_id)}</div>
+                                  )}
+                                  {track.isrc && (
+                                    <div className="text-xs text-muted-foreground font-mono">ISRC {formatIsrc(track.isrc)}</div>
+                                  )}
+                                  {describeTrackAudio(track) && (
+                                    <div className="text-xs text-muted-foreground">{describeTrackAudio(track)}</div>
+                                  )}
+                                  {trackLoudness(track) && <LoudnessSummary report={trackLoudness(track)} />}
+                                </TableCell>
+                                <TableCell>{genreLabel(genres, track.primary_genre_id)}</TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-1">
+                                    <Clock className="h-3 w-3" />
+                                    {formatDuration(track.duration)}
+                                  </div>
+                                </TableCell>
+                                <TableCell>
+                                  <div className="flex items-center gap-1">
+                                    <Calendar className="h-3 w-3" />
+                                    {formatDate(track.upload_date)}
+                                  </div>
+                                </TableCell>
+                                <TableCell>{getStatusBadge(track.status)}</TableCell>
+                                <TableCell>
+                                  <AudioPlayerWithUrl 
+                                    filePath={track.music_file_url || ''}
+                                    peaksPath={track.peaks_file_url}
+                                    previewPath={track.preview_file_url}
+                                    title={track.title}
+                                    className="min-w-[250px] md:min-w-[200px]"
+                                  />
+                                </TableCell>
+                                <TableCell className="text-right">
+                                  {!track.parent_track_id && (
+                                    <DialogTrigger asChild>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => openNewRelease(undefined, track)}
+                                        title="Create version"
+                                      >
+                                        <GitBranchPlus className="h-4 w-4" />
+                                      </Button>
+                                    </DialogTrigger>
+                                  )}
+                                </TableCell>
+                              </TableRow>
+                              {(versionsByParent.get(track.id) ?? []).map((version) => (
+                                <TableRow key={version.id} className="text-sm">
+                                  <TableCell />
+                                  <TableCell className="text-muted-foreground">
+                                    <CornerDownRight className="h-3 w-3 ml-auto" />
+                                  </TableCell>
+                                  <TableCell colSpan={4}>
+                                    <span className="font-medium">{versionLabel(version)}</span>
+                                    <Badge variant="outline" className="ml-2 text-[10px]">
+                                      {VERSION_TYPE_LABELS[version.version_type as VersionType] ?? version.version_type}
+                                    </Badge>
+                                    <span className="text-xs text-muted-foreground ml-2">on {releaseTitle(version.release_id)}</span>
+                                  </TableCell>
+                                  <TableCell>{getStatusBadge(version.status)}</TableCell>
+                                  <TableCell colSpan={2} />
+                                </TableRow>
+                              ))}
+                              </Fragment>
+                            ))}
+                          </Fragment>
+                        );
+                      })}
                     </TableBody>
                     </Table>
                   </div>
@@ -313,12 +524,16 @@ export default function ArtistDashboard() {
       </div>
        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingTrack ? "Edit Release" : "Create New Release"}</DialogTitle>
+            <DialogTitle>{editingRelease ? "Edit Release" : versionOf ? `New Version of ${versionOf.title}` : "Create New Release"}</DialogTitle>
             <DialogDescription>
-              {editingTrack ? 'Update the details for your track.' : 'Submit a new track for distribution. Please fill out all required fields.'}
+              {editingRelease
+                ? 'Update the details and tracklist for your release.'
+                : versionOf
+                  ? 'Metadata is copied from the original. Upload the version\'s audio and choose its version type.'
+                  : 'Submit a new release for distribution. Please fill out all required fields.'}
             </DialogDescription>
           </DialogHeader>
-          <NewReleaseForm track={editingTrack} onSuccess={handleFormSuccess} />
+          <NewReleaseForm release={editingRelease} versionOf={versionOf} onSuccess={handleFormSuccess} />
         </DialogContent>
       </Dialog>
     </AuthGuard>
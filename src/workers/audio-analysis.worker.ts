@@ -0,0 +1,34 @@
+import type { AnalysisResponse } from "@/lib/audio-analysis";
+import { createQcCollector } from "@/lib/audio-qc";
+import { createLoudnessMeter } from "@/lib/loudness";
+import { readPcmBlocks } from "@/lib/pcm";
+import { createSpectrumCollector } from "@/lib/spectrum";
+import { createPeaksCollector } from "@/lib/waveform";
+import { readWavFileFormat, wavFormatProblem } from "@/lib/wav";
+
+// Reads the file once and feeds every block to each analyser, off the main thread so the form stays responsive
+self.onmessage = async (event: MessageEvent<File>) => {
+  const respond = (response: AnalysisResponse) => self.postMessage(response);
+  try {
+    const format = await readWavFileFormat(event.data);
+    const problem = wavFormatProblem(format);
+    if (problem) return respond({ error: problem });
+
+    const loudness = createLoudnessMeter(format.sampleRate, format.channels);
+    const totalFrames = format.dataSize / format.blockAlign;
+    const waveform = createPeaksCollector(totalFrames, format.sampleRate);
+    const qc = createQcCollector(format.sampleRate, format.channels);
+    const spectrum = createSpectrumCollector(format.sampleRate, format.channels, totalFrames);
+    for await (const block of readPcmBlocks(event.data, format)) {
+      loudness.push(block);
+      waveform.push(block);
+      qc.push(block);
+      spectrum.push(block);
+    }
+    respond({
+      analysis: { loudness: loudness.report(), waveform: waveform.result(), qc: qc.report(), spectralCutoff: spectrum.cutoff() },
+    });
+  } catch (error) {
+    respond({ error: error instanceof Error ? error.message : "The audio could not be analysed." });
+  }
+};
@@ -0,0 +1,38 @@
+import { Mp3Encoder } from "@breezystack/lamejs";
+import type { PreviewResponse } from "@/lib/audio-analysis";
+import { readPcmBlocks } from "@/lib/pcm";
+import { readWavFileFormat, wavFormatProblem } from "@/lib/wav";
+
+// Transparent enough for auditioning a master, at around a tenth of a 16-bit WAV's size
+const PREVIEW_KBPS = 128;
+
+// A multiple of the 1152-sample MP3 frame keeps the encoder from buffering partial frames between blocks
+const FRAMES_PER_BLOCK = 1152 * 64;
+
+function toInt16(samples: Float32Array): Int16Array {
+  const output = new Int16Array(samples.length);
+  for (let index = 0; index < samples.length; index++) {
+    output[index] = Math.max(-1, Math.min(1, samples[index])) * 0x7fff;
+  }
+  return output;
+}
+
+self.onmessage = async (event: MessageEvent<File>) => {
+  const respond = (response: PreviewResponse) => self.postMessage(response);
+  try {
+    const format = await readWavFileFormat(event.data);
+    const problem = wavFormatProblem(format);
+    if (problem) return respond({ error: problem });
+
+    const encoder = new Mp3Encoder(format.channels, format.sampleRate, PREVIEW_KBPS);
+    const chunks: BlobPart[] = [];
+    for await (const block of readPcmBlocks(event.data, format, FRAMES_PER_BLOCK)) {
+      const [left, right] = block.map(toInt16);
+      chunks.push(new Uint8Array(encoder.encodeBuffer(left, right)));
+    }
+    chunks.push(new Uint8Array(encoder.flush()));
+    respond({ preview: new Blob(chunks, { type: "audio/mpeg" }) });
+  } catch (error) {
+    respond({ error: error instanceof Error ? error.message : "The preview could not be encoded." });
+  }
+};
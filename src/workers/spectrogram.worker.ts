@@ -0,0 +1,43 @@
+import type { SpectrogramResponse } from "@/lib/audio-analysis";
+import { readPcmBlocks } from "@/lib/pcm";
+import { SPECTRUM_BINS, createSpectrumCollector } from "@/lib/spectrum";
+import { readWavFileFormat, wavFormatProblem } from "@/lib/wav";
+
+// About one column per pixel of the review dialog
+const SPECTROGRAM_COLUMNS = 800;
+
+self.onmessage = async (event: MessageEvent<Blob>) => {
+  const respond = (response: SpectrogramResponse, transfer: Transferable[] = []) => self.postMessage(response, { transfer });
+  try {
+    const format = await readWavFileFormat(event.data);
+    const problem = wavFormatProblem(format);
+    if (problem) return respond({ error: problem });
+
+    const columns: Float32Array[] = [];
+    const spectrum = createSpectrumCollector(
+      format.sampleRate,
+      format.channels,
+      format.dataSize / format.blockAlign,
+      SPECTROGRAM_COLUMNS,
+      (levels) => columns.push(levels)
+    );
+    for await (const block of readPcmBlocks(event.data, format)) spectrum.push(block);
+
+    const levels = new Float32Array(columns.length * SPECTRUM_BINS);
+    columns.forEach((column, index) => levels.set(column, index * SPECTRUM_BINS));
+    respond(
+      {
+        spectrogram: {
+          sampleRate: format.sampleRate,
+          duration: format.duration,
+          columns: columns.length,
+          levels,
+          cutoff: spectrum.cutoff(),
+        },
+      },
+      [levels.buffer]
+    );
+  } catch (error) {
+    respond({ error: error instanceof Error ? error.message : "The spectrogram could not be computed." });
+  }
+};
@@ -0,0 +1,118 @@
+/**
+ * RIFF/WAVE header parsing, shared by the upload form, the validate-wav function and the delivery worker.
+ * Kept free of imports so it runs unchanged in the browser, Deno and Node.
+ */
+
+export interface WavFormat {
+  // 1 is integer PCM and 3 is float; WAVE_FORMAT_EXTENSIBLE files report their sub-format here
+  formatTag: number;
+  extensible: boolean;
+  channels: number;
+  sampleRate: number;
+  // Valid bits per sample, which extensible files may set below the container size
+  bitDepth: number;
+  byteRate: number;
+  // Bytes per frame, one sample for every channel
+  blockAlign: number;
+  // Where the samples start in the file
+  dataOffset: number;
+  dataSize: number;
+  // Seconds of audio in the data chunk
+  duration: number;
+}
+
+export const ACCEPTED_SAMPLE_RATES = [44100, 48000];
+export const ACCEPTED_BIT_DEPTHS = [16, 24];
+export const ACCEPTED_CHANNELS = 2;
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+// Real files carry a handful of chunks before the audio; a crafted one could otherwise keep the walk going forever
+const MAX_CHUNKS = 64;
+
+/**
+ * Reads `length` bytes at `offset`; fewer bytes back means the file ended
+ */
+export type WavReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+function fourCC(bytes: Uint8Array, offset = 0): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+function parseFmtChunk(chunk: Uint8Array): Omit<WavFormat, "dataOffset" | "dataSize" | "duration"> | null {
+  if (chunk.byteLength < 16) return null;
+  const view = new DataView(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  const tag = view.getUint16(0, true);
+  const containerBits = view.getUint16(14, true);
+  const extensible = tag === WAVE_FORMAT_EXTENSIBLE;
+  if (extensible && chunk.byteLength < 40) return null;
+
+  return {
+    // The sub-format GUID starts with the plain format tag
+    formatTag: extensible ? view.getUint16(24, true) : tag,
+    extensible,
+    channels: view.getUint16(2, true),
+    sampleRate: view.getUint32(4, true),
+    bitDepth: (extensible && view.getUint16(18, true)) || containerBits,
+    byteRate: view.getUint32(8, true),
+    blockAlign: view.getUint16(12, true),
+  };
+}
+
+/**
+ * Walks the RIFF chunks with small reads until the fmt and data chunks are found, so large metadata chunks before
+ * the audio cost nothing to skip. Returns null when the file is not RIFF/WAVE, either chunk is missing, or the data
+ * chunk is not among the first MAX_CHUNKS.
+ */
+export async function readWavFormat(read: WavReader): Promise<WavFormat | null> {
+  const riff = await read(0, 12);
+  if (riff.byteLength < 12 || fourCC(riff) !== "RIFF" || fourCC(riff, 8) !== "WAVE") return null;
+
+  let format: Omit<WavFormat, "dataOffset" | "dataSize" | "duration"> | null = null;
+  for (let chunk = 0, offset = 12; chunk < MAX_CHUNKS; chunk++) {
+    const header = await read(offset, 8);
+    if (header.byteLength < 8) return null;
+    const size = new DataView(header.buffer, header.byteOffset, 8).getUint32(4, true);
+
+    if (fourCC(header) === "fmt ") {
+      format = parseFmtChunk(await read(offset + 8, Math.min(size, 40)));
+      if (!format) return null;
+    } else if (fourCC(header) === "data") {
+      if (!format || format.byteRate === 0) return null;
+      return { ...format, dataOffset: offset + 8, dataSize: size, duration: size / format.byteRate };
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * Why a file cannot be distributed, or null when it is PCM 16/24-bit, 44.1/48 kHz stereo
+ */
+export function wavFormatProblem(format: WavFormat | null): string | null {
+  if (!format) return "This is not a valid WAV file.";
+  if (format.formatTag === WAVE_FORMAT_IEEE_FLOAT) return "32-bit float WAVs are not accepted; export as 16 or 24-bit PCM.";
+  if (format.formatTag !== WAVE_FORMAT_PCM) return "Compressed WAVs are not accepted; export as uncompressed PCM.";
+  if (!ACCEPTED_BIT_DEPTHS.includes(format.bitDepth)) {
+    return `${format.bitDepth}-bit audio is not accepted; export as 16 or 24-bit.`;
+  }
+  if (!ACCEPTED_SAMPLE_RATES.includes(format.sampleRate)) {
+    return `${format.sampleRate / 1000} kHz audio is not accepted; export at 44.1 or 48 kHz.`;
+  }
+  if (format.channels !== ACCEPTED_CHANNELS) {
+    return format.channels === 1
+      ? "Mono files are not accepted; export in stereo."
+      : `${format.channels}-channel audio is not accepted; export in stereo.`;
+  }
+  return null;
+}
+
+/**
+ * Short description for review screens, e.g. "24-bit · 48 kHz · Stereo"
+ */
+export function describeWavFormat({ bitDepth, sampleRate, channels }: Pick<WavFormat, "bitDepth" | "sampleRate" | "channels">): string {
+  const layout = channels === 1 ? "Mono" : channels === 2 ? "Stereo" : `${channels} channels`;
+  return `${bitDepth}-bit · ${sampleRate / 1000} kHz · ${layout}`;
+}
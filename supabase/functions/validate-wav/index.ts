@@ -0,0 +1,62 @@
+// Checks an uploaded music file's WAV header on the server, after the browser has already checked it before upload.
+// Files that are not PCM 16/24-bit 44.1/48 kHz stereo are deleted again. The format of files that pass is recorded for
+// the database, which copies it onto the track and refuses to submit a release whose audio was never checked here.
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { readWavFormat, wavFormatProblem } from "../_shared/wav.ts";
+
+const BUCKET = "music-files";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const token = req.headers.get("Authorization")?.replace(/^Bearer /, "") ?? "";
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token);
+  if (!user) return json({ error: "You must be logged in." }, 401);
+
+  const { path } = await req.json().catch(() => ({}));
+  // Uploads live under the artist's own folder, so nobody can probe or delete someone else's files
+  if (typeof path !== "string" || !path.startsWith(`${user.id}/`)) return json({ error: "Invalid file path." }, 400);
+
+  const { data: signed } = await supabase.storage.from(BUCKET).createSignedUrl(path, 60);
+  if (!signed) return json({ error: "File not found." }, 404);
+
+  try {
+    const format = await readWavFormat(async (offset, length) => {
+      const response = await fetch(signed.signedUrl, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+      // Reading past the end of the file
+      if (response.status === 416) return new Uint8Array();
+      if (!response.ok) throw new Error(`Storage responded with ${response.status}`);
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      return response.status === 206 ? bytes : bytes.subarray(offset, offset + length);
+    });
+
+    const problem = wavFormatProblem(format);
+    if (problem || !format) {
+      const { error } = await supabase.storage.from(BUCKET).remove([path]);
+      if (error) console.error(`Could not remove rejected file ${path}:`, error);
+      // A file that passed earlier under the same path must not still count
+      await supabase.from("wav_validations").delete().eq("path", path);
+      return json({ error: problem }, 422);
+    }
+
+    const { error } = await supabase.rpc("record_wav_validation", {
+      p_path: path,
+      p_sample_rate: format.sampleRate,
+      p_bit_depth: format.bitDepth,
+      p_channel_count: format.channels,
+    });
+    if (error) throw error;
+    return json({ format });
+  } catch (error) {
+    console.error(`Error validating ${path}:`, error);
+    return json({ error: "The file could not be checked." }, 500);
+  }
+});
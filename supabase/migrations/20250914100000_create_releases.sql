@@ -0,0 +1,106 @@
+-- Releases (single / EP / album) own an ordered tracklist and are moderated as one unit
+CREATE TABLE public.releases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  artist_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  release_type TEXT NOT NULL DEFAULT 'single'
+    CHECK (release_type IN ('single', 'ep', 'album')),
+  cover_art_url TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX releases_artist_id_idx ON public.releases (artist_id);
+
+ALTER TABLE public.releases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Artists can view their own releases"
+ON public.releases
+FOR SELECT
+USING (auth.uid() = artist_id);
+
+CREATE POLICY "Admins can view all releases"
+ON public.releases
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Artists can create their own releases"
+ON public.releases
+FOR INSERT
+WITH CHECK (auth.uid() = artist_id AND status = 'pending');
+
+CREATE POLICY "Artists can update their own releases"
+ON public.releases
+FOR UPDATE
+USING (auth.uid() = artist_id)
+WITH CHECK (auth.uid() = artist_id AND status = 'pending');
+
+CREATE POLICY "Artists can delete their own releases"
+ON public.releases
+FOR DELETE
+USING (auth.uid() = artist_id);
+
+CREATE POLICY "Admins can update release status"
+ON public.releases
+FOR UPDATE
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
+
+-- Tracks belong to a release and carry their position in the tracklist
+ALTER TABLE public.tracks
+ADD COLUMN release_id UUID REFERENCES public.releases(id) ON DELETE CASCADE,
+ADD COLUMN disc_number INTEGER NOT NULL DEFAULT 1 CHECK (disc_number > 0),
+ADD COLUMN track_number INTEGER CHECK (track_number > 0);
+
+-- Every existing track becomes a single that reuses the track id
+INSERT INTO public.releases (id, artist_id, title, release_type, cover_art_url, status, created_at)
+SELECT
+  t.id,
+  t.artist_id,
+  t.title,
+  'single',
+  t.cover_art_url,
+  CASE WHEN t.status IN ('pending', 'approved', 'rejected') THEN t.status ELSE 'pending' END,
+  COALESCE(t.created_at, t.upload_date, now())
+FROM public.tracks t
+WHERE t.artist_id IS NOT NULL;
+
+UPDATE public.tracks
+SET release_id = id, track_number = 1
+WHERE artist_id IS NOT NULL;
+
+-- Artwork is a release-level asset now
+ALTER TABLE public.tracks
+DROP COLUMN cover_art_url;
+
+CREATE INDEX tracks_release_id_idx ON public.tracks (release_id);
+
+-- Deferrable so a whole tracklist can be reordered in one statement
+ALTER TABLE public.tracks
+ADD CONSTRAINT tracks_release_position_key
+UNIQUE (release_id, disc_number, track_number)
+DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Moderating a release moderates every track on it
+CREATE OR REPLACE FUNCTION public.sync_release_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  NEW.updated_at = now();
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE public.tracks SET status = NEW.status WHERE release_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_release_status_change
+  BEFORE UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.sync_release_status();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.releases;
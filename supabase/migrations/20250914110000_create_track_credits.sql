@@ -0,0 +1,52 @@
+-- Contributor credits per track (artists, songwriters, production)
+CREATE TABLE public.track_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  track_id UUID NOT NULL REFERENCES public.tracks(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  role TEXT NOT NULL CHECK (role IN (
+    'artist', 'remixer', 'conductor', 'orchestra',
+    'composer', 'lyricist', 'composer_lyricist', 'arranger',
+    'producer', 'co_producer', 'mixing_engineer', 'mastering_engineer', 'recording_engineer'
+  )),
+  is_primary BOOLEAN NOT NULL DEFAULT true,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX track_credits_track_id_idx ON public.track_credits (track_id);
+
+ALTER TABLE public.track_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Artists can view credits on their own tracks"
+ON public.track_credits
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+CREATE POLICY "Admins can view all credits"
+ON public.track_credits
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Artists can manage credits on their own tracks"
+ON public.track_credits
+FOR ALL
+USING (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+-- Lets artists link a credit to another account without exposing the profiles table
+CREATE OR REPLACE FUNCTION public.find_profile_id(p_email text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT id FROM public.profiles WHERE lower(email) = lower(trim(p_email)) LIMIT 1;
+$function$;
+
+-- Every existing track gets its uploader as the primary artist
+INSERT INTO public.track_credits (track_id, name, role, is_primary, profile_id)
+SELECT t.id, COALESCE(NULLIF(p.name, ''), p.email, 'Unknown Artist'), 'artist', true, p.id
+FROM public.tracks t
+JOIN public.profiles p ON p.id = t.artist_id;
@@ -0,0 +1,246 @@
+-- Royalty split sheets: collaborators are invited by email and accept or dispute their share
+CREATE TABLE public.track_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  track_id UUID NOT NULL REFERENCES public.tracks(id) ON DELETE CASCADE,
+  collaborator_name TEXT NOT NULL CHECK (length(trim(collaborator_name)) > 0),
+  collaborator_email TEXT NOT NULL CHECK (collaborator_email = lower(trim(collaborator_email))),
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  share NUMERIC(5, 2) NOT NULL CHECK (share > 0 AND share <= 100),
+  status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'disputed')),
+  dispute_reason TEXT,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (track_id, collaborator_email)
+);
+
+CREATE INDEX track_splits_profile_id_idx ON public.track_splits (profile_id);
+
+ALTER TABLE public.track_splits ENABLE ROW LEVEL SECURITY;
+
+-- Artists write the sheet; the status columns are guarded by the trigger below so only collaborators can answer
+CREATE POLICY "Artists can view splits on their own tracks"
+ON public.track_splits
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+CREATE POLICY "Artists can add splits to their own tracks"
+ON public.track_splits
+FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+CREATE POLICY "Artists can update splits on their own tracks"
+ON public.track_splits
+FOR UPDATE
+USING (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()))
+WITH CHECK (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+CREATE POLICY "Artists can remove splits from their own tracks"
+ON public.track_splits
+FOR DELETE
+USING (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+CREATE POLICY "Collaborators can view their own splits"
+ON public.track_splits
+FOR SELECT
+USING (profile_id = auth.uid() OR collaborator_email = lower(auth.jwt() ->> 'email'));
+
+CREATE POLICY "Admins can view all splits"
+ON public.track_splits
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+-- Links the invitation to an account and auto-accepts the uploader's own share. Every other answer has to come
+-- from the collaborator through respond_to_split, so whatever status the artist writes is discarded.
+CREATE OR REPLACE FUNCTION public.prepare_track_split()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  owner_id uuid := (SELECT artist_id FROM public.tracks WHERE id = NEW.track_id);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'invited';
+    NEW.dispute_reason := NULL;
+    NEW.responded_at := NULL;
+  ELSIF auth.uid() = owner_id THEN
+    NEW.status := OLD.status;
+    NEW.dispute_reason := OLD.dispute_reason;
+    NEW.responded_at := OLD.responded_at;
+    NEW.profile_id := OLD.profile_id;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.collaborator_email IS DISTINCT FROM OLD.collaborator_email THEN
+    NEW.profile_id := (SELECT id FROM public.profiles WHERE lower(email) = NEW.collaborator_email LIMIT 1);
+  END IF;
+
+  -- A changed share or collaborator has to be accepted again
+  IF TG_OP = 'UPDATE'
+     AND (NEW.share IS DISTINCT FROM OLD.share OR NEW.collaborator_email IS DISTINCT FROM OLD.collaborator_email) THEN
+    NEW.status := 'invited';
+    NEW.dispute_reason := NULL;
+    NEW.responded_at := NULL;
+  END IF;
+
+  IF NEW.profile_id IS NOT NULL AND NEW.profile_id = owner_id THEN
+    NEW.status := 'accepted';
+    NEW.responded_at := COALESCE(NEW.responded_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_track_split_write
+  BEFORE INSERT OR UPDATE ON public.track_splits
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_track_split();
+
+-- Collaborators answer through this function so they can only touch their own status
+CREATE OR REPLACE FUNCTION public.respond_to_split(p_split_id uuid, p_accept boolean, p_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NOT p_accept AND coalesce(trim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'Please explain why you are disputing this split';
+  END IF;
+
+  UPDATE public.track_splits
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'disputed' END,
+      dispute_reason = CASE WHEN p_accept THEN NULL ELSE trim(p_reason) END,
+      responded_at = now(),
+      profile_id = auth.uid()
+  WHERE id = p_split_id
+    AND (profile_id = auth.uid() OR collaborator_email = lower(auth.jwt() ->> 'email'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Split invitation not found';
+  END IF;
+END;
+$function$;
+
+-- Invitations addressed to the current user, with the track they belong to
+CREATE OR REPLACE FUNCTION public.get_my_split_invitations()
+RETURNS TABLE (
+  id uuid,
+  share numeric,
+  status text,
+  dispute_reason text,
+  created_at timestamp with time zone,
+  track_title text,
+  release_title text,
+  owner_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT s.id, s.share, s.status, s.dispute_reason, s.created_at, t.title, r.title, p.name
+  FROM public.track_splits s
+  JOIN public.tracks t ON t.id = s.track_id
+  LEFT JOIN public.releases r ON r.id = t.release_id
+  LEFT JOIN public.profiles p ON p.id = t.artist_id
+  WHERE (s.profile_id = auth.uid() OR s.collaborator_email = lower(auth.jwt() ->> 'email'))
+    AND t.artist_id IS DISTINCT FROM auth.uid()
+  ORDER BY s.created_at DESC;
+$function$;
+
+-- Releases wait in draft until every split sheet is complete and accepted
+ALTER TABLE public.releases DROP CONSTRAINT releases_status_check;
+ALTER TABLE public.releases
+ADD CONSTRAINT releases_status_check CHECK (status IN ('draft', 'pending', 'approved', 'rejected'));
+
+DROP POLICY "Artists can create their own releases" ON public.releases;
+CREATE POLICY "Artists can create their own releases"
+ON public.releases
+FOR INSERT
+WITH CHECK (auth.uid() = artist_id AND status IN ('draft', 'pending'));
+
+DROP POLICY "Artists can update their own releases" ON public.releases;
+CREATE POLICY "Artists can update their own releases"
+ON public.releases
+FOR UPDATE
+USING (auth.uid() = artist_id)
+WITH CHECK (auth.uid() = artist_id AND status IN ('draft', 'pending'));
+
+CREATE OR REPLACE FUNCTION public.check_release_splits()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'pending') THEN
+    IF EXISTS (
+      SELECT 1
+      FROM public.tracks t
+      JOIN public.track_splits s ON s.track_id = t.id
+      WHERE t.release_id = NEW.id
+      GROUP BY t.id
+      HAVING sum(s.share) <> 100 OR bool_or(s.status <> 'accepted')
+    ) THEN
+      RAISE EXCEPTION 'All royalty splits must total 100%% and be accepted before submitting';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_release_splits_before_submit
+  BEFORE INSERT OR UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.check_release_splits();
+
+-- A sheet that stops being complete and accepted while its release awaits review sends the release back to draft, to
+-- be submitted again once every collaborator has accepted
+CREATE OR REPLACE FUNCTION public.withdraw_release_on_split_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  changed_track uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.track_id ELSE NEW.track_id END;
+BEGIN
+  UPDATE public.releases r
+  SET status = 'draft'
+  FROM public.tracks t
+  WHERE t.id = changed_track
+    AND r.id = t.release_id
+    AND r.status = 'pending'
+    AND EXISTS (
+      SELECT 1
+      FROM public.track_splits s
+      WHERE s.track_id = changed_track
+      HAVING sum(s.share) <> 100 OR bool_or(s.status <> 'accepted')
+    );
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER withdraw_release_after_split_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.track_splits
+  FOR EACH ROW EXECUTE FUNCTION public.withdraw_release_on_split_change();
+
+-- The checks above run on submission, so a draft must be submitted before it can be approved
+CREATE OR REPLACE FUNCTION public.check_release_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'approved' AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('pending', 'approved')) THEN
+    RAISE EXCEPTION 'Release "%" is not awaiting review; only submitted releases can be approved', NEW.title;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_release_approval_before_write
+  BEFORE INSERT OR UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.check_release_approval();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.track_splits;
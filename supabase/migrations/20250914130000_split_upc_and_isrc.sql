@@ -0,0 +1,91 @@
+-- Split the combined upc_irsc column into a release-level UPC/EAN and a track-level ISRC
+
+-- GS1 check digit validation for 12-digit UPC-A and 13-digit EAN-13 codes
+CREATE OR REPLACE FUNCTION public.is_valid_gtin(code text)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  total integer := 0;
+  len integer;
+  i integer;
+BEGIN
+  IF code IS NULL OR code !~ '^[0-9]{12,13}$' THEN
+    RETURN false;
+  END IF;
+
+  len := length(code);
+  FOR i IN 1 .. len - 1 LOOP
+    -- Weights alternate 3, 1, ... starting next to the check digit
+    total := total + substr(code, len - i, 1)::integer * CASE WHEN i % 2 = 1 THEN 3 ELSE 1 END;
+  END LOOP;
+
+  RETURN (10 - total % 10) % 10 = substr(code, len, 1)::integer;
+END;
+$function$;
+
+ALTER TABLE public.releases
+ADD COLUMN upc TEXT CHECK (upc IS NULL OR public.is_valid_gtin(upc));
+
+ALTER TABLE public.tracks
+ADD COLUMN isrc TEXT CHECK (isrc ~ '^[A-Z]{2}[A-Z0-9]{3}[0-9]{7}$');
+
+-- UPC-A and EAN-13 forms of the same code are one product
+CREATE UNIQUE INDEX releases_upc_key ON public.releases (lpad(upc, 13, '0')) WHERE upc IS NOT NULL;
+CREATE UNIQUE INDEX tracks_isrc_key ON public.tracks (isrc) WHERE isrc IS NOT NULL;
+
+-- Move existing values by pattern; the first occurrence of a code wins
+WITH normalized AS (
+  SELECT
+    t.id,
+    t.release_id,
+    upper(regexp_replace(t.upc_irsc, '[^A-Za-z0-9]', '', 'g')) AS code,
+    COALESCE(t.created_at, t.upload_date) AS created_at
+  FROM public.tracks t
+  WHERE t.upc_irsc IS NOT NULL AND trim(t.upc_irsc) <> ''
+),
+isrcs AS (
+  SELECT id, code, row_number() OVER (PARTITION BY code ORDER BY created_at, id) AS occurrence
+  FROM normalized
+  WHERE code ~ '^[A-Z]{2}[A-Z0-9]{3}[0-9]{7}$'
+)
+UPDATE public.tracks t
+SET isrc = isrcs.code
+FROM isrcs
+WHERE isrcs.id = t.id AND isrcs.occurrence = 1;
+
+WITH normalized AS (
+  SELECT
+    t.release_id,
+    upper(regexp_replace(t.upc_irsc, '[^A-Za-z0-9]', '', 'g')) AS code,
+    COALESCE(t.created_at, t.upload_date) AS created_at
+  FROM public.tracks t
+  WHERE t.upc_irsc IS NOT NULL AND t.release_id IS NOT NULL
+),
+upcs AS (
+  SELECT
+    release_id,
+    code,
+    row_number() OVER (PARTITION BY lpad(code, 13, '0') ORDER BY created_at) AS occurrence,
+    row_number() OVER (PARTITION BY release_id ORDER BY created_at) AS per_release
+  FROM normalized
+  WHERE public.is_valid_gtin(code)
+)
+UPDATE public.releases r
+SET upc = upcs.code
+FROM upcs
+WHERE upcs.release_id = r.id AND upcs.occurrence = 1 AND upcs.per_release = 1;
+
+-- Anything that could not be migrated stays visible for manual clean-up
+ALTER TABLE public.tracks RENAME COLUMN upc_irsc TO legacy_identifier;
+
+UPDATE public.tracks t
+SET legacy_identifier = NULL
+WHERE t.isrc IS NOT NULL
+   OR EXISTS (
+     SELECT 1 FROM public.releases r
+     WHERE r.id = t.release_id
+       AND r.upc = upper(regexp_replace(t.legacy_identifier, '[^A-Za-z0-9]', '', 'g'))
+   );
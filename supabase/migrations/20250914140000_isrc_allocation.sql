@@ -0,0 +1,117 @@
+-- ISRC registrant settings and a sequential, concurrency-safe allocator
+
+-- Single-row settings table holding the label's registrant prefix
+CREATE TABLE public.isrc_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  country_code TEXT NOT NULL CHECK (country_code ~ '^[A-Z]{2}$'),
+  registrant_code TEXT NOT NULL CHECK (registrant_code ~ '^[A-Z0-9]{3}$'),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.isrc_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage ISRC settings"
+ON public.isrc_settings
+FOR ALL
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
+
+-- Last designation code handed out per prefix and year; only touched by the allocator
+CREATE TABLE public.isrc_counters (
+  prefix TEXT NOT NULL,
+  year_code TEXT NOT NULL CHECK (year_code ~ '^[0-9]{2}$'),
+  last_designation INTEGER NOT NULL CHECK (last_designation BETWEEN 1 AND 99999),
+  PRIMARY KEY (prefix, year_code)
+);
+
+ALTER TABLE public.isrc_counters ENABLE ROW LEVEL SECURITY;
+
+-- Permanent record of every code the allocator issued
+CREATE TABLE public.issued_isrcs (
+  isrc TEXT PRIMARY KEY CHECK (isrc ~ '^[A-Z]{2}[A-Z0-9]{3}[0-9]{7}$'),
+  track_id UUID REFERENCES public.tracks(id) ON DELETE SET NULL,
+  issued_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.issued_isrcs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view issued ISRCs"
+ON public.issued_isrcs
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+-- The counter row lock serialises concurrent approvals, so no two tracks get the same code
+CREATE OR REPLACE FUNCTION public.assign_isrc(p_track_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  existing text;
+  settings public.isrc_settings%ROWTYPE;
+  code_prefix text;
+  year_code text := to_char(now(), 'YY');
+  designation integer;
+  candidate text;
+BEGIN
+  SELECT isrc INTO existing FROM public.tracks WHERE id = p_track_id FOR UPDATE;
+  IF existing IS NOT NULL THEN
+    RETURN existing;
+  END IF;
+
+  SELECT * INTO settings FROM public.isrc_settings WHERE id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Set the ISRC registrant code before approving tracks without an ISRC';
+  END IF;
+  code_prefix := settings.country_code || settings.registrant_code;
+
+  LOOP
+    INSERT INTO public.isrc_counters AS c (prefix, year_code, last_designation)
+    VALUES (code_prefix, year_code, 1)
+    ON CONFLICT (prefix, year_code)
+    DO UPDATE SET last_designation = c.last_designation + 1
+    RETURNING last_designation INTO designation;
+
+    candidate := code_prefix || year_code || lpad(designation::text, 5, '0');
+    -- Skip codes that were entered by hand on another track
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.tracks WHERE isrc = candidate);
+  END LOOP;
+
+  UPDATE public.tracks SET isrc = candidate WHERE id = p_track_id;
+  INSERT INTO public.issued_isrcs (isrc, track_id, issued_by) VALUES (candidate, p_track_id, auth.uid());
+
+  RETURN candidate;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.assign_isrc(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Approving a release issues codes for its tracks in tracklist order
+CREATE OR REPLACE FUNCTION public.assign_isrcs_on_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  track record;
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    FOR track IN
+      SELECT id FROM public.tracks
+      WHERE release_id = NEW.id AND isrc IS NULL
+      ORDER BY disc_number, track_number
+    LOOP
+      PERFORM public.assign_isrc(track.id);
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER on_release_approved_assign_isrcs
+  AFTER UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.assign_isrcs_on_approval();
@@ -0,0 +1,155 @@
+-- Admin-maintained genre / subgenre catalog replacing the free-text tracks.genre column
+CREATE OR REPLACE FUNCTION public.genre_slug(name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $function$
+  SELECT lower(regexp_replace(coalesce(name, ''), '[^a-zA-Z0-9]+', '', 'g'));
+$function$;
+
+CREATE TABLE public.genres (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  parent_id UUID REFERENCES public.genres(id) ON DELETE CASCADE,
+  -- Extra spellings (as slugs) that map onto this genre when importing free text
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE UNIQUE INDEX genres_parent_slug_key
+ON public.genres (COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), public.genre_slug(name));
+
+ALTER TABLE public.genres ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view genres"
+ON public.genres
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage genres"
+ON public.genres
+FOR ALL
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
+
+-- Subgenres only go one level deep
+CREATE OR REPLACE FUNCTION public.check_genre_depth()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.parent_id IS NOT NULL
+     AND EXISTS (SELECT 1 FROM public.genres WHERE id = NEW.parent_id AND parent_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Subgenres cannot have their own subgenres';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_genre_depth_before_write
+  BEFORE INSERT OR UPDATE ON public.genres
+  FOR EACH ROW EXECUTE FUNCTION public.check_genre_depth();
+
+-- Seed catalog
+WITH top_level (name, aliases) AS (
+  VALUES
+    ('Alternative', '{alt}'::text[]),
+    ('Blues', '{}'),
+    ('Bollywood', '{filmi,hindifilm}'),
+    ('Children''s Music', '{kids,children}'),
+    ('Classical', '{}'),
+    ('Country', '{}'),
+    ('Dance', '{edm}'),
+    ('Devotional', '{bhajan,spiritual,religious}'),
+    ('Electronic', '{electronica}'),
+    ('Folk', '{}'),
+    ('Hip-Hop/Rap', '{hiphop,rap,hiphoprap,hip}'),
+    ('Indian Classical', '{hindustani,carnatic}'),
+    ('Indie', '{independent}'),
+    ('Jazz', '{}'),
+    ('Latin', '{}'),
+    ('Lo-Fi', '{lofi}'),
+    ('Metal', '{heavymetal}'),
+    ('Pop', '{}'),
+    ('Punjabi', '{bhangra}'),
+    ('R&B/Soul', '{rnb,randb,soul,rbsoul}'),
+    ('Reggae', '{}'),
+    ('Rock', '{}'),
+    ('Singer/Songwriter', '{singersongwriter,acoustic}'),
+    ('Soundtrack', '{ost,score}'),
+    ('World', '{worldmusic}')
+)
+INSERT INTO public.genres (name, aliases)
+SELECT name, aliases FROM top_level;
+
+WITH sub (parent, name, aliases) AS (
+  VALUES
+    ('Hip-Hop/Rap', 'Trap', '{}'::text[]),
+    ('Hip-Hop/Rap', 'Drill', '{}'),
+    ('Hip-Hop/Rap', 'Boom Bap', '{}'),
+    ('Hip-Hop/Rap', 'Desi Hip-Hop', '{desihiphop,desirap}'),
+    ('Electronic', 'House', '{}'),
+    ('Electronic', 'Techno', '{}'),
+    ('Electronic', 'Drum & Bass', '{dnb,drumandbass,drumnbass}'),
+    ('Electronic', 'Dubstep', '{}'),
+    ('Electronic', 'Ambient', '{}'),
+    ('Pop', 'Dance Pop', '{}'),
+    ('Pop', 'Synth-Pop', '{synthpop}'),
+    ('Pop', 'K-Pop', '{kpop}'),
+    ('Rock', 'Indie Rock', '{}'),
+    ('Rock', 'Hard Rock', '{}'),
+    ('Rock', 'Punk', '{punkrock}'),
+    ('R&B/Soul', 'Neo-Soul', '{neosoul}'),
+    ('Devotional', 'Bhajan', '{}'),
+    ('Devotional', 'Qawwali', '{}'),
+    ('Indian Classical', 'Hindustani', '{}'),
+    ('Indian Classical', 'Carnatic', '{}')
+)
+INSERT INTO public.genres (name, parent_id, aliases)
+SELECT sub.name, g.id, sub.aliases
+FROM sub
+JOIN public.genres g ON g.name = sub.parent AND g.parent_id IS NULL;
+
+-- Free-text genres nobody anticipated become top-level genres so no data is lost
+WITH spellings AS (
+  SELECT public.genre_slug(genre) AS slug, trim(genre) AS spelling, count(*) AS uses
+  FROM public.tracks
+  WHERE public.genre_slug(genre) <> ''
+  GROUP BY 1, 2
+),
+unmatched AS (
+  SELECT DISTINCT ON (s.slug) s.slug, s.spelling
+  FROM spellings s
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.genres g
+    WHERE public.genre_slug(g.name) = s.slug OR s.slug = ANY (g.aliases)
+  )
+  ORDER BY s.slug, s.uses DESC, s.spelling
+)
+INSERT INTO public.genres (name)
+SELECT initcap(spelling) FROM unmatched;
+
+ALTER TABLE public.tracks
+ADD COLUMN primary_genre_id UUID REFERENCES public.genres(id) ON DELETE RESTRICT,
+ADD COLUMN secondary_genre_id UUID REFERENCES public.genres(id) ON DELETE SET NULL,
+ADD CONSTRAINT tracks_distinct_genres CHECK (secondary_genre_id IS NULL OR secondary_genre_id <> primary_genre_id);
+
+-- Map each track onto the catalog, preferring subgenres and exact names over aliases
+UPDATE public.tracks t
+SET primary_genre_id = (
+  SELECT g.id
+  FROM public.genres g
+  WHERE public.genre_slug(g.name) = public.genre_slug(t.genre)
+     OR public.genre_slug(t.genre) = ANY (g.aliases)
+  ORDER BY (public.genre_slug(g.name) = public.genre_slug(t.genre)) DESC, (g.parent_id IS NOT NULL) DESC
+  LIMIT 1
+)
+WHERE public.genre_slug(t.genre) <> '';
+
+CREATE INDEX tracks_primary_genre_id_idx ON public.tracks (primary_genre_id);
+CREATE INDEX tracks_secondary_genre_id_idx ON public.tracks (secondary_genre_id);
+
+ALTER TABLE public.tracks DROP COLUMN genre;
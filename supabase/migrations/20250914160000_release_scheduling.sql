@@ -0,0 +1,42 @@
+-- Requested street date, optional pre-order date and go-live timing per release
+ALTER TABLE public.releases
+ADD COLUMN release_date DATE,
+ADD COLUMN preorder_date DATE,
+-- 'local_midnight' rolls out at 00:00 in each store territory; 'worldwide' goes live everywhere at once
+ADD COLUMN release_timing TEXT NOT NULL DEFAULT 'local_midnight' CHECK (release_timing IN ('local_midnight', 'worldwide')),
+-- IANA time zone whose midnight is the worldwide go-live instant
+ADD COLUMN release_timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE,
+ADD CONSTRAINT releases_preorder_before_release CHECK (preorder_date IS NULL OR preorder_date < release_date);
+
+CREATE INDEX releases_release_date_idx ON public.releases (release_date);
+
+-- Submission needs a release date at least 14 days out; approval needs one that has not passed
+CREATE OR REPLACE FUNCTION public.check_release_schedule()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'pending') THEN
+    IF NEW.release_date IS NULL THEN
+      RAISE EXCEPTION 'Choose a release date before submitting';
+    END IF;
+    IF NEW.release_date < current_date + 14 THEN
+      RAISE EXCEPTION 'Release date must be at least 14 days after submission (% or later)', current_date + 14;
+    END IF;
+    NEW.submitted_at := now();
+  END IF;
+
+  IF NEW.status = 'approved' AND TG_OP = 'UPDATE' AND OLD.status IS DISTINCT FROM 'approved'
+     AND NEW.release_date < current_date THEN
+    RAISE EXCEPTION 'Release date % has already passed; ask the artist to reschedule', NEW.release_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_release_schedule_before_write
+  BEFORE INSERT OR UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.check_release_schedule();
@@ -0,0 +1,11 @@
+-- Store-required metadata per track: parental advisory, audio language, (C)/(P) lines, label and lyrics
+ALTER TABLE public.tracks
+ADD COLUMN parental_advisory TEXT NOT NULL DEFAULT 'not_explicit'
+  CHECK (parental_advisory IN ('not_explicit', 'explicit', 'clean')),
+-- ISO 639 code of the sung/spoken language; 'zxx' for instrumentals
+ADD COLUMN language_code TEXT CHECK (language_code ~ '^[a-z]{2,3}$'),
+-- Stored as "<year> <owner>" without the (C)/(P) symbol
+ADD COLUMN copyright_line TEXT CHECK (copyright_line ~ '^[0-9]{4} \S'),
+ADD COLUMN phonographic_line TEXT CHECK (phonographic_line ~ '^[0-9]{4} \S'),
+ADD COLUMN label_name TEXT CHECK (length(trim(label_name)) > 0),
+ADD COLUMN lyrics TEXT;
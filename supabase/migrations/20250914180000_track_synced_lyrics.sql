@@ -0,0 +1,3 @@
+-- Time-synced lyrics in LRC format; timestamps are validated against the audio in the release form
+ALTER TABLE public.tracks
+ADD COLUMN synced_lyrics TEXT CHECK (synced_lyrics ~ '^\s*\[');
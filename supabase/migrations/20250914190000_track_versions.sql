@@ -0,0 +1,44 @@
+-- Remixes, edits and other versions point at the original recording they derive from
+ALTER TABLE public.tracks
+ADD COLUMN parent_track_id UUID REFERENCES public.tracks(id) ON DELETE SET NULL,
+ADD COLUMN version_type TEXT CHECK (version_type IN (
+  'remix', 'radio_edit', 'extended', 'instrumental', 'acapella', 'acoustic', 'live', 'sped_up', 'slowed', 'remaster'
+)),
+-- Free-text version title shown in stores, e.g. "DJ Snake Remix"
+ADD COLUMN version_title TEXT,
+ADD CONSTRAINT tracks_version_not_self CHECK (parent_track_id IS DISTINCT FROM id),
+ADD CONSTRAINT tracks_version_has_type CHECK ((parent_track_id IS NULL) = (version_type IS NULL));
+
+CREATE INDEX tracks_parent_track_id_idx ON public.tracks (parent_track_id);
+
+-- Versions hang off an original by the same artist, never off another version
+CREATE OR REPLACE FUNCTION public.check_track_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  parent public.tracks%ROWTYPE;
+BEGIN
+  IF NEW.parent_track_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.tracks WHERE id = NEW.parent_track_id;
+  IF parent.artist_id IS DISTINCT FROM NEW.artist_id THEN
+    RAISE EXCEPTION 'A version must belong to the same artist as its original track';
+  END IF;
+  IF parent.parent_track_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Create versions from the original track, not from another version';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.tracks WHERE parent_track_id = NEW.id) THEN
+    RAISE EXCEPTION 'A track that has its own versions cannot become a version';
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_track_version_before_write
+  BEFORE INSERT OR UPDATE OF parent_track_id ON public.tracks
+  FOR EACH ROW EXECUTE FUNCTION public.check_track_version();
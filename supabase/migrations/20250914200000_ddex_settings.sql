@@ -0,0 +1,18 @@
+-- Sender and recipient parties written into exported DDEX ERN messages
+CREATE TABLE public.ddex_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  sender_dpid TEXT NOT NULL CHECK (sender_dpid ~ '^PADPIDA[0-9A-Z]{11}$'),
+  sender_name TEXT NOT NULL CHECK (length(trim(sender_name)) > 0),
+  recipient_dpid TEXT NOT NULL CHECK (recipient_dpid ~ '^PADPIDA[0-9A-Z]{11}$'),
+  recipient_name TEXT NOT NULL CHECK (length(trim(recipient_name)) > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL
+);
+
+ALTER TABLE public.ddex_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage DDEX settings"
+ON public.ddex_settings
+FOR ALL
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
@@ -0,0 +1,185 @@
+-- Stores (DSPs) a release can be delivered to
+CREATE TABLE public.stores (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- DDEX party id of the store, used as the message recipient when delivering
+  dpid TEXT CHECK (dpid ~ '^PADPIDA[0-9A-Z]{11}$'),
+  -- Inactive stores stay on existing releases but can no longer be chosen
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX stores_name_key ON public.stores (lower(name));
+
+ALTER TABLE public.stores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view stores"
+ON public.stores
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage stores"
+ON public.stores
+FOR ALL
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
+
+INSERT INTO public.stores (name)
+VALUES
+  ('Spotify'),
+  ('Apple Music'),
+  ('YouTube Music'),
+  ('Amazon Music'),
+  ('Deezer'),
+  ('TIDAL'),
+  ('JioSaavn'),
+  ('Gaana'),
+  ('Wynk Music'),
+  ('TikTok'),
+  ('Instagram & Facebook');
+
+-- Stores chosen for each release and where delivery to each one stands
+CREATE TABLE public.release_stores (
+  release_id UUID NOT NULL REFERENCES public.releases(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  -- NULL until the release is approved and queued for delivery
+  status TEXT CHECK (status IN ('queued', 'delivered', 'ingested', 'live', 'error')),
+  status_message TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (release_id, store_id)
+);
+
+CREATE INDEX release_stores_store_id_idx ON public.release_stores (store_id);
+
+ALTER TABLE public.release_stores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Artists can view stores on their own releases"
+ON public.release_stores
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.releases r WHERE r.id = release_id AND r.artist_id = auth.uid()));
+
+CREATE POLICY "Artists can choose stores while their release is in review"
+ON public.release_stores
+FOR INSERT
+WITH CHECK (
+  status IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.releases r
+    WHERE r.id = release_id AND r.artist_id = auth.uid() AND r.status IN ('draft', 'pending')
+  )
+);
+
+CREATE POLICY "Artists can drop stores while their release is in review"
+ON public.release_stores
+FOR DELETE
+USING (EXISTS (
+  SELECT 1 FROM public.releases r
+  WHERE r.id = release_id AND r.artist_id = auth.uid() AND r.status IN ('draft', 'pending')
+));
+
+CREATE POLICY "Admins can manage release stores"
+ON public.release_stores
+FOR ALL
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
+
+-- Append-only log of every delivery state change; release_stores holds the latest one
+CREATE TABLE public.delivery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  release_id UUID NOT NULL,
+  store_id UUID NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'delivered', 'ingested', 'live', 'error')),
+  message TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  FOREIGN KEY (release_id, store_id) REFERENCES public.release_stores(release_id, store_id) ON DELETE CASCADE,
+  CHECK (status <> 'error' OR length(trim(message)) > 0)
+);
+
+CREATE INDEX delivery_events_release_id_idx ON public.delivery_events (release_id, created_at);
+
+ALTER TABLE public.delivery_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Artists can view delivery events on their own releases"
+ON public.delivery_events
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.releases r WHERE r.id = release_id AND r.artist_id = auth.uid()));
+
+CREATE POLICY "Admins can view all delivery events"
+ON public.delivery_events
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+CREATE POLICY "Admins can log delivery events"
+ON public.delivery_events
+FOR INSERT
+WITH CHECK (get_current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION public.apply_delivery_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.release_stores
+  SET status = NEW.status, status_message = NEW.message, updated_at = NEW.created_at
+  WHERE release_id = NEW.release_id AND store_id = NEW.store_id;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_delivery_event_after_insert
+  AFTER INSERT ON public.delivery_events
+  FOR EACH ROW EXECUTE FUNCTION public.apply_delivery_event();
+
+-- Approval queues the release for every chosen store that has not been queued yet
+CREATE OR REPLACE FUNCTION public.queue_release_deliveries()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    INSERT INTO public.delivery_events (release_id, store_id, status)
+    SELECT release_id, store_id, 'queued'
+    FROM public.release_stores
+    WHERE release_id = NEW.id AND status IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER queue_release_deliveries_after_approval
+  AFTER UPDATE OF status ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.queue_release_deliveries();
+
+-- Stores added to a release that is already approved are queued straight away
+CREATE OR REPLACE FUNCTION public.queue_added_store()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status IS NULL AND EXISTS (SELECT 1 FROM public.releases WHERE id = NEW.release_id AND status = 'approved') THEN
+    INSERT INTO public.delivery_events (release_id, store_id, status)
+    VALUES (NEW.release_id, NEW.store_id, 'queued');
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER queue_added_store_after_insert
+  AFTER INSERT ON public.release_stores
+  FOR EACH ROW EXECUTE FUNCTION public.queue_added_store();
+
+-- Existing releases go to every store; approved ones are queued
+INSERT INTO public.release_stores (release_id, store_id)
+SELECT r.id, s.id
+FROM public.releases r
+CROSS JOIN public.stores s;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.release_stores;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.delivery_events;
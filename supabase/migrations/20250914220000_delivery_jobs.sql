@@ -0,0 +1,183 @@
+-- Where the delivery worker sends bundles for each store
+CREATE TABLE public.delivery_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID NOT NULL UNIQUE REFERENCES public.stores(id) ON DELETE CASCADE,
+  protocol TEXT NOT NULL CHECK (protocol IN ('sftp', 's3')),
+  -- SFTP host, or S3 endpoint URL for S3-compatible services (blank for AWS)
+  host TEXT,
+  port INTEGER CHECK (port BETWEEN 1 AND 65535),
+  -- SFTP user name, or S3 access key id
+  username TEXT,
+  bucket TEXT,
+  region TEXT,
+  -- Directory (SFTP) or key prefix (S3) bundles are written under
+  path_prefix TEXT NOT NULL DEFAULT '',
+  -- Worker environment variable holding the password, private key or S3 secret; secrets never live in the database
+  secret_env TEXT NOT NULL CHECK (secret_env ~ '^[A-Z][A-Z0-9_]*$'),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (protocol <> 'sftp' OR (host IS NOT NULL AND username IS NOT NULL)),
+  CHECK (protocol <> 's3' OR bucket IS NOT NULL)
+);
+
+ALTER TABLE public.delivery_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage delivery targets"
+ON public.delivery_targets
+FOR ALL
+USING (get_current_user_role() = 'admin')
+WITH CHECK (get_current_user_role() = 'admin');
+
+-- One row per attempt to push a release to a store; the worker claims pending rows in run_after order
+CREATE TABLE public.delivery_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  release_id UUID NOT NULL,
+  store_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 8 CHECK (max_attempts > 0),
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  -- Refreshed by the worker while it transfers; a job whose worker stops refreshing it is claimed again
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  -- Files already transferred with their checksums, so a retry only sends what is missing
+  progress JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  FOREIGN KEY (release_id, store_id) REFERENCES public.release_stores(release_id, store_id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX delivery_jobs_active_key
+ON public.delivery_jobs (release_id, store_id)
+WHERE status IN ('pending', 'running');
+
+CREATE INDEX delivery_jobs_queue_idx ON public.delivery_jobs (run_after) WHERE status = 'pending';
+
+ALTER TABLE public.delivery_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view delivery jobs"
+ON public.delivery_jobs
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+-- Queuing a store that has a delivery target hands the release to the worker
+CREATE OR REPLACE FUNCTION public.enqueue_delivery_job()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.delivery_targets WHERE store_id = NEW.store_id AND active) THEN
+    INSERT INTO public.delivery_jobs (release_id, store_id)
+    VALUES (NEW.release_id, NEW.store_id)
+    ON CONFLICT (release_id, store_id) WHERE status IN ('pending', 'running') DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER enqueue_delivery_job_after_queued
+  AFTER INSERT ON public.delivery_events
+  FOR EACH ROW
+  WHEN (NEW.status = 'queued')
+  EXECUTE FUNCTION public.enqueue_delivery_job();
+
+-- Hands the next due job to a worker; jobs whose worker has missed its heartbeat for 5 minutes are picked up again
+CREATE OR REPLACE FUNCTION public.claim_delivery_job(p_worker text)
+RETURNS SETOF public.delivery_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  RETURN QUERY
+  UPDATE public.delivery_jobs j
+  SET status = 'running', attempts = j.attempts + 1, locked_by = p_worker, locked_at = now(), updated_at = now()
+  WHERE j.id = (
+    SELECT id
+    FROM public.delivery_jobs
+    WHERE (status = 'pending' AND run_after <= now())
+       OR (status = 'running' AND locked_at < now() - interval '5 minutes')
+    ORDER BY run_after
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$function$;
+
+-- Called by the worker as a transfer makes progress; false means the job was claimed by another worker and this one
+-- must stop
+CREATE OR REPLACE FUNCTION public.heartbeat_delivery_job(p_job_id uuid, p_worker text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  UPDATE public.delivery_jobs
+  SET locked_at = now()
+  WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker;
+  RETURN FOUND;
+END;
+$function$;
+
+-- Records the outcome of an attempt. Failures back off exponentially (30s, 1m, 2m … capped at 6h) until
+-- max_attempts is reached, or immediately when the error is permanent; the store's delivery log is updated either way.
+-- Returns NULL without recording anything when the job is no longer locked by p_worker, i.e. it was claimed again.
+CREATE OR REPLACE FUNCTION public.finish_delivery_job(p_job_id uuid, p_worker text, p_error text DEFAULT NULL, p_permanent boolean DEFAULT false)
+RETURNS public.delivery_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  job public.delivery_jobs;
+BEGIN
+  SELECT * INTO job FROM public.delivery_jobs WHERE id = p_job_id AND status = 'running' AND locked_by = p_worker FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_error IS NULL THEN
+    UPDATE public.delivery_jobs
+    SET status = 'completed', completed_at = now(), updated_at = now(), locked_by = NULL, locked_at = NULL, last_error = NULL
+    WHERE id = p_job_id
+    RETURNING * INTO job;
+
+    INSERT INTO public.delivery_events (release_id, store_id, status)
+    VALUES (job.release_id, job.store_id, 'delivered');
+  ELSIF p_permanent OR job.attempts >= job.max_attempts THEN
+    UPDATE public.delivery_jobs
+    SET status = 'failed', updated_at = now(), locked_by = NULL, locked_at = NULL, last_error = p_error
+    WHERE id = p_job_id
+    RETURNING * INTO job;
+
+    INSERT INTO public.delivery_events (release_id, store_id, status, message)
+    VALUES (job.release_id, job.store_id, 'error', p_error);
+  ELSE
+    UPDATE public.delivery_jobs
+    SET status = 'pending',
+        run_after = now() + least(interval '30 seconds' * power(2, job.attempts - 1), interval '6 hours'),
+        updated_at = now(), locked_by = NULL, locked_at = NULL, last_error = p_error
+    WHERE id = p_job_id
+    RETURNING * INTO job;
+  END IF;
+
+  RETURN job;
+END;
+$function$;
+
+-- Only the worker, running with the service role key, drives the queue
+REVOKE EXECUTE ON FUNCTION public.claim_delivery_job(text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_delivery_job(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_delivery_job(uuid, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_delivery_job(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.heartbeat_delivery_job(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.finish_delivery_job(uuid, text, text, boolean) TO service_role;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.delivery_jobs;
@@ -0,0 +1,10 @@
+-- Where a release may be sold: everywhere, only the listed countries, or everywhere except them (ISO 3166-1 alpha-2)
+ALTER TABLE public.releases
+ADD COLUMN territory_mode TEXT NOT NULL DEFAULT 'worldwide' CHECK (territory_mode IN ('worldwide', 'include', 'exclude')),
+ADD COLUMN territories TEXT[] NOT NULL DEFAULT '{}',
+ADD CONSTRAINT releases_territory_codes CHECK (array_to_string(territories, ',') ~ '^([A-Z]{2}(,[A-Z]{2})*)?$'),
+ADD CONSTRAINT releases_territories_match_mode CHECK ((territory_mode = 'worldwide') = (cardinality(territories) = 0));
+
+-- Covers of another writer's song are usually licensed country by country, so reviewers check their territories
+ALTER TABLE public.tracks
+ADD COLUMN is_cover BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,187 @@
+-- Every submission of a track is kept as an immutable revision so reviewers can see what changed between them
+CREATE TABLE public.track_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  track_id UUID NOT NULL REFERENCES public.tracks(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  -- The track row and its credits as submitted; status and timestamps are left out
+  snapshot JSONB NOT NULL,
+  music_file_url TEXT,
+  -- Cover art belongs to the release, recorded here as it was at the time
+  cover_art_url TEXT,
+  reason TEXT NOT NULL DEFAULT 'submitted' CHECK (reason IN ('submitted', 'restored')),
+  restored_from INTEGER,
+  created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (track_id, revision_number),
+  CHECK ((reason = 'restored') = (restored_from IS NOT NULL))
+);
+
+ALTER TABLE public.track_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the functions below, and never updated or deleted
+CREATE POLICY "Artists can view revisions of their own tracks"
+ON public.track_revisions
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.tracks t WHERE t.id = track_id AND t.artist_id = auth.uid()));
+
+CREATE POLICY "Admins can view all track revisions"
+ON public.track_revisions
+FOR SELECT
+USING (get_current_user_role() = 'admin');
+
+-- Appends a revision unless the track is unchanged since its latest one
+CREATE OR REPLACE FUNCTION public.record_track_revision(p_track_id UUID, p_reason TEXT DEFAULT 'submitted', p_restored_from INTEGER DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  current_snapshot JSONB;
+  current_music TEXT;
+  current_cover TEXT;
+  latest public.track_revisions%ROWTYPE;
+BEGIN
+  SELECT
+    to_jsonb(t) - 'status' - 'upload_date' - 'created_at' - 'music_file_url'
+      || jsonb_build_object('credits', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('name', c.name, 'role', c.role, 'is_primary', c.is_primary, 'profile_id', c.profile_id) ORDER BY c.position)
+        FROM public.track_credits c
+        WHERE c.track_id = t.id
+      ), '[]'::jsonb)),
+    t.music_file_url,
+    r.cover_art_url
+  INTO current_snapshot, current_music, current_cover
+  FROM public.tracks t
+  LEFT JOIN public.releases r ON r.id = t.release_id
+  WHERE t.id = p_track_id;
+
+  IF current_snapshot IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO latest
+  FROM public.track_revisions
+  WHERE track_id = p_track_id
+  ORDER BY revision_number DESC
+  LIMIT 1;
+
+  IF p_reason = 'submitted'
+    AND latest.snapshot = current_snapshot
+    AND latest.music_file_url IS NOT DISTINCT FROM current_music
+    AND latest.cover_art_url IS NOT DISTINCT FROM current_cover THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.track_revisions (track_id, revision_number, snapshot, music_file_url, cover_art_url, reason, restored_from)
+  VALUES (p_track_id, COALESCE(latest.revision_number, 0) + 1, current_snapshot, current_music, current_cover, p_reason, p_restored_from);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_track_revision(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.snapshot_submitted_tracks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  track_id UUID;
+BEGIN
+  IF NEW.status = 'pending' AND OLD.status IS DISTINCT FROM 'pending' THEN
+    FOR track_id IN SELECT id FROM public.tracks WHERE release_id = NEW.id LOOP
+      PERFORM public.record_track_revision(track_id);
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER snapshot_submitted_tracks_after_update
+  AFTER UPDATE OF status ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.snapshot_submitted_tracks();
+
+-- Puts a track back the way it was in an earlier revision, recorded as a new revision on top. Every column in the
+-- snapshot comes back except those listed, so columns added later need no change here.
+CREATE OR REPLACE FUNCTION public.restore_track_revision(p_revision_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  -- Identity, identifiers, tracklist position, ownership and review state stay as they are; the audio file comes from
+  -- the revision itself
+  kept_columns CONSTANT TEXT[] := ARRAY[
+    'id', 'artist_id', 'release_id', 'status', 'command', 'legacy_identifier', 'isrc', 'disc_number', 'track_number',
+    'upload_date', 'created_at', 'music_file_url'
+  ];
+  revision public.track_revisions%ROWTYPE;
+  current_track public.tracks%ROWTYPE;
+  snapshot JSONB;
+  restored_columns TEXT;
+BEGIN
+  IF get_current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only admins can restore track revisions';
+  END IF;
+
+  SELECT * INTO revision FROM public.track_revisions WHERE id = p_revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  SELECT * INTO current_track FROM public.tracks WHERE id = revision.track_id FOR UPDATE;
+  snapshot := revision.snapshot;
+
+  -- Genres may have been removed from the taxonomy since; a missing secondary genre is dropped as deleting it would
+  IF snapshot->>'primary_genre_id' IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.genres WHERE id = (snapshot->>'primary_genre_id')::uuid) THEN
+    RAISE EXCEPTION 'The genre of revision % no longer exists; choose a current genre for the track instead', revision.revision_number;
+  END IF;
+  IF snapshot->>'secondary_genre_id' IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.genres WHERE id = (snapshot->>'secondary_genre_id')::uuid) THEN
+    snapshot := jsonb_set(snapshot, '{secondary_genre_id}', 'null');
+  END IF;
+
+  SELECT string_agg(quote_ident(attname), ', ' ORDER BY attnum)
+  INTO restored_columns
+  FROM pg_attribute
+  WHERE attrelid = 'public.tracks'::regclass
+    AND attnum > 0
+    AND NOT attisdropped
+    AND attname <> ALL (kept_columns);
+
+  -- Columns the snapshot predates keep their current values
+  EXECUTE format(
+    'UPDATE public.tracks SET (%1$s, music_file_url) = (SELECT %1$s, $3 FROM jsonb_populate_record($1, $2)) WHERE id = $4',
+    restored_columns
+  ) USING current_track, snapshot, revision.music_file_url, revision.track_id;
+
+  DELETE FROM public.track_credits WHERE track_id = revision.track_id;
+  INSERT INTO public.track_credits (track_id, name, role, is_primary, profile_id, position)
+  SELECT revision.track_id, credit->>'name', credit->>'role', (credit->>'is_primary')::boolean, (credit->>'profile_id')::uuid, ordinality - 1
+  FROM jsonb_array_elements(revision.snapshot->'credits') WITH ORDINALITY AS credits(credit, ordinality);
+
+  IF revision.cover_art_url IS NOT NULL THEN
+    UPDATE public.releases
+    SET cover_art_url = revision.cover_art_url
+    WHERE id = (SELECT release_id FROM public.tracks WHERE id = revision.track_id);
+  END IF;
+
+  PERFORM public.record_track_revision(revision.track_id, 'restored', revision.revision_number);
+END;
+$function$;
+
+-- Tracks already submitted start their history from how they look today
+DO $$
+DECLARE
+  track_id UUID;
+BEGIN
+  FOR track_id IN
+    SELECT t.id FROM public.tracks t JOIN public.releases r ON r.id = t.release_id WHERE r.status <> 'draft'
+  LOOP
+    PERFORM public.record_track_revision(track_id);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Audio format of the submitted WAV, as read from its header by the validate-wav function
+ALTER TABLE public.tracks
+  ADD COLUMN sample_rate INTEGER CHECK (sample_rate IN (44100, 48000)),
+  ADD COLUMN bit_depth SMALLINT CHECK (bit_depth IN (16, 24)),
+  ADD COLUMN channel_count SMALLINT CHECK (channel_count = 2);
@@ -0,0 +1,11 @@
+-- Size of the submitted WAV in bytes; duration and format are already stored on the track
+ALTER TABLE public.tracks
+  ADD COLUMN file_size BIGINT CHECK (file_size > 0);
+
+-- Storage already knows the size of files uploaded before this column existed
+UPDATE public.tracks t
+SET file_size = (o.metadata->>'size')::BIGINT
+FROM storage.objects o
+WHERE o.bucket_id = 'music-files'
+  AND o.name = t.music_file_url
+  AND t.file_size IS NULL;
@@ -0,0 +1,5 @@
+-- EBU R128 measurements, taken in the artist's browser when the WAV is uploaded
+ALTER TABLE public.tracks
+  ADD COLUMN integrated_loudness_lufs NUMERIC(4,1),
+  ADD COLUMN loudness_range_lu NUMERIC(4,1) CHECK (loudness_range_lu >= 0),
+  ADD COLUMN true_peak_dbtp NUMERIC(4,1);
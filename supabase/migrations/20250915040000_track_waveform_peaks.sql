@@ -0,0 +1,3 @@
+-- Waveform peaks JSON stored beside the WAV in music-files, so players can draw the track without loading it
+ALTER TABLE public.tracks
+  ADD COLUMN peaks_file_url TEXT;
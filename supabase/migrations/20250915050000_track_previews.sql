@@ -0,0 +1,3 @@
+-- Compressed MP3 rendition stored beside the WAV in music-files; players stream it unless the listener asks for the original
+ALTER TABLE public.tracks
+  ADD COLUMN preview_file_url TEXT;
@@ -0,0 +1,54 @@
+-- Automated QC of each upload's samples: silence, clipping, DC offset and channel checks, measured in the browser
+ALTER TABLE public.tracks
+  ADD COLUMN qc_report JSONB,
+  ADD COLUMN qc_status TEXT CHECK (qc_status IN ('passed', 'failed'));
+
+-- The same limits as qcIssues in src/lib/audio-qc.ts; keep the two in step
+CREATE OR REPLACE FUNCTION public.qc_report_status(report jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+BEGIN
+  IF jsonb_typeof(report -> 'leadingSilence') IS DISTINCT FROM 'number'
+    OR jsonb_typeof(report -> 'trailingSilence') IS DISTINCT FROM 'number'
+    OR jsonb_typeof(report -> 'clippedRuns') IS DISTINCT FROM 'number'
+    OR jsonb_typeof(report -> 'longestClippedRun') IS DISTINCT FROM 'number'
+    OR jsonb_typeof(report -> 'dcOffset') IS DISTINCT FROM 'array'
+    OR coalesce(jsonb_typeof(report -> 'correlation'), '') NOT IN ('number', 'null')
+    OR jsonb_typeof(report -> 'identicalChannels') IS DISTINCT FROM 'boolean'
+    OR EXISTS (SELECT 1 FROM jsonb_array_elements(report -> 'dcOffset') o WHERE jsonb_typeof(o) <> 'number') THEN
+    RAISE EXCEPTION 'Malformed QC report';
+  END IF;
+
+  IF (report ->> 'leadingSilence')::numeric > 2
+    OR (report ->> 'trailingSilence')::numeric > 10
+    OR (report ->> 'clippedRuns')::numeric > 0
+    OR EXISTS (SELECT 1 FROM jsonb_array_elements_text(report -> 'dcOffset') o WHERE abs(o::numeric) > 0.005)
+    OR (report ->> 'identicalChannels')::boolean
+    OR (report ->> 'correlation')::numeric < -0.5 THEN
+    RETURN 'failed';
+  END IF;
+  RETURN 'passed';
+END;
+$function$;
+
+-- The status is always derived from the report, and a report is only taken together with a newly uploaded file, so
+-- a failed check can't be cleared on audio that is already under review
+CREATE OR REPLACE FUNCTION public.apply_track_qc()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.music_file_url IS NOT DISTINCT FROM OLD.music_file_url THEN
+    NEW.qc_report := OLD.qc_report;
+  END IF;
+  NEW.qc_status := CASE WHEN NEW.qc_report IS NULL THEN NULL ELSE public.qc_report_status(NEW.qc_report) END;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_track_qc_before_write
+  BEFORE INSERT OR UPDATE ON public.tracks
+  FOR EACH ROW EXECUTE FUNCTION public.apply_track_qc();
@@ -0,0 +1,3 @@
+-- Frequency where each upload's content stops, measured in the browser; around 16 kHz points to a lossy source
+ALTER TABLE public.tracks
+  ADD COLUMN spectral_cutoff_hz INTEGER CHECK (spectral_cutoff_hz > 0);
@@ -0,0 +1,103 @@
+-- Saves a release with its whole tracklist in one transaction, so a failed edit leaves the previous version intact.
+-- Runs as the caller, so every write goes through the same row level security as before.
+CREATE OR REPLACE FUNCTION public.save_release(
+  p_release_id UUID,
+  p_release JSONB,
+  p_store_ids UUID[],
+  p_tracks JSONB,
+  p_credits JSONB,
+  p_splits JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_release_id UUID := p_release_id;
+  v_tracks JSONB;
+  v_columns TEXT;
+  v_updates TEXT;
+  v_count INTEGER;
+BEGIN
+  -- Positions are checked at commit, once the reordered tracklist is complete
+  SET CONSTRAINTS tracks_release_position_key DEFERRED;
+
+  -- Release and track columns are taken from the JSON keys, so new columns need no change here
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_columns
+  FROM jsonb_object_keys(p_release) AS key;
+
+  IF v_release_id IS NULL THEN
+    EXECUTE format(
+      'INSERT INTO public.releases (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::public.releases, $1) RETURNING id',
+      v_columns
+    ) INTO v_release_id USING p_release;
+  ELSE
+    EXECUTE format(
+      'UPDATE public.releases SET (%1$s) = (SELECT %1$s FROM jsonb_populate_record(NULL::public.releases, $1)) WHERE id = $2',
+      v_columns
+    ) USING p_release, v_release_id;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    IF v_count = 0 THEN
+      RAISE EXCEPTION 'Release not found';
+    END IF;
+  END IF;
+
+  -- Existing rows are left alone so their delivery state survives an edit
+  DELETE FROM public.release_stores
+  WHERE release_id = v_release_id AND NOT store_id = ANY (p_store_ids);
+
+  INSERT INTO public.release_stores (release_id, store_id)
+  SELECT v_release_id, store_id FROM unnest(p_store_ids) AS store_id
+  ON CONFLICT (release_id, store_id) DO NOTHING;
+
+  SELECT jsonb_agg(track || jsonb_build_object('release_id', v_release_id))
+  INTO v_tracks
+  FROM jsonb_array_elements(p_tracks) AS track;
+
+  SELECT string_agg(quote_ident(key), ', '), string_agg(format('%1$I = EXCLUDED.%1$I', key), ', ')
+  INTO v_columns, v_updates
+  FROM jsonb_object_keys(v_tracks -> 0) AS key;
+
+  EXECUTE format(
+    'INSERT INTO public.tracks (%1$s) SELECT %1$s FROM jsonb_populate_recordset(NULL::public.tracks, $1) '
+    'ON CONFLICT (id) DO UPDATE SET %2$s',
+    v_columns, v_updates
+  ) USING v_tracks;
+
+  -- Tracks dropped from the tracklist while editing are removed from the release
+  DELETE FROM public.tracks
+  WHERE release_id = v_release_id
+    AND id NOT IN (SELECT (track ->> 'id')::UUID FROM jsonb_array_elements(v_tracks) AS track);
+
+  -- Credits are replaced wholesale for every track on the release
+  DELETE FROM public.track_credits
+  WHERE track_id IN (SELECT id FROM public.tracks WHERE release_id = v_release_id);
+
+  INSERT INTO public.track_credits (track_id, name, role, is_primary, profile_id, position)
+  SELECT track_id, name, role, is_primary, profile_id, position
+  FROM jsonb_to_recordset(p_credits)
+    AS credit(track_id UUID, name TEXT, role TEXT, is_primary BOOLEAN, profile_id UUID, position INTEGER);
+
+  -- Splits are upserted by collaborator so existing acceptances survive unchanged shares
+  DELETE FROM public.track_splits AS s
+  USING public.tracks AS t
+  WHERE t.id = s.track_id
+    AND t.release_id = v_release_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_to_recordset(p_splits) AS kept(track_id UUID, collaborator_email TEXT)
+      WHERE kept.track_id = s.track_id AND kept.collaborator_email = s.collaborator_email
+    );
+
+  INSERT INTO public.track_splits (track_id, collaborator_name, collaborator_email, share)
+  SELECT track_id, collaborator_name, collaborator_email, share
+  FROM jsonb_to_recordset(p_splits)
+    AS split(track_id UUID, collaborator_name TEXT, collaborator_email TEXT, share NUMERIC)
+  ON CONFLICT (track_id, collaborator_email)
+  DO UPDATE SET collaborator_name = EXCLUDED.collaborator_name, share = EXCLUDED.share;
+
+  RETURN v_release_id;
+END;
+$function$;
@@ -0,0 +1,17 @@
+-- Approved releases are delivered, and a DDEX message cannot be built without the release's UPC/EAN
+CREATE OR REPLACE FUNCTION public.check_release_upc()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' AND NEW.upc IS NULL THEN
+    RAISE EXCEPTION 'Release "%" has no UPC/EAN; ask the artist to add one before approving', NEW.title;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_release_upc_before_approval
+  BEFORE UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.check_release_upc();
@@ -0,0 +1,40 @@
+-- Retried uploads replace the object an interrupted attempt left behind: bulk import writes into folders named after
+-- the reserved release and track ids, and waveform peaks and previews live beside their WAV. Files a track revision
+-- points at are never replaced, so a revision always plays and shows what was submitted.
+CREATE OR REPLACE FUNCTION public.is_revision_file(p_bucket text, p_path text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.track_revisions r
+    WHERE CASE p_bucket
+      WHEN 'music-files' THEN p_path IN (r.music_file_url, r.snapshot->>'peaks_file_url', r.snapshot->>'preview_file_url')
+      WHEN 'cover-art' THEN p_path = r.cover_art_url
+      ELSE false
+    END
+  );
+$function$;
+
+CREATE POLICY "Artists can replace their own music files"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'music-files'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_revision_file(bucket_id, name)
+)
+WITH CHECK (bucket_id = 'music-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Artists can replace their own cover art"
+ON storage.objects
+FOR UPDATE
+USING (
+  bucket_id = 'cover-art'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND NOT public.is_revision_file(bucket_id, name)
+)
+WITH CHECK (bucket_id = 'cover-art' AND auth.uid()::text = (storage.foldername(name))[1]);
@@ -0,0 +1,112 @@
+-- WAV headers read by the validate-wav function, keyed by storage path. Only the function writes here, so a track's
+-- format can no longer be claimed by the browser.
+CREATE TABLE public.wav_validations (
+  path TEXT PRIMARY KEY,
+  sample_rate INTEGER NOT NULL,
+  bit_depth SMALLINT NOT NULL,
+  channel_count SMALLINT NOT NULL,
+  validated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.wav_validations ENABLE ROW LEVEL SECURITY;
+
+-- Set by the database from wav_validations on every write, whatever the browser sends
+ALTER TABLE public.tracks
+  ADD COLUMN wav_validated BOOLEAN NOT NULL DEFAULT false;
+
+-- Called by validate-wav with the service role once a file passes; the timestamp comes from the database so it can be
+-- compared with the storage object's
+CREATE OR REPLACE FUNCTION public.record_wav_validation(p_path text, p_sample_rate integer, p_bit_depth smallint, p_channel_count smallint)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  INSERT INTO public.wav_validations (path, sample_rate, bit_depth, channel_count)
+  VALUES (p_path, p_sample_rate, p_bit_depth, p_channel_count)
+  ON CONFLICT (path) DO UPDATE
+  SET sample_rate = EXCLUDED.sample_rate,
+      bit_depth = EXCLUDED.bit_depth,
+      channel_count = EXCLUDED.channel_count,
+      validated_at = now();
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.record_wav_validation(text, integer, smallint, smallint) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_wav_validation(text, integer, smallint, smallint) TO service_role;
+
+-- The server's reading of a stored WAV, or NULL when it was never checked or has been replaced since
+CREATE OR REPLACE FUNCTION public.validated_wav(p_path text)
+RETURNS public.wav_validations
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT v.*
+  FROM public.wav_validations v
+  JOIN storage.objects o ON o.bucket_id = 'music-files' AND o.name = v.path
+  WHERE v.path = p_path AND o.updated_at <= v.validated_at;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.validated_wav(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.apply_wav_validation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  validation public.wav_validations := public.validated_wav(NEW.music_file_url);
+BEGIN
+  NEW.wav_validated := validation.path IS NOT NULL;
+  IF NEW.wav_validated THEN
+    NEW.sample_rate := validation.sample_rate;
+    NEW.bit_depth := validation.bit_depth;
+    NEW.channel_count := validation.channel_count;
+  -- Tracks uploaded before the check existed keep the format they were saved with
+  ELSIF TG_OP = 'UPDATE' AND NEW.music_file_url IS NOT DISTINCT FROM OLD.music_file_url THEN
+    NEW.sample_rate := OLD.sample_rate;
+    NEW.bit_depth := OLD.bit_depth;
+    NEW.channel_count := OLD.channel_count;
+  ELSE
+    NEW.sample_rate := NULL;
+    NEW.bit_depth := NULL;
+    NEW.channel_count := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER apply_wav_validation_before_write
+  BEFORE INSERT OR UPDATE ON public.tracks
+  FOR EACH ROW EXECUTE FUNCTION public.apply_wav_validation();
+
+-- Submission is checked against storage again, so a file swapped after its track was saved is caught too
+CREATE OR REPLACE FUNCTION public.check_release_wavs()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  unchecked TEXT;
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'pending') THEN
+    SELECT t.title INTO unchecked
+    FROM public.tracks t
+    WHERE t.release_id = NEW.id AND (public.validated_wav(t.music_file_url)).path IS NULL
+    ORDER BY t.disc_number, t.track_number
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'The audio of "%" has not passed the server''s WAV check; upload it again before submitting', unchecked;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER check_release_wavs_before_submit
+  BEFORE INSERT OR UPDATE ON public.releases
+  FOR EACH ROW EXECUTE FUNCTION public.check_release_wavs();
@@ -0,0 +1,105 @@
+/**
+ * Builds the ERN message for a fixture release and validates it against the official schema; exits non-zero when the
+ * builder writes something the schema rejects. Run it in CI with `npm run check:schema` after `npm run fetch-schema`.
+ */
+import { buildNewReleaseMessage, preflightNewReleaseMessage, serializeXml, type DdexRelease, type DdexTrack } from "@/lib/ddex";
+import { validateAgainstErnSchema } from "./ern-schema";
+
+const RELEASE_ID = "00000000-0000-4000-8000-000000000001";
+const ARTIST_ID = "00000000-0000-4000-8000-000000000002";
+const GENRE_ID = "00000000-0000-4000-8000-000000000003";
+const SUBGENRE_ID = "00000000-0000-4000-8000-000000000004";
+const CREATED_AT = "2025-09-01T10:00:00Z";
+
+const fixtureTrack = (position: number, overrides: Partial<DdexTrack>): DdexTrack => ({
+  id: `00000000-0000-4000-8000-00000000010${position}`,
+  release_id: RELEASE_ID,
+  artist_id: ARTIST_ID,
+  title: `Fixture Track ${position}`,
+  version_title: null,
+  version_type: null,
+  parent_track_id: null,
+  is_cover: false,
+  track_number: position,
+  disc_number: 1,
+  duration: 201,
+  isrc: `QZAAA250000${position}`,
+  legacy_identifier: null,
+  primary_genre_id: SUBGENRE_ID,
+  secondary_genre_id: null,
+  language_code: "en",
+  parental_advisory: "not_explicit",
+  label_name: "Fixture Records",
+  copyright_line: "2025 Fixture Records",
+  phonographic_line: "2025 Fixture Records",
+  lyrics: null,
+  synced_lyrics: null,
+  command: null,
+  status: "approved",
+  music_file_url: `${ARTIST_ID}/track-${position}.wav`,
+  peaks_file_url: null,
+  preview_file_url: null,
+  sample_rate: 44100,
+  bit_depth: 16,
+  channel_count: 2,
+  file_size: 35_458_244,
+  integrated_loudness_lufs: -14,
+  loudness_range_lu: 6,
+  true_peak_dbtp: -1,
+  qc_report: null,
+  qc_status: "passed",
+  spectral_cutoff_hz: 22050,
+  wav_validated: true,
+  upload_date: CREATED_AT,
+  created_at: CREATED_AT,
+  track_credits: [
+    { id: `00000000-0000-4000-8000-00000000020${position}`, track_id: `00000000-0000-4000-8000-00000000010${position}`, name: "Fixture Artist", role: "artist", is_primary: true, profile_id: ARTIST_ID, position: 0, created_at: CREATED_AT },
+    { id: `00000000-0000-4000-8000-00000000030${position}`, track_id: `00000000-0000-4000-8000-00000000010${position}`, name: "Fixture Writer", role: "composer_lyricist", is_primary: false, profile_id: null, position: 1, created_at: CREATED_AT },
+  ],
+  ...overrides,
+});
+
+const release: DdexRelease = {
+  id: RELEASE_ID,
+  artist_id: ARTIST_ID,
+  title: "Fixture EP",
+  release_type: "ep",
+  upc: "012345678905",
+  cover_art_url: `${ARTIST_ID}/cover.jpg`,
+  status: "approved",
+  release_date: "2025-10-01",
+  release_timezone: "Europe/London",
+  release_timing: "local_midnight",
+  preorder_date: null,
+  submitted_at: CREATED_AT,
+  territory_mode: "worldwide",
+  territories: [],
+  created_at: CREATED_AT,
+  updated_at: CREATED_AT,
+  tracks: [
+    fixtureTrack(1, {}),
+    fixtureTrack(2, {
+      parent_track_id: "00000000-0000-4000-8000-000000000101",
+      version_type: "remix",
+      version_title: "Fixture Remix",
+      parental_advisory: "explicit",
+    }),
+  ],
+};
+
+const message = buildNewReleaseMessage(release, {
+  sender: { dpid: "PADPIDA2025000000A", name: "Spillrix" },
+  recipient: { dpid: "PADPIDA2025000000B", name: "Fixture Store" },
+  genres: [
+    { id: GENRE_ID, name: "Electronic", parent_id: null, aliases: [], created_at: CREATED_AT },
+    { id: SUBGENRE_ID, name: "House", parent_id: GENRE_ID, aliases: [], created_at: CREATED_AT },
+  ],
+  createdAt: new Date(CREATED_AT),
+});
+
+const problems = [...preflightNewReleaseMessage(message), ...(await validateAgainstErnSchema(serializeXml(message)))];
+if (problems.length > 0) {
+  console.error(`The fixture ERN message does not validate:\n${problems.map((problem) => `  ${problem}`).join("\n")}`);
+  process.exit(1);
+}
+console.log("The fixture ERN message validates against the ERN 4.3 schema");
@@ -0,0 +1,15 @@
+import { hostname } from "node:os";
+
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} must be set`);
+  return value;
+}
+
+export const config = {
+  supabaseUrl: required("SUPABASE_URL"),
+  // The queue RPCs are only executable with the service role
+  serviceRoleKey: required("SUPABASE_SERVICE_ROLE_KEY"),
+  workerId: process.env.WORKER_ID || `${hostname()}-${process.pid}`,
+  pollIntervalMs: Number(process.env.POLL_INTERVAL_MS || 15_000),
+};
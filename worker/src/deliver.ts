@@ -0,0 +1,211 @@
+import { createHash } from "node:crypto";
+import { posix } from "node:path";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { buildNewReleaseMessage, preflightNewReleaseMessage, serializeXml, type DdexRelease, type XmlElement } from "@/lib/ddex";
+import { checksumList, deliveryManifest, messageFileOptions, type PackagedFile } from "@/lib/delivery-manifest";
+import { config } from "./config";
+import { validateAgainstErnSchema } from "./ern-schema";
+import { loadDeliveryContext } from "./release";
+import { signedStorageUrl, supabase } from "./supabase";
+import { openTransport, type Transport } from "./transports";
+import { wavHeaderDuration } from "./wav";
+
+// Written last; recipients must not pick a bundle up before it appears
+export const COMPLETE_MARKER = "delivery.complete";
+
+// Well inside the 5 minutes after which claim_delivery_job hands a silent job to another worker
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+type DeliveryJob = Tables<"delivery_jobs">;
+
+interface TransferredFile extends PackagedFile {
+  // Playing time read from the WAV header, for tracks stored without a duration
+  duration?: number | null;
+}
+
+interface JobProgress {
+  files?: Record<string, TransferredFile>;
+}
+
+/**
+ * Errors a retry cannot fix, such as invalid metadata; the job fails straight away instead of backing off
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
+
+/**
+ * The job's lock expired and another worker claimed it; this worker stops without recording an outcome
+ */
+export class LostJobError extends Error {
+  constructor(jobId: string) {
+    super(`Delivery job ${jobId} was claimed by another worker`);
+    this.name = "LostJobError";
+  }
+}
+
+/**
+ * Runs the pre-flight check, then validates against the official ERN 4.3 schema; returns the serialized message
+ */
+async function checkedMessage(message: XmlElement): Promise<string> {
+  const xml = serializeXml(message);
+  const problems = preflightNewReleaseMessage(message);
+  if (problems.length === 0) problems.push(...(await validateAgainstErnSchema(xml)));
+  if (problems.length > 0) {
+    throw new PermanentDeliveryError(`The DDEX message is not valid: ${problems.slice(0, 5).join("; ")}`);
+  }
+  return xml;
+}
+
+/**
+ * Streams a storage file to the target, resuming after whatever the target already holds. The whole source is
+ * still read so the checksums cover every byte, but only the missing tail is sent.
+ */
+async function transferFile(
+  transport: Transport,
+  remotePath: string,
+  url: string,
+  path: string,
+  onProgress: () => Promise<void>
+): Promise<TransferredFile> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) throw new Error(`Could not download ${path} from storage (HTTP ${response.status})`);
+
+  const expectedSize = Number(response.headers.get("content-length")) || null;
+  const stored = await transport.storedBytes(remotePath);
+  const offset = expectedSize !== null && stored <= expectedSize ? stored : 0;
+
+  const md5 = createHash("md5");
+  const sha256 = createHash("sha256");
+  const header: Uint8Array[] = [];
+  let size = 0;
+  async function* source() {
+    for await (const chunk of response.body!) {
+      md5.update(chunk);
+      sha256.update(chunk);
+      if (size < 64 * 1024) header.push(chunk);
+      size += chunk.byteLength;
+      await onProgress();
+      yield chunk;
+    }
+  }
+
+  if (offset === expectedSize) {
+    for await (const _chunk of source()) {
+      // Already on the target; read only to checksum it
+    }
+  } else {
+    await transport.write(remotePath, source(), offset);
+  }
+
+  return {
+    path,
+    size,
+    md5: md5.digest("hex"),
+    sha256: sha256.digest("hex"),
+    duration: path.endsWith(".wav") ? await wavHeaderDuration(Buffer.concat(header)) : null,
+  };
+}
+
+function withDurations(release: DdexRelease, files: Record<string, TransferredFile>): DdexRelease {
+  return {
+    ...release,
+    tracks: release.tracks.map((track) => ({ ...track, duration: track.duration || files[track.id]?.duration || null })),
+  };
+}
+
+/**
+ * Pushes one release to one store's target: audio, artwork, ERN message and manifest, then the completion marker.
+ * Finished files are recorded on the job after each transfer so a retry picks up where this attempt stopped.
+ */
+export async function deliverJob(job: DeliveryJob, log: (message: string) => void): Promise<void> {
+  const { release, options, store, target } = await loadDeliveryContext(job.release_id, job.store_id);
+
+  // Metadata problems are caught before any bytes move; durations are only known once the audio has been read
+  await checkedMessage(
+    buildNewReleaseMessage({ ...release, tracks: release.tracks.map((track) => ({ ...track, duration: track.duration || 1 })) }, options)
+  );
+
+  // One folder per job, so a retry resumes into the same files while a redelivery starts clean
+  const folder = `${release.upc}_${job.created_at.replace(/\D/g, "").slice(0, 14)}`;
+  const files: Record<string, TransferredFile> = { ...((job.progress as JobProgress).files ?? {}) };
+
+  // Keeps the lock fresh while bytes are moving, so a long transfer is never handed to a second worker
+  let lastHeartbeat = Date.now();
+  const heartbeat = async () => {
+    const { data: held, error } = await supabase.rpc("heartbeat_delivery_job", {
+      p_job_id: job.id,
+      p_worker: config.workerId,
+    });
+    if (error) throw error;
+    if (!held) throw new LostJobError(job.id);
+    lastHeartbeat = Date.now();
+  };
+  const heartbeatIfDue = async () => {
+    if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) await heartbeat();
+  };
+
+  // Only written while this worker still holds the lock, so a reclaimed job's progress belongs to its new worker
+  const saveProgress = async () => {
+    const { data: saved, error } = await supabase
+      .from("delivery_jobs")
+      .update({ progress: { files } as unknown as Json, updated_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("status", "running")
+      .eq("locked_by", config.workerId)
+      .select("id");
+    if (error) throw error;
+    if (saved.length === 0) throw new LostJobError(job.id);
+    await heartbeat();
+  };
+
+  const resources: { key: string; path: string; source: string; buckets: string[] }[] = release.tracks.map((track) => ({
+    key: track.id,
+    path: `resources/${track.isrc}.wav`,
+    source: track.music_file_url ?? "",
+    buckets: ["music-files", "tracks"],
+  }));
+  if (release.cover_art_url) {
+    const extension = posix.extname(release.cover_art_url).toLowerCase() || ".jpg";
+    resources.push({
+      key: "cover",
+      path: `resources/${release.upc}${extension}`,
+      source: release.cover_art_url,
+      buckets: ["cover-art", "tracks"],
+    });
+  }
+
+  const transport = await openTransport(target);
+  try {
+    for (const resource of resources) {
+      const remotePath = `${folder}/${resource.path}`;
+      const done = files[resource.key];
+      if (done?.path === resource.path && (await transport.storedBytes(remotePath)) === done.size) continue;
+      if (!resource.source) throw new PermanentDeliveryError(`${resource.path} has no source file`);
+
+      log(`Sending ${remotePath} to ${store.name}`);
+      const url = await signedStorageUrl(resource.source, resource.buckets);
+      files[resource.key] = await transferFile(transport, remotePath, url, resource.path, heartbeatIfDue);
+      await saveProgress();
+    }
+
+    const delivered = withDurations(release, files);
+    const xml = await checkedMessage(buildNewReleaseMessage(delivered, { ...options, ...messageFileOptions(files) }));
+    const messageFile: PackagedFile = {
+      path: `${release.upc}.xml`,
+      size: Buffer.byteLength(xml),
+      md5: createHash("md5").update(xml).digest("hex"),
+      sha256: createHash("sha256").update(xml).digest("hex"),
+    };
+    const packaged = Object.fromEntries(Object.entries(files).map(([key, { duration, ...file }]) => [key, file]));
+    await transport.put(`${folder}/${messageFile.path}`, xml);
+    await transport.put(`${folder}/manifest.json`, JSON.stringify(deliveryManifest(delivered, packaged, messageFile), null, 2));
+    await transport.put(`${folder}/${COMPLETE_MARKER}`, checksumList([...Object.values(packaged), messageFile], "sha256"));
+    log(`Delivered ${folder} to ${store.name}`);
+  } finally {
+    await transport.close();
+  }
+}
@@ -0,0 +1,40 @@
+import { readFile, readdir } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { validateXML, type XMLFileInfo } from "xmllint-wasm";
+
+// The official ERN 4.3 schema and everything it imports, downloaded by `npm run fetch-schema`
+export const ERN_SCHEMA_DIR = fileURLToPath(new URL("../schemas/ern-43/", import.meta.url));
+export const ERN_SCHEMA_FILE = "release-notification.xsd";
+
+let schemaFiles: Promise<XMLFileInfo[]> | undefined;
+
+function loadSchemaFiles(): Promise<XMLFileInfo[]> {
+  schemaFiles ??= (async () => {
+    const names = (await readdir(ERN_SCHEMA_DIR).catch(() => [])).filter((name) => name.endsWith(".xsd"));
+    if (!names.includes(ERN_SCHEMA_FILE)) {
+      throw new Error(`The ERN 4.3 schema is missing from ${ERN_SCHEMA_DIR}; run npm run fetch-schema`);
+    }
+    return Promise.all(names.map(async (fileName) => ({ fileName, contents: await readFile(`${ERN_SCHEMA_DIR}${fileName}`, "utf8") })));
+  })();
+  return schemaFiles;
+}
+
+/**
+ * Fails fast when the schema has not been downloaded, rather than on the first delivery
+ */
+export async function assertErnSchemaAvailable(): Promise<void> {
+  await loadSchemaFiles();
+}
+
+/**
+ * Validates a serialized message against the official ERN 4.3 XSD with libxml2; returns its errors
+ */
+export async function validateAgainstErnSchema(xml: string): Promise<string[]> {
+  const files = await loadSchemaFiles();
+  const result = await validateXML({
+    xml: { fileName: "message.xml", contents: xml },
+    schema: files.find(({ fileName }) => fileName === ERN_SCHEMA_FILE)!,
+    preload: files.filter(({ fileName }) => fileName !== ERN_SCHEMA_FILE),
+  });
+  return result.errors.map(({ message, loc }) => (loc ? `line ${loc.lineNumber}: ${message}` : message));
+}
@@ -0,0 +1,32 @@
+/**
+ * Downloads the ERN 4.3 schema and the schemas it imports into schemas/ern-43, pointing each import at the local copy
+ * so validation works offline
+ */
+import { mkdir, writeFile } from "node:fs/promises";
+import { ERN_SCHEMA_DIR, ERN_SCHEMA_FILE } from "./ern-schema";
+
+const ERN_SCHEMA_URL = `https://service.ddex.net/xml/ern/43/${ERN_SCHEMA_FILE}`;
+const SCHEMA_LOCATION = /schemaLocation="([^"]+)"/g;
+
+const saved = new Map<string, string>();
+
+async function fetchSchema(url: string): Promise<string> {
+  const fileName = new URL(url).pathname.split("/").pop()!;
+  if (saved.has(url)) return saved.get(url)!;
+  saved.set(url, fileName);
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: ${response.status} ${response.statusText}`);
+  let contents = await response.text();
+
+  for (const [, location] of [...contents.matchAll(SCHEMA_LOCATION)]) {
+    const local = await fetchSchema(new URL(location, url).href);
+    contents = contents.replaceAll(`schemaLocation="${location}"`, `schemaLocation="${local}"`);
+  }
+  await writeFile(`${ERN_SCHEMA_DIR}${fileName}`, contents);
+  console.log(`Saved ${fileName} from ${url}`);
+  return fileName;
+}
+
+await mkdir(ERN_SCHEMA_DIR, { recursive: true });
+await fetchSchema(ERN_SCHEMA_URL);
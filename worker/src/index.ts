@@ -0,0 +1,65 @@
+import { config } from "./config";
+import { LostJobError, PermanentDeliveryError, deliverJob } from "./deliver";
+import { assertErnSchemaAvailable } from "./ern-schema";
+import { supabase } from "./supabase";
+
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`${signal} received; stopping after the current job`);
+    stopping = true;
+  });
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Claims and runs one job; returns false when the queue is empty
+ */
+async function runNextJob(): Promise<boolean> {
+  const { data, error } = await supabase.rpc("claim_delivery_job", { p_worker: config.workerId });
+  if (error) throw error;
+  const job = data?.[0];
+  if (!job) return false;
+
+  const log = (message: string) => console.log(`[${job.id}] ${message}`);
+  log(`Attempt ${job.attempts} of ${job.max_attempts}`);
+  const lost = () => log("Stopped: another worker has taken over this job");
+  try {
+    await deliverJob(job, log);
+    const { data: finished, error: finishError } = await supabase.rpc("finish_delivery_job", {
+      p_job_id: job.id,
+      p_worker: config.workerId,
+    });
+    if (finishError) throw finishError;
+    if (!finished) lost();
+  } catch (failure) {
+    if (failure instanceof LostJobError) {
+      lost();
+      return true;
+    }
+    const message = failure instanceof Error ? failure.message : String(failure);
+    log(`Failed: ${message}`);
+    const { data: finished, error: finishError } = await supabase.rpc("finish_delivery_job", {
+      p_job_id: job.id,
+      p_worker: config.workerId,
+      p_error: message,
+      p_permanent: failure instanceof PermanentDeliveryError,
+    });
+    if (finishError) throw finishError;
+    if (!finished) lost();
+    else log(finished.status === "failed" ? "Giving up" : `Retrying after ${finished.run_after}`);
+  }
+  return true;
+}
+
+await assertErnSchemaAvailable();
+console.log(`Delivery worker ${config.workerId} polling every ${config.pollIntervalMs / 1000}s`);
+while (!stopping) {
+  try {
+    if (!(await runNextJob())) await sleep(config.pollIntervalMs);
+  } catch (error) {
+    console.error("Queue error:", error);
+    await sleep(config.pollIntervalMs);
+  }
+}
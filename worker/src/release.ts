@@ -0,0 +1,44 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { DdexOptions, DdexRelease } from "@/lib/ddex";
+import { supabase } from "./supabase";
+
+export type DeliveryTarget = Tables<"delivery_targets">;
+
+export interface DeliveryContext {
+  release: DdexRelease;
+  options: DdexOptions;
+  store: Tables<"stores">;
+  target: DeliveryTarget;
+}
+
+/**
+ * Everything needed to deliver one release to one store. The store's own DDEX party id, when set, replaces the
+ * default recipient from the DDEX settings.
+ */
+export async function loadDeliveryContext(releaseId: string, storeId: string): Promise<DeliveryContext> {
+  const [release, settings, genres, store, target] = await Promise.all([
+    supabase.from("releases").select("*, tracks(*, track_credits(*))").eq("id", releaseId).single(),
+    supabase.from("ddex_settings").select("*").maybeSingle(),
+    supabase.from("genres").select("*"),
+    supabase.from("stores").select("*").eq("id", storeId).single(),
+    supabase.from("delivery_targets").select("*").eq("store_id", storeId).eq("active", true).maybeSingle(),
+  ]);
+  for (const { error } of [release, settings, genres, store, target]) {
+    if (error) throw error;
+  }
+  if (!settings.data) throw new Error("Set the DDEX sender and recipient parties before delivering.");
+  if (!target.data) throw new Error(`${store.data!.name} has no active delivery target.`);
+
+  return {
+    release: release.data as DdexRelease,
+    options: {
+      sender: { dpid: settings.data.sender_dpid, name: settings.data.sender_name },
+      recipient: store.data!.dpid
+        ? { dpid: store.data!.dpid, name: store.data!.name }
+        : { dpid: settings.data.recipient_dpid, name: settings.data.recipient_name },
+      genres: genres.data!,
+    },
+    store: store.data!,
+    target: target.data,
+  };
+}
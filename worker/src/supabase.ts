@@ -0,0 +1,19 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+import { config } from "./config";
+
+export const supabase = createClient<Database>(config.supabaseUrl, config.serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false },
+});
+
+/**
+ * Signed URL for a storage path, trying each bucket in turn like the web app does
+ */
+export async function signedStorageUrl(path: string, buckets: string[]): Promise<string> {
+  if (path.startsWith("http")) return path;
+  for (const bucket of buckets) {
+    const { data } = await supabase.storage.from(bucket).createSignedUrl(path, 60 * 60);
+    if (data?.signedUrl) return data.signedUrl;
+  }
+  throw new Error(`${path} was not found in ${buckets.join(" or ")}`);
+}
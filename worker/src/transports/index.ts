@@ -0,0 +1,12 @@
+import type { DeliveryTarget } from "../release";
+import { connectS3 } from "./s3";
+import { connectSftp } from "./sftp";
+import type { Transport } from "./transport";
+
+export type { Transport } from "./transport";
+
+export async function openTransport(target: DeliveryTarget): Promise<Transport> {
+  const secret = process.env[target.secret_env];
+  if (!secret) throw new Error(`${target.secret_env} is not set on the delivery worker`);
+  return target.protocol === "s3" ? connectS3(target, secret) : connectSftp(target, secret);
+}
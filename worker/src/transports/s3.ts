@@ -0,0 +1,125 @@
+import { posix } from "node:path";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+  UploadPartCommand,
+  type CompletedPart,
+} from "@aws-sdk/client-s3";
+import type { DeliveryTarget } from "../release";
+import { skipBytes, type Transport } from "./transport";
+
+// S3 requires every part but the last to be at least 5 MiB
+const PART_SIZE = 16 * 1024 * 1024;
+
+interface OpenUpload {
+  uploadId: string;
+  parts: (CompletedPart & { Size: number })[];
+}
+
+/**
+ * Works with AWS and with S3-compatible services such as MinIO, whose endpoint goes in the target's host
+ */
+export function connectS3(target: DeliveryTarget, secret: string): Transport {
+  const client = new S3Client({
+    region: target.region || "us-east-1",
+    endpoint: target.host || undefined,
+    forcePathStyle: Boolean(target.host),
+    credentials: { accessKeyId: target.username ?? "", secretAccessKey: secret },
+  });
+  const Bucket = target.bucket!;
+  const objectKey = (path: string) => posix.join(target.path_prefix || "", path);
+
+  const objectSize = async (Key: string) => {
+    try {
+      return (await client.send(new HeadObjectCommand({ Bucket, Key }))).ContentLength ?? 0;
+    } catch (error) {
+      if (error instanceof S3ServiceException && error.$metadata.httpStatusCode === 404) return null;
+      throw error;
+    }
+  };
+
+  // An unfinished multipart upload of the key, with its parts in order
+  const openUpload = async (Key: string): Promise<OpenUpload | null> => {
+    const { Uploads = [] } = await client.send(new ListMultipartUploadsCommand({ Bucket, Prefix: Key }));
+    const upload = Uploads.filter((candidate) => candidate.Key === Key).sort(
+      (a, b) => (b.Initiated?.getTime() ?? 0) - (a.Initiated?.getTime() ?? 0)
+    )[0];
+    if (!upload?.UploadId) return null;
+
+    const { Parts = [] } = await client.send(new ListPartsCommand({ Bucket, Key, UploadId: upload.UploadId }));
+    const parts = Parts.sort((a, b) => (a.PartNumber ?? 0) - (b.PartNumber ?? 0))
+      .filter((part, index) => part.PartNumber === index + 1)
+      .map((part) => ({ PartNumber: part.PartNumber, ETag: part.ETag, Size: part.Size ?? 0 }));
+    return { uploadId: upload.UploadId, parts };
+  };
+
+  const uploadedBytes = (upload: OpenUpload) => upload.parts.reduce((sum, part) => sum + part.Size, 0);
+
+  return {
+    async storedBytes(path) {
+      const size = await objectSize(objectKey(path));
+      if (size !== null) return size;
+      const upload = await openUpload(objectKey(path));
+      return upload ? uploadedBytes(upload) : 0;
+    },
+    async write(path, chunks, offset) {
+      const Key = objectKey(path);
+      let upload = await openUpload(Key);
+      // Only an unfinished upload holding exactly `offset` bytes can be continued. A completed object can't be
+      // appended to, so anything else starts again from the first byte rather than leaving a truncated object.
+      if (offset > 0 && upload && uploadedBytes(upload) === offset) {
+        chunks = skipBytes(chunks, offset);
+      } else {
+        // Leftovers from an earlier attempt would otherwise be picked up on the next resume
+        if (upload) await client.send(new AbortMultipartUploadCommand({ Bucket, Key, UploadId: upload.uploadId }));
+        const { UploadId } = await client.send(new CreateMultipartUploadCommand({ Bucket, Key }));
+        upload = { uploadId: UploadId!, parts: [] };
+      }
+
+      const { uploadId, parts } = upload;
+      const sendPart = async (body: Buffer) => {
+        const PartNumber = parts.length + 1;
+        const { ETag } = await client.send(
+          new UploadPartCommand({ Bucket, Key, UploadId: uploadId, PartNumber, Body: body, ContentLength: body.length })
+        );
+        parts.push({ PartNumber, ETag, Size: body.length });
+      };
+
+      let pending: Buffer[] = [];
+      let pendingBytes = 0;
+      for await (const chunk of chunks) {
+        pending.push(Buffer.from(chunk));
+        pendingBytes += chunk.byteLength;
+        while (pendingBytes >= PART_SIZE) {
+          const buffer = Buffer.concat(pending);
+          await sendPart(buffer.subarray(0, PART_SIZE));
+          pending = [buffer.subarray(PART_SIZE)];
+          pendingBytes = pending[0].length;
+        }
+      }
+      if (pendingBytes > 0 || parts.length === 0) await sendPart(Buffer.concat(pending));
+
+      await client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket,
+          Key,
+          UploadId: uploadId,
+          MultipartUpload: { Parts: parts.map(({ PartNumber, ETag }) => ({ PartNumber, ETag })) },
+        })
+      );
+    },
+    async put(path, body) {
+      await client.send(new PutObjectCommand({ Bucket, Key: objectKey(path), Body: body }));
+    },
+    async close() {
+      client.destroy();
+    },
+  };
+}
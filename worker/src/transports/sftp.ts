@@ -0,0 +1,44 @@
+import { posix } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import SftpClient from "ssh2-sftp-client";
+import type { DeliveryTarget } from "../release";
+import { skipBytes, type Transport } from "./transport";
+
+/**
+ * Connects with a password, or with a private key when the secret holds one
+ */
+export async function connectSftp(target: DeliveryTarget, secret: string): Promise<Transport> {
+  const client = new SftpClient();
+  await client.connect({
+    host: target.host!,
+    port: target.port ?? 22,
+    username: target.username!,
+    ...(secret.includes("PRIVATE KEY") ? { privateKey: secret } : { password: secret }),
+    readyTimeout: 20_000,
+  });
+
+  const remotePath = (path: string) => posix.join(target.path_prefix || ".", path);
+
+  return {
+    async storedBytes(path) {
+      const type = await client.exists(remotePath(path));
+      return type === "-" ? (await client.stat(remotePath(path))).size : 0;
+    },
+    async write(path, chunks, offset) {
+      await client.mkdir(posix.dirname(remotePath(path)), true);
+      // Appending to the partial file is what makes an interrupted transfer resumable
+      await pipeline(
+        Readable.from(skipBytes(chunks, offset)),
+        client.createWriteStream(remotePath(path), { flags: offset > 0 ? "a" : "w" })
+      );
+    },
+    async put(path, body) {
+      await client.mkdir(posix.dirname(remotePath(path)), true);
+      await client.put(Buffer.from(body), remotePath(path));
+    },
+    async close() {
+      await client.end();
+    },
+  };
+}
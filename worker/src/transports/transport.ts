@@ -0,0 +1,30 @@
+/**
+ * A place bundles are written to. Paths are relative to the target's configured prefix and use "/" separators.
+ */
+export interface Transport {
+  // Bytes of the file the target already holds, including an unfinished upload; 0 when there is none
+  storedBytes(path: string): Promise<number>;
+  // Writes the file, resuming after the `offset` bytes already stored when the target still can; `chunks` holds the
+  // whole file, so a target that can't resume writes it from the start
+  write(path: string, chunks: AsyncIterable<Uint8Array>, offset: number): Promise<void>;
+  // Writes a small file in one go, replacing any existing one
+  put(path: string, body: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * The chunks after the first `count` bytes
+ */
+export async function* skipBytes(chunks: AsyncIterable<Uint8Array>, count: number): AsyncGenerator<Uint8Array> {
+  let skipped = 0;
+  for await (const chunk of chunks) {
+    if (skipped >= count) {
+      yield chunk;
+    } else if (skipped + chunk.byteLength <= count) {
+      skipped += chunk.byteLength;
+    } else {
+      yield chunk.subarray(count - skipped);
+      skipped = count;
+    }
+  }
+}
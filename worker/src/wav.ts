@@ -0,0 +1,10 @@
+import { readWavFormat } from "@/lib/wav";
+
+/**
+ * Playing time of a WAV file from the start of its stream, or null when the header is not readable there.
+ * Only the first chunks are needed, so this runs while the file is transferred.
+ */
+export async function wavHeaderDuration(header: Uint8Array): Promise<number | null> {
+  const format = await readWavFormat(async (offset, length) => header.subarray(offset, offset + length));
+  return format?.duration ?? null;
+}